@@ -0,0 +1,193 @@
+// electron/backup.js
+// データベースの自動バックアップ（日次・週次の世代管理、危険な操作の前の退避）と、バックアップからの復元
+const fs = require('fs');
+const path = require('path');
+const knex = require('knex');
+const db = require('./database');
+const { getSchemaVersion, LATEST_VERSION } = require('./migrations');
+
+// マイグレーション前のコピー（pre-migration-*.sqlite3）と同じフォルダに置く
+const BACKUP_DIRECTORY = path.join(path.dirname(db.dbPath), 'backups');
+const BACKUP_FILE_PATTERN = /^knowledge-canvas-(daily|weekly|safety|manual)-(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})(\d{3})(?:-([a-z0-9-]+))?\.sqlite3$/;
+const PRE_MIGRATION_FILE_PATTERN = /^pre-migration-v\d+-.+\.sqlite3$/;
+// 危険な操作の前に取ったものは、新しいものからこの数だけ残す（手動とマイグレーション前のものは消さない）
+const SAFETY_BACKUP_COUNT = 10;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+class BackupError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const pad = (value, length = 2) => String(value).padStart(length, '0');
+
+const formatTimestamp = (date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+  `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}${pad(date.getMilliseconds(), 3)}`;
+
+// ファイル名から種類と作成日時を読む。このアプリが作ったもの以外は null
+const parseBackupFileName = (fileName) => {
+  const match = fileName.match(BACKUP_FILE_PATTERN);
+  if (match) {
+    const [, kind, year, month, day, hours, minutes, seconds, milliseconds, reason] = match;
+    const createdAt = new Date(+year, +month - 1, +day, +hours, +minutes, +seconds, +milliseconds);
+    return { kind, reason: reason || null, createdAt };
+  }
+  if (PRE_MIGRATION_FILE_PATTERN.test(fileName)) {
+    return { kind: 'pre-migration', reason: null, createdAt: null };
+  }
+  return null;
+};
+
+// 渡されたファイル名がバックアップフォルダ内のバックアップであることを確かめてからパスにする
+const resolveBackupPath = (fileName) => {
+  if (typeof fileName !== 'string' || path.basename(fileName) !== fileName || !parseBackupFileName(fileName)) {
+    throw new BackupError(`"${fileName}" is not a backup file.`);
+  }
+  return path.join(BACKUP_DIRECTORY, fileName);
+};
+
+// 新しい順
+async function listBackups() {
+  let fileNames;
+  try {
+    fileNames = await fs.promises.readdir(BACKUP_DIRECTORY);
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  const backups = [];
+  for (const fileName of fileNames) {
+    const parsed = parseBackupFileName(fileName);
+    if (!parsed) continue;
+    const stats = await fs.promises.stat(path.join(BACKUP_DIRECTORY, fileName));
+    backups.push({
+      fileName,
+      kind: parsed.kind,
+      reason: parsed.reason,
+      createdAt: (parsed.createdAt || stats.mtime).toISOString(),
+      size: stats.size,
+    });
+  }
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// reason は "before-empty-trash" のような英小文字とハイフンの文字列
+async function createBackup(kind, reason = null) {
+  await fs.promises.mkdir(BACKUP_DIRECTORY, { recursive: true });
+  const fileName = `knowledge-canvas-${kind}-${formatTimestamp(new Date())}${reason ? `-${reason}` : ''}.sqlite3`;
+  await db.snapshotDatabase(path.join(BACKUP_DIRECTORY, fileName));
+  return fileName;
+}
+
+async function pruneBackups(kind, keepCount) {
+  const backups = (await listBackups()).filter(backup => backup.kind === kind);
+  for (const backup of backups.slice(keepCount)) {
+    await fs.promises.unlink(path.join(BACKUP_DIRECTORY, backup.fileName));
+  }
+}
+
+async function createSafetyBackup(reason) {
+  const fileName = await createBackup('safety', reason);
+  await pruneBackups('safety', SAFETY_BACKUP_COUNT);
+  return fileName;
+}
+
+// 今日の日次バックアップが無ければ取り、最後の週次から7日以上経っていれば週次も取る。
+// その後、日次・週次をそれぞれ新しいものから dailyCount / weeklyCount 個だけ残す
+async function runScheduledBackup({ dailyCount, weeklyCount }) {
+  const backups = await listBackups();
+  const now = new Date();
+  const created = [];
+  const latestDaily = backups.find(backup => backup.kind === 'daily');
+  if (dailyCount > 0 && (!latestDaily || new Date(latestDaily.createdAt).toDateString() !== now.toDateString())) {
+    created.push(await createBackup('daily'));
+  }
+  const latestWeekly = backups.find(backup => backup.kind === 'weekly');
+  if (weeklyCount > 0 && (!latestWeekly || now.getTime() - new Date(latestWeekly.createdAt).getTime() >= WEEK_MS)) {
+    created.push(await createBackup('weekly'));
+  }
+  await pruneBackups('daily', dailyCount);
+  await pruneBackups('weekly', weeklyCount);
+  return created;
+}
+
+// 復元前の確認用。壊れていないか、スキーマの版、ゴミ箱以外の件数を調べる（読むだけで書き込みはしない）
+// knex の sqlite3 は OPEN_READWRITE を常に付けるため、OPEN_READONLY では開けない
+async function previewBackup(fileName) {
+  const backupPath = resolveBackupPath(fileName);
+  const backupDb = knex({
+    client: 'sqlite3',
+    connection: { filename: backupPath },
+    useNullAsDefault: true,
+  });
+  try {
+    const integrityRows = await backupDb.raw('PRAGMA integrity_check');
+    const countRows = async (table) => {
+      if (!(await backupDb.schema.hasTable(table))) return 0;
+      const query = backupDb(table);
+      if (await backupDb.schema.hasColumn(table, 'deletedAt')) query.whereNull('deletedAt');
+      const row = await query.count({ count: '*' }).first();
+      return Number(row.count);
+    };
+    return {
+      fileName,
+      isIntact: integrityRows.length === 1 && integrityRows[0].integrity_check === 'ok',
+      schemaVersion: await getSchemaVersion(backupDb),
+      canvases: await countRows('canvases'),
+      nodes: await countRows('nodes'),
+      links: await countRows('links'),
+    };
+  } catch (error) {
+    throw new BackupError(`Could not read the backup: ${error.message}`);
+  } finally {
+    await backupDb.destroy();
+  }
+}
+
+// 現在のDBを退避してからバックアップで置き換える。接続を閉じるので、呼び出し側はこの後アプリを再起動すること。
+// 接続を閉じた後に失敗した場合は databaseClosed を付けた BackupError を投げる（この場合も再起動が必要）
+async function restoreBackup(fileName) {
+  const preview = await previewBackup(fileName);
+  if (!preview.isIntact) {
+    throw new BackupError('The backup file is damaged and cannot be restored.');
+  }
+  if (preview.schemaVersion > LATEST_VERSION) {
+    throw new BackupError(`The backup was made by a newer version of the app (schema version ${preview.schemaVersion}).`);
+  }
+  // 退避バックアップの世代整理で復元元が消されることがあるので、先にDBの隣へ写しておく（置き換えは rename で行う）
+  const stagedPath = `${db.dbPath}.restore-${Date.now()}`;
+  await fs.promises.copyFile(resolveBackupPath(fileName), stagedPath);
+  let safetyFileName;
+  try {
+    safetyFileName = await createSafetyBackup('before-restore');
+  } catch (error) {
+    await fs.promises.rm(stagedPath, { force: true });
+    throw error;
+  }
+  await db.closeDatabase();
+  try {
+    for (const suffix of ['-wal', '-shm', '-journal']) {
+      await fs.promises.rm(`${db.dbPath}${suffix}`, { force: true });
+    }
+    await fs.promises.rename(stagedPath, db.dbPath);
+  } catch (error) {
+    await fs.promises.rm(stagedPath, { force: true }).catch(() => {});
+    const restoreError = new BackupError(`Could not replace the database: ${error.message}`);
+    restoreError.databaseClosed = true;
+    throw restoreError;
+  }
+  return { safetyFileName };
+}
+
+module.exports = {
+  listBackups,
+  createBackup,
+  createSafetyBackup,
+  runScheduledBackup,
+  previewBackup,
+  restoreBackup,
+  BackupError,
+};
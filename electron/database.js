@@ -1,6 +1,8 @@
 const { app } = require('electron');
 const path = require('path');
 const knex = require('knex');
+const { runMigrations } = require('./migrations');
+const { v4: uuidv4 } = require('uuid');
 
 // データベースファイルのパスをユーザーデータディレクトリ内に設定
 // これにより、インストール後もユーザーごとにデータが保持されます。
@@ -14,62 +16,564 @@ const db = knex({
   useNullAsDefault: true, // SQLiteでデフォルト値をNULLにするため
 });
 
-// データベースの初期化（テーブル作成）
-async function initDatabase() {
+// データベースの初期化（未適用のマイグレーションを順に実行）
+async function migrateDatabase() {
   try {
-    const hasNodesTable = await db.schema.hasTable('nodes');
-    if (!hasNodesTable) {
-      await db.schema.createTable('nodes', (table) => {
-        table.string('id').primary();
-        table.string('type').notNullable();
-        table.json('position').notNullable(); // { x: number, y: number }
-        table.json('data').notNullable();     // { label: string, content?: string, fileType?: string, ... }
-        table.timestamp('createdAt').defaultTo(db.fn.now());
-      });
-      console.log('Created "nodes" table.');
-    }
-
-    const hasLinksTable = await db.schema.hasTable('links');
-    if (!hasLinksTable) {
-      await db.schema.createTable('links', (table) => {
-        table.string('id').primary();
-        table.string('source').notNullable().references('id').inTable('nodes').onDelete('CASCADE');
-        table.string('target').notNullable().references('id').inTable('nodes').onDelete('CASCADE');
-        table.timestamp('createdAt').defaultTo(db.fn.now());
-      });
-      console.log('Created "links" table.');
-    }
+    return await runMigrations(db, dbPath);
   } catch (error) {
-    console.error('Error initializing database:', error);
+    console.error('Error migrating database:', error);
     throw error; // エラーを投げてメインプロセスに知らせる
   }
 }
 
+// --- 設定 ---
+const getSetting = async (key) => {
+  const row = await db('settings').where({ key }).first();
+  return row ? row.value : null;
+};
+const setSetting = (key, value) => db('settings').insert({ key, value }).onConflict('key').merge();
+const getAllSettings = async () => {
+  const rows = await db('settings').select('*');
+  return Object.fromEntries(rows.map(row => [row.key, row.value]));
+};
+const updateSettings = (values) => db.transaction(async (trx) => {
+  for (const [key, value] of Object.entries(values)) {
+    await trx('settings').insert({ key, value }).onConflict('key').merge();
+  }
+});
+
+// --- 添付ファイルの保管庫 ---
+// 管理モードで追加したファイルは attachmentsDir に内容のハッシュを名前にしてコピーする。
+// 参照しているノードの数（refCount）はノードの追加・参照先の変更・完全な削除と同じトランザクションで数え直し、
+// 0 になったファイルはメインプロセスが消す
+const attachmentsDir = path.join(app.getPath('userData'), 'attachments');
+
+// 保管庫の中のファイルならその名前（attachments の主キー）、ほかの場所なら null
+const getAttachmentFileName = (filePath) => {
+  if (!filePath) return null;
+  const relative = path.relative(attachmentsDir, filePath);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? path.basename(filePath) : null;
+};
+
+// 保管庫の外のファイルや、記録の無いファイル（別の環境から取り込んだキャンバスなど）は何もしない
+const adjustAttachmentRefCount = async (trx, nodeData, delta) => {
+  const fileName = getAttachmentFileName(nodeData && nodeData.filePath);
+  if (!fileName) return;
+  await trx('attachments').where({ fileName }).increment('refCount', delta);
+  if (delta < 0) {
+    await trx('attachments').where({ fileName }).where('refCount', '<=', 0).update({ releasedAtMs: Date.now() });
+  }
+};
+
+// 同じ内容のファイルが既にあれば記録はそのまま（参照の数はノードを追加したときに増える）
+const saveAttachment = (attachment) => db('attachments').insert(attachment).onConflict('fileName').ignore();
+
+// どのノードからも参照されていないファイル。releasedSince を渡すと、その時刻以降に参照が無くなったものだけ
+const getUnreferencedAttachments = (releasedSince) => db('attachments')
+  .where('refCount', '<=', 0)
+  .modify((qb) => { if (releasedSince !== undefined) qb.where('releasedAtMs', '>=', releasedSince); });
+
+// 消す直前に参照されていたら（同じファイルがまた追加されたら）消さない。消した件数を返す
+const deleteUnreferencedAttachment = (fileName) => db('attachments').where({ fileName }).where('refCount', '<=', 0).del();
+
+// --- キャンバス操作 ---
+const getAllCanvases = () => db('canvases').select('*').orderBy('createdAt');
+const getCanvas = (id) => db('canvases').where({ id }).first();
+const createCanvas = (canvas) => db('canvases').insert(canvas);
+const renameCanvas = (id, name) => db('canvases').where({ id }).update({ name });
+
+// ノード・リンク・枠を新しいIDで丸ごと複製する
+const duplicateCanvas = (sourceCanvasId, newCanvas) => db.transaction(async (trx) => {
+  await trx('canvases').insert(newCanvas);
+
+  const sourceFrames = await trx('frames').where({ canvasId: sourceCanvasId });
+  const frameIdMap = new Map();
+  for (const { createdAt, ...frame } of sourceFrames) {
+    const newFrameId = uuidv4();
+    frameIdMap.set(frame.id, newFrameId);
+    await trx('frames').insert({ ...frame, id: newFrameId, canvasId: newCanvas.id });
+  }
+
+  const sourceNodes = await trx('nodes').where({ canvasId: sourceCanvasId }).whereNull('deletedAt');
+  const nodeIdMap = new Map();
+  for (const { createdAt, ...node } of sourceNodes) {
+    const newNodeId = uuidv4();
+    nodeIdMap.set(node.id, newNodeId);
+    const data = JSON.parse(node.data);
+    if (data.frameId) {
+      data.frameId = frameIdMap.get(data.frameId);
+    }
+    await trx('nodes').insert({ ...node, id: newNodeId, canvasId: newCanvas.id, data: JSON.stringify(data) });
+    await adjustAttachmentRefCount(trx, data, 1);
+    // 添付ファイルのテキストも引き継ぎ、抽出し直さずに検索できるようにする
+    const fileText = await trx('node_file_texts').where({ nodeId: node.id }).first();
+    if (fileText) {
+      await trx('node_file_texts').insert({ ...fileText, nodeId: newNodeId });
+    }
+    const fileState = await trx('node_file_states').where({ nodeId: node.id }).first();
+    if (fileState) {
+      await trx('node_file_states').insert({ ...fileState, nodeId: newNodeId });
+    }
+  }
+
+  const sourceLinks = await trx('links').where({ canvasId: sourceCanvasId }).whereNull('deletedAt');
+  for (const { createdAt, ...link } of sourceLinks) {
+    if (!nodeIdMap.has(link.source) || !nodeIdMap.has(link.target)) continue;
+    await trx('links').insert({
+      ...link,
+      id: uuidv4(),
+      source: nodeIdMap.get(link.source),
+      target: nodeIdMap.get(link.target),
+      canvasId: newCanvas.id,
+    });
+  }
+});
+
+const deleteCanvas = (id) => db.transaction(async (trx) => {
+  for (const node of await trx('nodes').select('data').where({ canvasId: id })) {
+    await adjustAttachmentRefCount(trx, JSON.parse(node.data), -1);
+  }
+  await trx('node_revisions').whereIn('nodeId', trx('nodes').select('id').where({ canvasId: id })).del();
+  await trx('node_file_texts').whereIn('nodeId', trx('nodes').select('id').where({ canvasId: id })).del();
+  await trx('node_file_states').whereIn('nodeId', trx('nodes').select('id').where({ canvasId: id })).del();
+  await trx('links').where({ canvasId: id }).del();
+  await trx('nodes').where({ canvasId: id }).del();
+  await trx('frames').where({ canvasId: id }).del();
+  await trx('canvases').where({ id }).del();
+});
+
+// --- 履歴（リビジョン） ---
+const hasRevisionedFieldsChanged = (before, after) =>
+  (before.title || '') !== (after.title || '') ||
+  (before.content || '') !== (after.content || '') ||
+  JSON.stringify(before.tags || []) !== JSON.stringify(after.tags || []);
+
+const getNodeRevisions = (nodeId) => db('node_revisions').where({ nodeId }).orderBy('id', 'desc');
+
 // --- ノード操作 ---
-const getAllNodes = () => db('nodes').select('*');
-const addNode = (node) => db('nodes').insert(node);
-const updateNodePosition = (id, position) => db('nodes').where({ id }).update({ position });
-const updateNodeData = (id, data) => db('nodes').where({ id }).update({ data: JSON.stringify(data) }); // dataをJSON文字列化
-const deleteNode = (id) => db('nodes').where({ id }).del();
+// 書き込む関数の最後の引数 conn には applyBatch のトランザクションを渡せる（省略時は db）
+const getAllNodes = (canvasId) => db('nodes').where({ canvasId }).whereNull('deletedAt').select('*');
+const addNode = (node, conn = db) => conn.transaction(async (trx) => {
+  await trx('nodes').insert(node);
+  await adjustAttachmentRefCount(trx, JSON.parse(node.data), 1);
+});
+const updateNodePosition = (id, position, conn = db) => conn('nodes').where({ id }).update({ position });
+// タイトル・内容・タグのいずれかが変わる場合は、上書きする前の状態を node_revisions に残す
+// 参照先のファイルが変わる場合は、保管庫のファイルの参照の数も付け替える
+const updateNodeData = (id, data, conn = db) => conn.transaction(async (trx) => {
+  const currentNode = await trx('nodes').where({ id }).first();
+  if (currentNode) {
+    const currentData = JSON.parse(currentNode.data);
+    if (hasRevisionedFieldsChanged(currentData, data)) {
+      await trx('node_revisions').insert({
+        nodeId: id,
+        title: currentData.title || '',
+        content: currentData.content || '',
+        tags: JSON.stringify(currentData.tags || []),
+      });
+    }
+    if (currentData.filePath !== data.filePath) {
+      await adjustAttachmentRefCount(trx, currentData, -1);
+      await adjustAttachmentRefCount(trx, data, 1);
+    }
+  }
+  return trx('nodes').where({ id }).update({ data: JSON.stringify(data) }); // dataをJSON文字列化
+});
 
 // --- リンク操作 ---
-const getAllLinks = () => db('links').select('*');
-const addLink = (link) => db('links').insert(link);
-const deleteLink = (id) => db('links').where({ id }).del();
-// リンクはIDでの削除より、ソース/ターゲットでの削除が実用的かもしれない
-const deleteLinksByNodeId = (nodeId) => db('links').where({ source: nodeId }).orWhere({ target: nodeId }).del();
+const getAllLinks = (canvasId) => db('links').where({ canvasId }).whereNull('deletedAt').select('*');
+const addLink = (link, conn = db) => conn('links').insert(link);
+// 関係の種類・ラベル・向き・線の種類・色・重さを変える（両端のノードは変えない）
+const updateLink = (id, fields, conn = db) => {
+  const { relationType, label, direction, lineStyle, color, weight } = fields;
+  return conn('links').where({ id }).update({ relationType, label, direction, lineStyle, color, weight });
+};
+
+// --- 全文検索 ---
+// nodes_fts（trigram）はトリガーで nodes と同期している
+const SNIPPET_OPEN = '\u0001';
+const SNIPPET_CLOSE = '\u0002';
+const SNIPPET_TOKENS = 64; // trigram では1文字が1トークンになるので上限（64）まで使う
+const TRIGRAM_MIN_LENGTH = 3;
+
+// "..." はフレーズ、それ以外は空白区切りの語。末尾の * （前方一致）は trigram では部分一致に含まれるので外す
+const parseSearchQuery = (query) => {
+  const terms = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match;
+  while ((match = pattern.exec(query)) !== null) {
+    const term = (match[1] !== undefined ? match[1] : match[2].replace(/\*+$/, '')).trim();
+    if (term) terms.push(term);
+  }
+  return terms;
+};
+
+const escapeLikePattern = (term) => term.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+// 強調部分を区切り文字で挟んだ文字列を { text, highlighted } の配列にする
+const toSnippetSegments = (snippet) => {
+  const segments = [];
+  (snippet || '').split(SNIPPET_OPEN).forEach((part, index) => {
+    if (index === 0) {
+      if (part) segments.push({ text: part, highlighted: false });
+      return;
+    }
+    const [highlightedText, rest] = part.split(SNIPPET_CLOSE);
+    if (highlightedText) segments.push({ text: highlightedText, highlighted: true });
+    if (rest) segments.push({ text: rest, highlighted: false });
+  });
+  return segments;
+};
+
+// trigram で引けない短い語だけの検索では snippet() が使えないので、最初に見つかった位置の前後を切り出す
+const buildFallbackSnippet = (text, terms) => {
+  const source = text || '';
+  const lower = source.toLowerCase();
+  const hit = terms
+    .map(term => ({ term, index: lower.indexOf(term.toLowerCase()) }))
+    .find(({ index }) => index >= 0);
+  if (!hit) return source.slice(0, 80);
+  const start = Math.max(0, hit.index - 30);
+  const end = Math.min(source.length, hit.index + hit.term.length + 50);
+  return `${start > 0 ? '…' : ''}${source.slice(start, hit.index)}${SNIPPET_OPEN}${source.slice(hit.index, hit.index + hit.term.length)}${SNIPPET_CLOSE}${source.slice(hit.index + hit.term.length, end)}${end < source.length ? '…' : ''}`;
+};
+
+// 関連度順のヒット（{ nodeId, title, snippet, rank }）を返す。limit を省略すると全件
+const searchNodes = async (canvasId, query, limit) => {
+  const terms = parseSearchQuery(query || '');
+  if (terms.length === 0) return [];
+
+  const matchTerms = terms.filter(term => [...term].length >= TRIGRAM_MIN_LENGTH);
+  const shortTerms = terms.filter(term => [...term].length < TRIGRAM_MIN_LENGTH);
+  const matchExpression = matchTerms.map(term => `"${term.replace(/"/g, '""')}"`).join(' ');
+
+  const rowsQuery = db('nodes_fts')
+    .join('nodes', 'nodes.rowid', 'nodes_fts.rowid')
+    .where('nodes_fts.canvasId', canvasId)
+    .select('nodes.id as nodeId', 'nodes_fts.title', 'nodes_fts.content', 'nodes_fts.fileText');
+
+  shortTerms.forEach(term => {
+    const pattern = `%${escapeLikePattern(term)}%`;
+    rowsQuery.where((qb) => qb
+      .whereRaw("nodes_fts.title LIKE ? ESCAPE '\\'", [pattern])
+      .orWhereRaw("nodes_fts.content LIKE ? ESCAPE '\\'", [pattern])
+      .orWhereRaw("nodes_fts.tags LIKE ? ESCAPE '\\'", [pattern])
+      .orWhereRaw("nodes_fts.fileText LIKE ? ESCAPE '\\'", [pattern]));
+  });
+
+  if (matchExpression) {
+    rowsQuery
+      .whereRaw('nodes_fts MATCH ?', [matchExpression])
+      // タイトル > タグ > 本文・添付ファイル の重みで bm25 を計算する（小さいほど関連度が高い）
+      .select(db.raw('bm25(nodes_fts, 10.0, 1.0, 5.0, 1.0, 0.0) as rank'))
+      .select(db.raw('snippet(nodes_fts, -1, ?, ?, ?, ?) as snippet', [SNIPPET_OPEN, SNIPPET_CLOSE, '…', SNIPPET_TOKENS]))
+      .orderBy('rank');
+  } else {
+    rowsQuery.select(db.raw('0 as rank')).orderBy('nodes_fts.title');
+  }
+  if (limit) rowsQuery.limit(limit);
+
+  const rows = await rowsQuery;
+  return rows.map(row => ({
+    nodeId: row.nodeId,
+    title: row.title || '',
+    snippet: toSnippetSegments(row.snippet !== undefined ? row.snippet : buildFallbackSnippet(row.content || row.fileText || row.title, shortTerms)),
+    rank: row.rank,
+  }));
+};
+
+// --- 添付ファイルのテキスト ---
+const getNodeFileText = (nodeId) => db('node_file_texts').where({ nodeId }).first();
+
+// 抽出結果（{ text, status, error, fileMtimeMs, fileSize }）を保存する。索引はトリガーで更新される
+// 抽出中にノードが完全に削除されていたら何もしない
+const saveNodeFileText = (nodeId, result) => db.transaction(async (trx) => {
+  const node = await trx('nodes').where({ id: nodeId }).first('id');
+  if (!node) return false;
+  await trx('node_file_texts')
+    .insert({ nodeId, ...result, extractedAt: trx.fn.now() })
+    .onConflict('nodeId')
+    .merge();
+  return true;
+});
+
+// ファイルの変更を確かめるため、ファイルノードと抽出時の mtime・サイズを返す
+const getFileNodesWithTextState = (canvasId) => db('nodes')
+  .leftJoin('node_file_texts', 'node_file_texts.nodeId', 'nodes.id')
+  .where({ 'nodes.canvasId': canvasId, 'nodes.type': 'file' })
+  .whereNull('nodes.deletedAt')
+  .select('nodes.id', 'nodes.data', 'node_file_texts.status', 'node_file_texts.fileMtimeMs', 'node_file_texts.fileSize');
+
+// --- 添付ファイルの所在 ---
+// ファイルノード（ゴミ箱にあるものは除く）と、前回確かめたときの状態。canvasId を省くと全キャンバス分
+const getFileNodesWithState = (canvasId) => db('nodes')
+  .leftJoin('node_file_states', 'node_file_states.nodeId', 'nodes.id')
+  .where({ 'nodes.type': 'file' })
+  .modify((qb) => { if (canvasId) qb.where({ 'nodes.canvasId': canvasId }); })
+  .whereNull('nodes.deletedAt')
+  .select('nodes.id', 'nodes.canvasId', 'nodes.data', 'node_file_states.status', 'node_file_states.contentHash',
+    'node_file_states.fileSize', 'node_file_states.fileMtimeMs', 'node_file_states.viewedMtimeMs');
+
+// state に含めた列だけを書き換える（見つからなかったときは status だけ渡し、前回のハッシュを残す）
+// 確かめている間にノードが完全に削除されていたら何もしない
+const saveNodeFileState = (nodeId, state) => db.transaction(async (trx) => {
+  const node = await trx('nodes').where({ id: nodeId }).first('id');
+  if (!node) return false;
+  await trx('node_file_states')
+    .insert({ nodeId, ...state, checkedAt: trx.fn.now() })
+    .onConflict('nodeId')
+    .merge();
+  return true;
+});
+
+// アプリから開いたときのファイルの mtime を覚える（まだ一度も確かめていないノードは何もしない）
+const markNodeFileViewed = (nodeId, mtimeMs) => db('node_file_states').where({ nodeId }).update({ viewedMtimeMs: mtimeMs });
+
+// --- ゴミ箱 ---
+// ノードはゴミ箱へ移すだけで、位置や接続していたリンクはそのまま残す
+const trashNode = (id, conn = db) => conn.transaction(async (trx) => {
+  const deletedAt = new Date().toISOString();
+  await trx('links')
+    .where((qb) => qb.where({ source: id }).orWhere({ target: id }))
+    .whereNull('deletedAt')
+    .update({ deletedAt, deletedWithNodeId: id });
+  return trx('nodes').where({ id }).update({ deletedAt });
+});
+const trashLink = (id, conn = db) => conn('links').where({ id }).whereNull('deletedAt').update({ deletedAt: new Date().toISOString(), deletedWithNodeId: null });
+
+// ノードと一緒にゴミ箱へ移ったリンクは、両端のノードが揃っていれば一緒に戻す
+const restoreNode = (id, conn = db) => conn.transaction(async (trx) => {
+  await trx('nodes').where({ id }).update({ deletedAt: null });
+  const aliveNodeIds = trx('nodes').select('id').whereNull('deletedAt');
+  return trx('links')
+    .where((qb) => qb.where({ source: id }).orWhere({ target: id }))
+    .whereNotNull('deletedWithNodeId')
+    .whereIn('source', aliveNodeIds)
+    .whereIn('target', aliveNodeIds)
+    .update({ deletedAt: null, deletedWithNodeId: null });
+});
+const restoreLink = (id, conn = db) => conn('links')
+  .where({ id })
+  .whereIn('source', conn('nodes').select('id').whereNull('deletedAt'))
+  .whereIn('target', conn('nodes').select('id').whereNull('deletedAt'))
+  .update({ deletedAt: null, deletedWithNodeId: null });
+
+// ゴミ箱の中身（リンクは単独で削除されたものだけ。ノードと一緒に消えたものはノードの復元で戻る）
+const getTrash = async (canvasId) => {
+  const trashedNodes = await db('nodes').where({ canvasId }).whereNotNull('deletedAt').orderBy('deletedAt', 'desc');
+  const trashedLinks = await db('links').where({ canvasId }).whereNotNull('deletedAt').whereNull('deletedWithNodeId').orderBy('deletedAt', 'desc');
+  return { nodes: trashedNodes, links: trashedLinks };
+};
+
+// 完全に削除する
+const purgeNode = (id, conn = db) => conn.transaction(async (trx) => {
+  const node = await trx('nodes').where({ id }).first();
+  if (node) {
+    await adjustAttachmentRefCount(trx, JSON.parse(node.data), -1);
+  }
+  await trx('links').where({ source: id }).orWhere({ target: id }).del();
+  await trx('node_revisions').where({ nodeId: id }).del();
+  await trx('node_file_texts').where({ nodeId: id }).del();
+  await trx('node_file_states').where({ nodeId: id }).del();
+  return trx('nodes').where({ id }).del();
+});
+const purgeLink = (id, conn = db) => conn('links').where({ id }).del();
+
+const emptyTrash = async (canvasId) => {
+  const trashedNodes = await db('nodes').select('id').where({ canvasId }).whereNotNull('deletedAt');
+  for (const { id } of trashedNodes) {
+    await purgeNode(id);
+  }
+  await db('links').where({ canvasId }).whereNotNull('deletedAt').del();
+};
+
+// 保存期間を過ぎたものを完全に削除する
+const purgeExpiredTrash = async (retentionDays) => {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const expiredNodes = await db('nodes').select('id').whereNotNull('deletedAt').where('deletedAt', '<', cutoff);
+  for (const { id } of expiredNodes) {
+    await purgeNode(id);
+  }
+  const purgedLinkCount = await db('links').whereNotNull('deletedAt').where('deletedAt', '<', cutoff).del();
+  return { nodes: expiredNodes.length, links: purgedLinkCount };
+};
+
+// --- 枠 ---
+const getAllFrames = (canvasId) => db('frames').where({ canvasId }).select('*');
+// 追加と変更を兼ねる（取り消しで削除した枠を同じIDで戻すため）
+const saveFrame = (frame, conn = db) => conn('frames').insert(frame).onConflict('id').merge();
+const deleteFrame = (id, conn = db) => conn('frames').where({ id }).del();
+
+// --- まとめて適用 ---
+// レイアウト・複数削除・インポートなど、多数の書き込みを1つのトランザクションで行う。
+// 途中で1つでも失敗したら全体を取り消す。結果は操作ごとの戻り値（更新件数など）の配列
+const BATCH_OPERATIONS = {
+  addNode: (operation, trx) => addNode(operation.node, trx),
+  addLink: (operation, trx) => addLink(operation.link, trx),
+  updateLink: (operation, trx) => updateLink(operation.id, operation.fields, trx),
+  updateNodePosition: (operation, trx) => updateNodePosition(operation.id, operation.position, trx),
+  updateNodeData: (operation, trx) => updateNodeData(operation.id, operation.data, trx),
+  trashNode: (operation, trx) => trashNode(operation.id, trx),
+  trashLink: (operation, trx) => trashLink(operation.id, trx),
+  restoreNode: (operation, trx) => restoreNode(operation.id, trx),
+  restoreLink: (operation, trx) => restoreLink(operation.id, trx),
+  purgeNode: (operation, trx) => purgeNode(operation.id, trx),
+  purgeLink: (operation, trx) => purgeLink(operation.id, trx),
+  saveFrame: (operation, trx) => saveFrame(operation.frame, trx),
+  deleteFrame: (operation, trx) => deleteFrame(operation.id, trx),
+};
+
+// 操作ごとに必要な項目。レンダラーから受け取った配列をトランザクションを始める前に確かめるために使う
+const isNonEmptyString = (value) => typeof value === 'string' && value.length > 0;
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isPosition = (value) => typeof value === 'string'
+  || (isObject(value) && Number.isFinite(value.x) && Number.isFinite(value.y));
+const hasId = (operation) => isNonEmptyString(operation.id);
+const BATCH_OPERATION_CHECKS = {
+  addNode: ({ node }) => isObject(node) && isNonEmptyString(node.id) && isNonEmptyString(node.canvasId)
+    && isNonEmptyString(node.type) && typeof node.position === 'string' && typeof node.data === 'string',
+  addLink: ({ link }) => isObject(link) && isNonEmptyString(link.id) && isNonEmptyString(link.canvasId)
+    && isNonEmptyString(link.source) && isNonEmptyString(link.target),
+  updateLink: (operation) => hasId(operation) && isObject(operation.fields),
+  updateNodePosition: (operation) => hasId(operation) && isPosition(operation.position),
+  updateNodeData: (operation) => hasId(operation) && isObject(operation.data),
+  trashNode: hasId,
+  trashLink: hasId,
+  restoreNode: hasId,
+  restoreLink: hasId,
+  purgeNode: hasId,
+  purgeLink: hasId,
+  saveFrame: ({ frame }) => isObject(frame) && isNonEmptyString(frame.id) && isNonEmptyString(frame.canvasId),
+  deleteFrame: hasId,
+};
+
+// 形の崩れた操作があれば、何も書き込まないうちにどの操作が悪いかを示して投げる
+const validateBatchOperations = (operations) => {
+  if (!Array.isArray(operations)) {
+    throw new Error('A batch must be an array of operations.');
+  }
+  operations.forEach((operation, index) => {
+    if (!isObject(operation) || !Object.prototype.hasOwnProperty.call(BATCH_OPERATIONS, operation.type)) {
+      throw new Error(`Unknown batch operation at index ${index}: ${isObject(operation) ? operation.type : operation}`);
+    }
+    if (!BATCH_OPERATION_CHECKS[operation.type](operation)) {
+      throw new Error(`Malformed ${operation.type} operation at index ${index}.`);
+    }
+  });
+};
+
+const applyBatch = (operations) => db.transaction(async (trx) => {
+  const results = [];
+  for (const operation of operations) {
+    const apply = BATCH_OPERATIONS[operation.type];
+    if (!apply) {
+      throw new Error(`Unknown batch operation: ${operation.type}`);
+    }
+    results.push(await apply(operation, trx));
+  }
+  return results;
+});
+
+// --- タグ ---
+// ゴミ箱にないノードでの使用数。全キャンバスを通して数える
+const getTagUsage = () => db.raw(`
+  SELECT tags.value AS tag, COUNT(DISTINCT nodes.id) AS count
+  FROM nodes, json_each(nodes.data, '$.tags') AS tags
+  WHERE nodes.deletedAt IS NULL
+  GROUP BY tags.value
+  ORDER BY tags.value
+`);
+
+const getTagColors = async () => {
+  const rows = await db('tag_colors').select('*');
+  return Object.fromEntries(rows.map(row => [row.tag, row.color]));
+};
+
+// renames は { 元のタグ: 新しいタグ | null（削除） }、colors は { タグ: 色 | null（色を外す） }。
+// 全キャンバスのノード（ゴミ箱にあるものも含む）を書き換え、色と合わせて1つのトランザクションで保存する
+const applyTagChanges = ({ renames = {}, colors = {} }) => db.transaction(async (trx) => {
+  const renamedTags = Object.keys(renames);
+  let updatedNodeCount = 0;
+  if (renamedTags.length > 0) {
+    const rows = await trx('nodes')
+      .select('id', 'data')
+      .whereRaw(
+        `EXISTS (SELECT 1 FROM json_each(nodes.data, '$.tags') WHERE value IN (${renamedTags.map(() => '?').join(', ')}))`,
+        renamedTags
+      );
+    for (const row of rows) {
+      const data = JSON.parse(row.data);
+      const tags = (data.tags || [])
+        .map(tag => Object.prototype.hasOwnProperty.call(renames, tag) ? renames[tag] : tag)
+        .filter(Boolean);
+      await updateNodeData(row.id, { ...data, tags: Array.from(new Set(tags)) }, trx);
+      updatedNodeCount += 1;
+    }
+  }
+  for (const [tag, color] of Object.entries(colors)) {
+    if (color) {
+      await trx('tag_colors').insert({ tag, color }).onConflict('tag').merge();
+    } else {
+      await trx('tag_colors').where({ tag }).del();
+    }
+  }
+  return { updatedNodeCount };
+});
+
+// --- バックアップ ---
+// VACUUM INTO は書き込み中でも整合性の取れた複製を1つのファイルに書き出す（書き出し先が既にあると失敗する）
+const snapshotDatabase = (targetPath) => db.raw('VACUUM INTO ?', [targetPath]);
+
+// バックアップから戻す前に接続を閉じる。閉じた後はこのモジュールの関数は使えない（アプリを再起動する）
+const closeDatabase = () => db.destroy();
 
 
 module.exports = {
-  initDatabase,
+  migrateDatabase,
+  getSetting,
+  setSetting,
+  getAllSettings,
+  updateSettings,
+  getAllCanvases,
+  getCanvas,
+  createCanvas,
+  renameCanvas,
+  duplicateCanvas,
+  deleteCanvas,
+  getNodeRevisions,
   getAllNodes,
   addNode,
   updateNodePosition,
   updateNodeData,
-  deleteNode,
   getAllLinks,
   addLink,
-  deleteLink,
-  deleteLinksByNodeId,
+  searchNodes,
+  getNodeFileText,
+  saveNodeFileText,
+  getFileNodesWithTextState,
+  getFileNodesWithState,
+  saveNodeFileState,
+  markNodeFileViewed,
+  saveAttachment,
+  getUnreferencedAttachments,
+  deleteUnreferencedAttachment,
+  attachmentsDir,
+  trashNode,
+  trashLink,
+  restoreNode,
+  restoreLink,
+  getTrash,
+  purgeNode,
+  purgeLink,
+  emptyTrash,
+  purgeExpiredTrash,
+  validateBatchOperations,
+  applyBatch,
+  getAllFrames,
+  getTagUsage,
+  getTagColors,
+  applyTagChanges,
+  snapshotDatabase,
+  closeDatabase,
   dbPath, // パスもエクスポートしておくと便利
 };
\ No newline at end of file
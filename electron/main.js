@@ -3,7 +3,13 @@ const { app, BrowserWindow, dialog, Menu, ipcMain, shell } = require('electron')
 const path = require('path');
 const url = require('url');
 const fs = require('fs'); // Already present
+const crypto = require('crypto');
+const { v4: uuidv4 } = require('uuid');
 const db = require('./database');
+const { MigrationError } = require('./migrations');
+const { canExtractText, extractText } = require('./text-extraction');
+const { findStaleExportFiles, writeMarkdownFolder } = require('./markdown-export');
+const { listBackups, createBackup, createSafetyBackup, runScheduledBackup, previewBackup, restoreBackup } = require('./backup');
 
 // isDevの代わりにapp.isPackagedを使用
 const isDev = !app.isPackaged;
@@ -52,9 +58,591 @@ function saveWindowSettings() {
 }
 // --- End Window State Management ---
 
+// Key in the settings table that remembers the canvas opened last
+const LAST_CANVAS_SETTING_KEY = 'lastCanvasId';
+
+// The canvas opened last, or the first one if it no longer exists
+async function getActiveCanvas() {
+  const lastCanvasId = await db.getSetting(LAST_CANVAS_SETTING_KEY);
+  const lastCanvas = lastCanvasId ? await db.getCanvas(lastCanvasId) : null;
+  if (lastCanvas) return lastCanvas;
+  const [firstCanvas] = await db.getAllCanvases();
+  return firstCanvas || null;
+}
+
+// --- Trash Retention ---
+const TRASH_RETENTION_SETTING_KEY = 'trashRetentionDays';
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+async function purgeExpiredTrash() {
+  try {
+    const stored = Number.parseInt(await db.getSetting(TRASH_RETENTION_SETTING_KEY), 10);
+    const retentionDays = Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+    const purgeStartedAt = Date.now();
+    const purged = await db.purgeExpiredTrash(retentionDays);
+    if (purged.nodes > 0) {
+      syncFileWatchers();
+      await removeUnreferencedAttachments(purgeStartedAt);
+    }
+    if (purged.nodes > 0 || purged.links > 0) {
+      console.log(`Purged ${purged.nodes} node(s) and ${purged.links} link(s) from trash older than ${retentionDays} day(s).`);
+    }
+  } catch (error) {
+    console.error('Failed to purge expired trash:', error);
+  }
+}
+
+// --- Backups ---
+// Daily and weekly snapshots are taken on a schedule; irreversible operations take a safety snapshot first.
+const BACKUP_DAILY_COUNT_SETTING_KEY = 'backupDailyCount';
+const BACKUP_WEEKLY_COUNT_SETTING_KEY = 'backupWeeklyCount';
+const DEFAULT_BACKUP_DAILY_COUNT = 7;
+const DEFAULT_BACKUP_WEEKLY_COUNT = 4;
+const BACKUP_CHECK_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+async function getCountSetting(key, fallback) {
+  const stored = Number.parseInt(await db.getSetting(key), 10);
+  return Number.isFinite(stored) && stored >= 0 ? stored : fallback;
+}
+
+async function backUpOnSchedule() {
+  try {
+    const created = await runScheduledBackup({
+      dailyCount: await getCountSetting(BACKUP_DAILY_COUNT_SETTING_KEY, DEFAULT_BACKUP_DAILY_COUNT),
+      weeklyCount: await getCountSetting(BACKUP_WEEKLY_COUNT_SETTING_KEY, DEFAULT_BACKUP_WEEKLY_COUNT),
+    });
+    created.forEach(fileName => console.log(`Created backup ${fileName}.`));
+  } catch (error) {
+    console.error('Scheduled backup failed:', error);
+  }
+}
+
+// A failed safety snapshot does not block the operation: deleting data may be the way to free disk space
+async function backUpBefore(reason) {
+  try {
+    await createSafetyBackup(reason);
+  } catch (error) {
+    console.error(`Safety backup (${reason}) failed:`, error);
+  }
+}
+
+// --- Text Extraction ---
+// Attached files are extracted one at a time in the background. Each file reports its progress
+// to the renderer on 'extraction:progress' along with how far the current batch has got.
+const FILE_TEXT_CHECK_MIN_INTERVAL_MS = 10 * 1000;
+const extractionQueue = [];
+const queuedExtractionNodeIds = new Set();
+const extractionBatch = { total: 0, completed: 0 };
+let isExtracting = false;
+let lastFileTextCheckAt = 0;
+
+function sendExtractionProgress(progress) {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('extraction:progress', { ...progress, ...extractionBatch });
+  }
+}
+
+function queueTextExtraction(nodeId, filePath) {
+  if (!canExtractText(filePath) || queuedExtractionNodeIds.has(nodeId)) return;
+  queuedExtractionNodeIds.add(nodeId);
+  extractionQueue.push({ nodeId, filePath });
+  extractionBatch.total += 1;
+  processExtractionQueue();
+}
+
+async function statOrNull(filePath) {
+  try {
+    return await fs.promises.stat(filePath);
+  } catch (error) {
+    return null;
+  }
+}
+
+async function processExtractionQueue() {
+  if (isExtracting) return;
+  isExtracting = true;
+  while (extractionQueue.length > 0) {
+    const { nodeId, filePath } = extractionQueue.shift();
+    queuedExtractionNodeIds.delete(nodeId);
+    sendExtractionProgress({ nodeId, filePath, status: 'started' });
+
+    // Failures are stored with the file's mtime and size too, so they are retried only after the file changes
+    const stats = await statOrNull(filePath);
+    const fileState = { fileMtimeMs: stats ? stats.mtimeMs : null, fileSize: stats ? stats.size : null };
+    try {
+      if (!stats) {
+        throw new Error('File not found.');
+      }
+      const text = await extractText(filePath);
+      await db.saveNodeFileText(nodeId, { text, status: 'done', error: null, ...fileState });
+      extractionBatch.completed += 1;
+      sendExtractionProgress({ nodeId, filePath, status: 'done', characters: text.length });
+    } catch (error) {
+      console.error(`Failed to extract text from ${filePath}:`, error);
+      try {
+        await db.saveNodeFileText(nodeId, { text: null, status: 'failed', error: error.message, ...fileState });
+      } catch (saveError) {
+        console.error('Failed to record text extraction failure:', saveError);
+      }
+      extractionBatch.completed += 1;
+      sendExtractionProgress({ nodeId, filePath, status: 'failed', error: error.message });
+    }
+  }
+  extractionBatch.total = 0;
+  extractionBatch.completed = 0;
+  isExtracting = false;
+}
+
+// Re-extract files that changed since they were last extracted (or were never extracted)
+async function checkFileTextsForChanges(canvasId) {
+  if (!canvasId) return;
+  try {
+    const fileNodes = await db.getFileNodesWithTextState(canvasId);
+    for (const fileNode of fileNodes) {
+      const { filePath } = JSON.parse(fileNode.data);
+      if (!canExtractText(filePath)) continue;
+      const stats = await statOrNull(filePath);
+      const isUnchanged = fileNode.status !== null && fileNode.status !== undefined &&
+        (stats ? stats.mtimeMs === fileNode.fileMtimeMs && stats.size === fileNode.fileSize : fileNode.fileSize === null);
+      if (!isUnchanged) {
+        queueTextExtraction(fileNode.id, filePath);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to check attached files for changes:', error);
+  }
+}
+
+async function checkActiveCanvasFileTexts() {
+  if (Date.now() - lastFileTextCheckAt < FILE_TEXT_CHECK_MIN_INTERVAL_MS) return;
+  lastFileTextCheckAt = Date.now();
+  const activeCanvas = await getActiveCanvas();
+  await checkFileTextsForChanges(activeCanvas && activeCanvas.id);
+}
+
+// --- Missing File Detection ---
+// File nodes only hold a path, so files moved or deleted outside the app leave broken nodes behind.
+// Every file node is checked at startup and on request; the ids of the missing ones go to the renderer
+// on 'files:status'. The content hash of each file found is kept so a moved copy can be recognised later.
+const RELINK_SEARCH_SKIPPED_DIRECTORIES = new Set(['node_modules']);
+const RELINK_SEARCH_MAX_FILES = 100000;
+let fileCheckPromise = null;
+
+function hashFile(filePath) {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('error', reject)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+// Stored paths may come from another platform (imported canvases), so split on both separators
+function getPathSegments(filePath) {
+  return filePath.split(/[\\/]/).filter(Boolean);
+}
+
+function sendFileStatus(status) {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('files:status', status);
+  }
+}
+
+// Files are hashed again only when their size or mtime changed since the last check.
+// Calls made while a check is running share its result.
+function checkFileNodes() {
+  if (fileCheckPromise) return fileCheckPromise;
+  fileCheckPromise = (async () => {
+    const missingNodeIds = [];
+    for (const fileNode of await db.getFileNodesWithState()) {
+      const { filePath } = JSON.parse(fileNode.data);
+      const stats = filePath ? await statOrNull(filePath) : null;
+      if (!stats || !stats.isFile()) {
+        missingNodeIds.push(fileNode.id);
+        if (fileNode.status !== 'missing') {
+          await db.saveNodeFileState(fileNode.id, { status: 'missing' });
+        }
+        continue;
+      }
+      if (fileNode.status === 'ok' && fileNode.fileSize === stats.size && fileNode.fileMtimeMs === stats.mtimeMs) continue;
+      let contentHash = null;
+      try {
+        contentHash = await hashFile(filePath);
+      } catch (error) {
+        console.error(`Failed to hash ${filePath}:`, error);
+      }
+      // A file seen for the first time counts as viewed, so only later edits are flagged as modified
+      await db.saveNodeFileState(fileNode.id, {
+        status: 'ok',
+        contentHash,
+        fileSize: stats.size,
+        fileMtimeMs: stats.mtimeMs,
+        ...(!fileNode.status && { viewedMtimeMs: stats.mtimeMs }),
+      });
+    }
+    const status = { missingNodeIds };
+    sendFileStatus(status);
+    return status;
+  })().finally(() => {
+    fileCheckPromise = null;
+  });
+  return fileCheckPromise;
+}
+
+// Look in folderPath for files with the same name as each missing node's file. A candidate whose content
+// hash equals the hash stored for the node is the same file; otherwise it only shares the name.
+// Candidates that keep more of the old path's trailing folders come first, so when a whole directory
+// has moved, each file is matched with its counterpart in the moved directory.
+async function findRelinkCandidates(folderPath, nodeIds) {
+  const wantedNodeIds = new Set(nodeIds);
+  const missingFiles = (await db.getFileNodesWithState())
+    .filter(fileNode => wantedNodeIds.has(fileNode.id))
+    .map(fileNode => ({ ...fileNode, filePath: JSON.parse(fileNode.data).filePath || '' }))
+    .filter(fileNode => fileNode.filePath);
+  const wantedNames = new Set(missingFiles.map(fileNode => getPathSegments(fileNode.filePath).pop().toLowerCase()));
+
+  const pathsByName = new Map();
+  let scannedCount = 0;
+  let truncated = false;
+  const walk = async (directory) => {
+    let entries;
+    try {
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      return; // unreadable folders are skipped rather than failing the whole search
+    }
+    for (const entry of entries) {
+      if (truncated) return;
+      if (entry.name.startsWith('.')) continue;
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!RELINK_SEARCH_SKIPPED_DIRECTORIES.has(entry.name)) await walk(entryPath);
+      } else if (entry.isFile()) {
+        scannedCount += 1;
+        if (scannedCount > RELINK_SEARCH_MAX_FILES) {
+          truncated = true;
+          return;
+        }
+        const name = entry.name.toLowerCase();
+        if (wantedNames.has(name)) {
+          pathsByName.set(name, [...(pathsByName.get(name) || []), entryPath]);
+        }
+      }
+    }
+  };
+  await walk(folderPath);
+
+  const hashes = new Map();
+  const getHash = async (filePath) => {
+    if (!hashes.has(filePath)) {
+      hashes.set(filePath, await hashFile(filePath).catch(() => null));
+    }
+    return hashes.get(filePath);
+  };
+  const countSharedTrailingSegments = (a, b) => {
+    const aSegments = getPathSegments(a).reverse();
+    const bSegments = getPathSegments(b).reverse();
+    let count = 0;
+    while (count < aSegments.length && count < bSegments.length && aSegments[count].toLowerCase() === bSegments[count].toLowerCase()) {
+      count += 1;
+    }
+    return count;
+  };
+
+  const results = [];
+  for (const fileNode of missingFiles) {
+    const name = getPathSegments(fileNode.filePath).pop().toLowerCase();
+    const candidates = [];
+    for (const candidatePath of pathsByName.get(name) || []) {
+      let matchedBy = 'name';
+      // Only files of the recorded size can have the same hash, so others are not read
+      if (fileNode.contentHash) {
+        const stats = await statOrNull(candidatePath);
+        if (stats && stats.size === fileNode.fileSize && await getHash(candidatePath) === fileNode.contentHash) {
+          matchedBy = 'hash';
+        }
+      }
+      candidates.push({ filePath: candidatePath, matchedBy, sharedSegments: countSharedTrailingSegments(candidatePath, fileNode.filePath) });
+    }
+    candidates.sort((a, b) => (a.matchedBy === 'hash' ? 0 : 1) - (b.matchedBy === 'hash' ? 0 : 1) || b.sharedSegments - a.sharedSegments);
+    results.push({ nodeId: fileNode.id, candidates: candidates.map(({ filePath, matchedBy }) => ({ filePath, matchedBy })) });
+  }
+  return { results, truncated };
+}
+
+// --- Attachment Library ---
+// In managed mode dropped files are copied into userData/attachments under the SHA-256 of their contents,
+// so a file added twice is stored once. database.js counts the nodes referencing each stored file.
+// A file is removed once nothing references it: right after a permanent deletion (emptying the trash,
+// deleting a canvas) and at startup. Files released by undoing an add are kept until the next start,
+// because redo adds the node back.
+function getAttachmentPath(storedFileName) {
+  return path.join(db.attachmentsDir, storedFileName.slice(0, 2), storedFileName);
+}
+
+async function saveAttachment(fileName, data) {
+  const buffer = Buffer.from(data);
+  const contentHash = crypto.createHash('sha256').update(buffer).digest('hex');
+  const storedFileName = contentHash + path.extname(fileName).toLowerCase();
+  const storedPath = getAttachmentPath(storedFileName);
+  if (!(await statOrNull(storedPath))) {
+    // Written under a temporary name first, so an interrupted copy never looks like a stored file
+    await fs.promises.mkdir(path.dirname(storedPath), { recursive: true });
+    const temporaryPath = `${storedPath}.${uuidv4()}.tmp`;
+    await fs.promises.writeFile(temporaryPath, buffer);
+    await fs.promises.rename(temporaryPath, storedPath);
+  }
+  await db.saveAttachment({ fileName: storedFileName, contentHash, originalName: fileName, size: buffer.length });
+  return storedPath;
+}
+
+async function removeUnreferencedAttachments(releasedSince) {
+  try {
+    for (const attachment of await db.getUnreferencedAttachments(releasedSince)) {
+      if (await db.deleteUnreferencedAttachment(attachment.fileName) === 0) continue;
+      await fs.promises.unlink(getAttachmentPath(attachment.fileName)).catch(error => {
+        if (error.code !== 'ENOENT') console.error(`Failed to remove attachment ${attachment.fileName}:`, error);
+      });
+    }
+  } catch (error) {
+    console.error('Failed to remove unreferenced attachments:', error);
+  }
+}
+
+// --- File Watching ---
+// Each folder holding attached files is watched (rather than the files themselves), so saves that replace
+// the file, as Office applications do, keep being noticed. Events are collected per folder for a moment,
+// then each affected file is compared with its recorded state and reported on 'files:changed' as a change,
+// a rename within the same folder (the node is pointed at the new name) or a delete.
+// The watched folders follow the file nodes: syncFileWatchers runs after anything that adds, removes or relinks nodes.
+const FILE_WATCH_DEBOUNCE_MS = 500;
+const directoryWatchers = new Map(); // directory -> { watcher, changedNames, timeoutId }
+let fileWatcherSync = Promise.resolve();
+
+function toNodeFileState(fileNode) {
+  return {
+    nodeId: fileNode.id,
+    status: fileNode.status,
+    fileSize: fileNode.fileSize,
+    fileMtimeMs: fileNode.fileMtimeMs,
+    viewedMtimeMs: fileNode.viewedMtimeMs,
+  };
+}
+
+async function sendFileEvent(event, nodeIds) {
+  if (!mainWindow || mainWindow.isDestroyed()) return;
+  const wanted = new Set(nodeIds);
+  const states = (await db.getFileNodesWithState()).filter(fileNode => wanted.has(fileNode.id)).map(toNodeFileState);
+  mainWindow.webContents.send('files:changed', { ...event, states });
+}
+
+async function getWatchedFileNodes() {
+  return (await db.getFileNodesWithState())
+    .map(fileNode => ({ ...fileNode, filePath: JSON.parse(fileNode.data).filePath }))
+    .filter(fileNode => fileNode.filePath);
+}
+
+function syncFileWatchers() {
+  fileWatcherSync = fileWatcherSync.then(async () => {
+    const directories = new Set((await getWatchedFileNodes()).map(fileNode => path.dirname(fileNode.filePath)));
+    for (const [directory, entry] of directoryWatchers) {
+      if (directories.has(directory)) continue;
+      clearTimeout(entry.timeoutId);
+      entry.watcher.close();
+      directoryWatchers.delete(directory);
+    }
+    for (const directory of directories) {
+      if (directoryWatchers.has(directory)) continue;
+      try {
+        const entry = { watcher: null, changedNames: new Set(), timeoutId: null };
+        entry.watcher = fs.watch(directory, (eventType, fileName) => {
+          // Some platforms do not say which file changed; then every attached file in the folder is checked
+          entry.changedNames.add(fileName ? fileName.toString() : null);
+          clearTimeout(entry.timeoutId);
+          entry.timeoutId = setTimeout(() => {
+            const changedNames = entry.changedNames;
+            entry.changedNames = new Set();
+            handleDirectoryChanges(directory, changedNames)
+              .catch(error => console.error(`Failed to handle changes in ${directory}:`, error));
+          }, FILE_WATCH_DEBOUNCE_MS);
+        });
+        entry.watcher.on('error', (error) => {
+          // The folder itself was removed or became unreadable; its files show up as missing on the next check
+          console.error(`Stopped watching ${directory}:`, error);
+          entry.watcher.close();
+          directoryWatchers.delete(directory);
+        });
+        directoryWatchers.set(directory, entry);
+      } catch (error) {
+        // A folder that does not exist (missing files) cannot be watched until the nodes are relinked
+      }
+    }
+  }).catch(error => console.error('Failed to update file watchers:', error));
+  return fileWatcherSync;
+}
+
+function closeFileWatchers() {
+  for (const entry of directoryWatchers.values()) {
+    clearTimeout(entry.timeoutId);
+    entry.watcher.close();
+  }
+  directoryWatchers.clear();
+}
+
+// A file that disappeared is taken as renamed when a file of the same size (and content hash, if known)
+// appeared in the same folder in the same batch of events
+async function findRenamedFile(directory, changedNames, fileNode, watchedPaths) {
+  for (const name of changedNames) {
+    if (!name) continue;
+    const candidatePath = path.join(directory, name);
+    if (watchedPaths.has(candidatePath)) continue;
+    const stats = await statOrNull(candidatePath);
+    if (!stats || !stats.isFile() || stats.size !== fileNode.fileSize) continue;
+    if (fileNode.contentHash && await hashFile(candidatePath).catch(() => null) !== fileNode.contentHash) continue;
+    return { filePath: candidatePath, stats };
+  }
+  return null;
+}
+
+async function handleDirectoryChanges(directory, changedNames) {
+  const fileNodes = await getWatchedFileNodes();
+  const watchedPaths = new Set(fileNodes.map(fileNode => fileNode.filePath));
+  const nodesByPath = new Map();
+  fileNodes
+    .filter(fileNode => path.dirname(fileNode.filePath) === directory)
+    .filter(fileNode => changedNames.has(null) || changedNames.has(path.basename(fileNode.filePath)))
+    .forEach(fileNode => nodesByPath.set(fileNode.filePath, [...(nodesByPath.get(fileNode.filePath) || []), fileNode]));
+
+  let hasRenamed = false;
+  for (const [filePath, nodes] of nodesByPath) {
+    const known = nodes[0];
+    const nodeIds = nodes.map(fileNode => fileNode.id);
+    const stats = await statOrNull(filePath);
+    if (stats && stats.isFile()) {
+      if (known.status === 'ok' && known.fileSize === stats.size && known.fileMtimeMs === stats.mtimeMs) continue;
+      const contentHash = await hashFile(filePath).catch(() => null);
+      for (const fileNode of nodes) {
+        await db.saveNodeFileState(fileNode.id, { status: 'ok', contentHash, fileSize: stats.size, fileMtimeMs: stats.mtimeMs });
+        queueTextExtraction(fileNode.id, filePath);
+      }
+      await sendFileEvent({ type: 'change', filePath }, nodeIds);
+      continue;
+    }
+    if (known.status === 'missing') continue;
+
+    const renamed = await findRenamedFile(directory, changedNames, known, watchedPaths);
+    if (renamed) {
+      for (const fileNode of nodes) {
+        await db.updateNodeData(fileNode.id, { ...JSON.parse(fileNode.data), filePath: renamed.filePath });
+        await db.saveNodeFileState(fileNode.id, { status: 'ok', fileSize: renamed.stats.size, fileMtimeMs: renamed.stats.mtimeMs });
+      }
+      watchedPaths.add(renamed.filePath);
+      hasRenamed = true;
+      await sendFileEvent({ type: 'rename', filePath, newFilePath: renamed.filePath }, nodeIds);
+    } else {
+      for (const fileNode of nodes) {
+        await db.saveNodeFileState(fileNode.id, { status: 'missing' });
+      }
+      await sendFileEvent({ type: 'delete', filePath }, nodeIds);
+    }
+  }
+  if (hasRenamed) syncFileWatchers();
+}
+
+// --- Folder Import ---
+// Only the listing is read here; which files become nodes (type, depth, patterns) is decided in the renderer
+const FOLDER_IMPORT_SKIPPED_DIRECTORIES = new Set(['node_modules']);
+const FOLDER_IMPORT_MAX_FILES = 10000;
+
+async function readFolderTree(folderPath) {
+  const files = [];
+  let truncated = false;
+  const walk = async (directory) => {
+    let entries;
+    try {
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      return; // unreadable subfolders are left out rather than failing the whole import
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (truncated) return;
+      if (entry.name.startsWith('.')) continue;
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!FOLDER_IMPORT_SKIPPED_DIRECTORIES.has(entry.name)) await walk(entryPath);
+      } else if (entry.isFile()) {
+        if (files.length >= FOLDER_IMPORT_MAX_FILES) {
+          truncated = true;
+          return;
+        }
+        files.push({ relativePath: path.relative(folderPath, entryPath).split(path.sep).join('/'), filePath: entryPath });
+      }
+    }
+  };
+  await walk(folderPath);
+  return { folderName: path.basename(folderPath), files, truncated };
+}
+
+// --- Markdown Folder Import ---
+// Hidden folders (.obsidian, .git, .trash) hold settings and history, not notes
+const MARKDOWN_FOLDER_SKIPPED_DIRECTORIES = new Set(['node_modules']);
+
+async function readMarkdownFolder(folderPath) {
+  const files = [];
+  const walk = async (directory) => {
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!MARKDOWN_FOLDER_SKIPPED_DIRECTORIES.has(entry.name)) await walk(entryPath);
+      } else if (entry.isFile() && /\.(md|markdown)$/i.test(entry.name)) {
+        files.push({
+          relativePath: path.relative(folderPath, entryPath).split(path.sep).join('/'),
+          content: await fs.promises.readFile(entryPath, 'utf-8'),
+        });
+      }
+    }
+  };
+  await walk(folderPath);
+  return { folderName: path.basename(folderPath), files };
+}
+
+// --- Image Export ---
+// Print an SVG to a single-page PDF of the same size in a hidden window.
+// The page is written to a temporary file because large SVGs exceed the data URL limit.
+async function writeSvgAsPdf(filePath, svg, width, height) {
+  const htmlPath = path.join(app.getPath('temp'), `knowledge-canvas-export-${uuidv4()}.html`);
+  const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><style>@page { size: ${width}px ${height}px; margin: 0; } html, body { margin: 0; padding: 0; } svg { display: block; }</style></head><body>${svg}</body></html>`;
+  await fs.promises.writeFile(htmlPath, html, 'utf-8');
+  const printWindow = new BrowserWindow({ show: false, webPreferences: { javascript: false } });
+  try {
+    await printWindow.loadFile(htmlPath);
+    const pdf = await printWindow.webContents.printToPDF({
+      printBackground: true,
+      preferCSSPageSize: true,
+      margins: { top: 0, bottom: 0, left: 0, right: 0 },
+    });
+    await fs.promises.writeFile(filePath, pdf);
+  } finally {
+    printWindow.destroy();
+    await fs.promises.unlink(htmlPath).catch(() => {});
+  }
+}
+
 
 let mainWindow;
 
+// Forward an application menu command to the renderer
+function sendMenuAction(action) {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('menu:action', action);
+  }
+}
+
 function createWindow() {
   // Load window settings before creating the window
   const { width, height } = loadWindowSettings();
@@ -85,6 +673,11 @@ function createWindow() {
     // mainWindow will be nullified after this by Electron or in 'closed' event
   });
 
+  // Files are usually edited in other applications, so look for changes whenever the window regains focus
+  mainWindow.on('focus', () => {
+    checkActiveCanvasFileTexts().catch(error => console.error('Failed to check attached files for changes:', error));
+  });
+
   mainWindow.on('closed', () => {
     mainWindow = null; // Dereference the window object
   });
@@ -116,14 +709,30 @@ function createWindow() {
     {
       label: 'File',
       submenu: [
+        { label: 'Export Canvas…', click: () => sendMenuAction('exportCanvas') },
+        { label: 'Import Canvas…', click: () => sendMenuAction('importCanvas') },
+        { label: 'Import Markdown Folder…', click: () => sendMenuAction('importMarkdownFolder') },
+        { label: 'Export Markdown Folder…', click: () => sendMenuAction('exportMarkdownFolder') },
+        { label: 'Import JSON Canvas (.canvas)…', click: () => sendMenuAction('importJsonCanvas') },
+        { label: 'Export JSON Canvas (.canvas)…', click: () => sendMenuAction('exportJsonCanvas') },
+        { type: 'separator' },
+        { label: 'Export Graph (GraphML, GEXF, DOT)…', click: () => sendMenuAction('exportGraph') },
+        { label: 'Export Image (PNG, SVG, PDF)…', click: () => sendMenuAction('exportImage') },
+        { type: 'separator' },
+        { label: 'Find Missing Files…', click: () => sendMenuAction('relinkFiles') },
+        { type: 'separator' },
+        { label: 'Restore from Backup…', click: () => sendMenuAction('restoreBackup') },
+        { type: 'separator' },
         { role: 'quit' }
       ]
     },
     {
       label: 'Edit',
       submenu: [
-        { role: 'undo' },
-        { role: 'redo' },
+        // The renderer decides whether undo applies to a text field or to the canvas history.
+        // The shortcuts themselves are handled by the renderer, so they are not registered here.
+        { label: 'Undo', accelerator: 'CmdOrCtrl+Z', registerAccelerator: false, click: () => sendMenuAction('undo') },
+        { label: 'Redo', accelerator: 'CmdOrCtrl+Y', registerAccelerator: false, click: () => sendMenuAction('redo') },
         { type: 'separator' },
         { role: 'cut' },
         { role: 'copy' },
@@ -151,14 +760,101 @@ function createWindow() {
 }
 
 function setupIpcHandlers() {
-  ipcMain.handle('db:getAllNodes', async () => {
-    return await db.getAllNodes();
+  ipcMain.handle('db:getAllCanvases', async () => {
+    return await db.getAllCanvases();
   });
-  ipcMain.handle('db:getAllLinks', async () => {
-    return await db.getAllLinks();
+  ipcMain.handle('db:getActiveCanvas', async () => {
+    return await getActiveCanvas();
+  });
+  ipcMain.handle('db:createCanvas', async (event, name) => {
+    const canvas = { id: uuidv4(), name };
+    await db.createCanvas(canvas);
+    return await db.getCanvas(canvas.id);
+  });
+  ipcMain.handle('db:renameCanvas', async (event, { id, name }) => {
+    return await db.renameCanvas(id, name);
+  });
+  ipcMain.handle('db:duplicateCanvas', async (event, { id, name }) => {
+    const canvas = { id: uuidv4(), name };
+    await db.duplicateCanvas(id, canvas);
+    syncFileWatchers();
+    return await db.getCanvas(canvas.id);
+  });
+  ipcMain.handle('db:deleteCanvas', async (event, id) => {
+    const canvases = await db.getAllCanvases();
+    if (canvases.length <= 1) {
+      throw new Error('The last remaining canvas cannot be deleted.');
+    }
+    await backUpBefore('before-delete-canvas');
+    const deleteStartedAt = Date.now();
+    const result = await db.deleteCanvas(id);
+    syncFileWatchers();
+    await removeUnreferencedAttachments(deleteStartedAt);
+    return result;
+  });
+  ipcMain.handle('db:switchCanvas', async (event, id) => {
+    const canvas = await db.getCanvas(id);
+    if (!canvas) {
+      throw new Error(`Canvas ${id} does not exist.`);
+    }
+    await db.setSetting(LAST_CANVAS_SETTING_KEY, id);
+    checkFileTextsForChanges(id);
+    return canvas;
+  });
+  ipcMain.handle('settings:getAll', async () => {
+    return await db.getAllSettings();
+  });
+  ipcMain.handle('settings:update', async (event, values) => {
+    await db.updateSettings(values);
+    if (values && TRASH_RETENTION_SETTING_KEY in values) {
+      await purgeExpiredTrash();
+    }
+    if (values && (BACKUP_DAILY_COUNT_SETTING_KEY in values || BACKUP_WEEKLY_COUNT_SETTING_KEY in values)) {
+      await backUpOnSchedule();
+    }
+  });
+  ipcMain.handle('backup:list', async () => {
+    return await listBackups();
+  });
+  ipcMain.handle('backup:create', async () => {
+    return await createBackup('manual');
+  });
+  ipcMain.handle('backup:preview', async (event, fileName) => {
+    return await previewBackup(fileName);
+  });
+  // The database connection is closed once the file is swapped, so the app restarts to reopen it
+  // If the swap fails after the connection is closed, the app still restarts so it reopens the current file
+  ipcMain.handle('backup:restore', async (event, fileName) => {
+    const relaunch = () => setImmediate(() => {
+      app.relaunch();
+      app.exit(0);
+    });
+    try {
+      const result = await restoreBackup(fileName);
+      relaunch();
+      return result;
+    } catch (error) {
+      if (error.databaseClosed) relaunch();
+      throw error;
+    }
+  });
+  ipcMain.handle('db:getAllNodes', async (event, canvasId) => {
+    return await db.getAllNodes(canvasId);
+  });
+  ipcMain.handle('db:getAllLinks', async (event, canvasId) => {
+    return await db.getAllLinks(canvasId);
+  });
+  ipcMain.handle('db:getAllFrames', async (event, canvasId) => {
+    return await db.getAllFrames(canvasId);
   });
   ipcMain.handle('db:addNode', async (event, node) => {
-    return await db.addNode(node);
+    const result = await db.addNode(node);
+    if (node.type === 'file') {
+      queueTextExtraction(node.id, JSON.parse(node.data).filePath);
+      checkFileNodes().catch(error => console.error('Failed to check attached files:', error));
+      syncFileWatchers();
+    }
+    return result;
   });
   ipcMain.handle('db:addLink', async (event, link) => {
     return await db.addLink(link);
@@ -167,39 +863,182 @@ function setupIpcHandlers() {
     return await db.updateNodePosition(id, typeof position === 'string' ? position : JSON.stringify(position));
   });
   ipcMain.handle('db:updateNodeData', async (event, { id, data }) => {
-    return await db.updateNodeData(id, data);
+    const result = await db.updateNodeData(id, data);
+    if (data.filePath) syncFileWatchers();
+    return result;
+  });
+  // Many writes in one IPC call and one transaction; see applyBatch in database.js for the operation types
+  ipcMain.handle('db:applyBatch', async (event, operations) => {
+    db.validateBatchOperations(operations);
+    const normalized = operations.map(operation => operation.type === 'updateNodePosition' && typeof operation.position !== 'string'
+      ? { ...operation, position: JSON.stringify(operation.position) }
+      : operation);
+    const results = await db.applyBatch(normalized);
+    const addedFileNodes = normalized.filter(operation => operation.type === 'addNode' && operation.node.type === 'file');
+    addedFileNodes.forEach(operation => {
+      queueTextExtraction(operation.node.id, JSON.parse(operation.node.data).filePath);
+    });
+    // Record the new files' hashes now, so they can be found by content if they are moved later
+    if (addedFileNodes.length > 0) {
+      checkFileNodes().catch(error => console.error('Failed to check attached files:', error));
+    }
+    // The batch may have added, trashed, restored or relinked file nodes
+    syncFileWatchers();
+    return results;
+  });
+  ipcMain.handle('tags:getUsage', async () => {
+    return await db.getTagUsage();
+  });
+  ipcMain.handle('tags:getColors', async () => {
+    return await db.getTagColors();
   });
+  // Tag changes rewrite nodes on every canvas and cannot be undone, so take a safety backup first
+  ipcMain.handle('tags:applyChanges', async (event, changes) => {
+    if (Object.keys(changes.renames || {}).length > 0) {
+      await backUpBefore('before-tag-changes');
+    }
+    return await db.applyTagChanges(changes);
+  });
+  // Deleting moves items to the trash; purge* removes them for good
   ipcMain.handle('db:deleteNode', async (event, id) => {
-      await db.deleteLinksByNodeId(id);
-      return await db.deleteNode(id);
+    const result = await db.trashNode(id);
+    syncFileWatchers();
+    return result;
+  });
+  ipcMain.handle('db:getNodeRevisions', async (event, nodeId) => {
+    return await db.getNodeRevisions(nodeId);
   });
   ipcMain.handle('db:deleteLink', async (event, id) => {
-    return await db.deleteLink(id);
+    return await db.trashLink(id);
+  });
+  ipcMain.handle('db:search', async (event, { canvasId, query, limit }) => {
+    return await db.searchNodes(canvasId, query, limit);
+  });
+  ipcMain.handle('db:getTrash', async (event, canvasId) => {
+    return await db.getTrash(canvasId);
+  });
+  ipcMain.handle('db:restoreNode', async (event, id) => {
+    const result = await db.restoreNode(id);
+    syncFileWatchers();
+    return result;
+  });
+  ipcMain.handle('db:restoreLink', async (event, id) => {
+    return await db.restoreLink(id);
   });
-  ipcMain.handle('dialog:openFile', async () => {
+  ipcMain.handle('db:purgeNode', async (event, id) => {
+    const purgeStartedAt = Date.now();
+    const result = await db.purgeNode(id);
+    syncFileWatchers();
+    await removeUnreferencedAttachments(purgeStartedAt);
+    return result;
+  });
+  ipcMain.handle('db:purgeLink', async (event, id) => {
+    return await db.purgeLink(id);
+  });
+  ipcMain.handle('db:emptyTrash', async (event, canvasId) => {
+    await backUpBefore('before-empty-trash');
+    const purgeStartedAt = Date.now();
+    const result = await db.emptyTrash(canvasId);
+    syncFileWatchers();
+    await removeUnreferencedAttachments(purgeStartedAt);
+    return result;
+  });
+  // Without options the open dialog picks attachments; callers such as canvas import pass their own filters
+  ipcMain.handle('dialog:openFile', async (event, options = {}) => {
       const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
-          properties: ['openFile', 'multiSelections'],
-          filters: [
+          properties: options.multiSelections === false ? ['openFile'] : ['openFile', 'multiSelections'],
+          filters: options.filters || [
               { name: 'Documents, Spreadsheets, Presentations & Images', extensions: ['pdf', 'docx', 'doc', 'txt', 'xlsx', 'xlsm', 'xls', 'pptx', 'ppt', 'jpg', 'jpeg', 'png', 'gif', 'svg'] }, // ★ 更新
               { name: 'All Files', extensions: ['*'] }
           ]
       });
       return canceled ? [] : filePaths;
   });
-  ipcMain.handle('dialog:saveFile', async (event, defaultPath) => {
+  ipcMain.handle('dialog:saveFile', async (event, defaultPath, filters) => {
       const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
           defaultPath: defaultPath,
+          filters: filters,
       });
       return canceled ? null : filePath;
   });
 
-  ipcMain.handle('file:openLocal', async (event, filePath) => {
+  ipcMain.handle('dialog:openFolder', async () => {
+      const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+          properties: ['openDirectory', 'createDirectory'],
+      });
+      return canceled ? null : filePaths[0];
+  });
+
+  // Plain text file access for exports and imports chosen through the dialogs above
+  ipcMain.handle('file:writeText', async (event, filePath, content) => {
+    await fs.promises.writeFile(filePath, content, 'utf-8');
+    return true;
+  });
+  ipcMain.handle('file:writeBinary', async (event, filePath, data) => {
+    await fs.promises.writeFile(filePath, Buffer.from(data));
+    return true;
+  });
+  ipcMain.handle('file:writeSvgAsPdf', async (event, filePath, svg, width, height) => {
+    await writeSvgAsPdf(filePath, svg, width, height);
+    return true;
+  });
+  ipcMain.handle('file:readText', async (event, filePath) => {
+    return await fs.promises.readFile(filePath, 'utf-8');
+  });
+  // Re-check every file node; relinked files also get their text extracted again if they changed
+  ipcMain.handle('files:check', async () => {
+    const status = await checkFileNodes();
+    const activeCanvas = await getActiveCanvas();
+    checkFileTextsForChanges(activeCanvas && activeCanvas.id);
+    return status;
+  });
+  ipcMain.handle('files:getStates', async (event, canvasId) => {
+    return (await db.getFileNodesWithState(canvasId)).map(toNodeFileState);
+  });
+  ipcMain.handle('files:findRelinkCandidates', async (event, folderPath, nodeIds) => {
+    return await findRelinkCandidates(folderPath, nodeIds);
+  });
+  ipcMain.handle('file:isDirectory', async (event, filePath) => {
+    const stats = await statOrNull(filePath);
+    return Boolean(stats && stats.isDirectory());
+  });
+  ipcMain.handle('file:readFolderTree', async (event, folderPath) => {
+    return await readFolderTree(folderPath);
+  });
+  ipcMain.handle('file:readMarkdownFolder', async (event, folderPath) => {
+    return await readMarkdownFolder(folderPath);
+  });
+  // The renderer asks before notes left over from an earlier export are removed
+  ipcMain.handle('file:findStaleExportFiles', async (event, folderPath, files) => {
+    return await findStaleExportFiles(folderPath, files);
+  });
+  ipcMain.handle('file:writeMarkdownFolder', async (event, folderPath, files, options) => {
+    return await writeMarkdownFolder(folderPath, files, options);
+  });
+
+  // Copy a file into the attachment library and return the stored path for the node to reference
+  ipcMain.handle('file:saveLocal', async (event, fileName, data) => {
+    return await saveAttachment(fileName, data);
+  });
+  ipcMain.handle('file:saveLocalFromPath', async (event, filePath) => {
+    return await saveAttachment(path.basename(filePath), await fs.promises.readFile(filePath));
+  });
+  ipcMain.handle('file:getUploadsDir', async () => {
+    return db.attachmentsDir;
+  });
+  // With a nodeId, the file's current version is remembered as viewed for that node
+  ipcMain.handle('file:openLocal', async (event, filePath, nodeId) => {
     try {
       if (!fs.existsSync(filePath)) {
         dialog.showErrorBox('File Not Found', `The file at ${filePath} could not be found.`);
         return false;
       }
       await shell.openPath(filePath);
+      const stats = nodeId ? await statOrNull(filePath) : null;
+      if (stats) {
+        await db.markNodeFileViewed(nodeId, stats.mtimeMs);
+        await sendFileEvent({ type: 'viewed', filePath }, [nodeId]);
+      }
       return true;
     } catch (error) {
       console.error('Failed to open file locally:', error);
@@ -225,17 +1064,42 @@ app.whenReady().then(async () => {
   settingsPath = path.join(app.getPath('userData'), SETTINGS_FILE_NAME);
 
   try {
-    await db.initDatabase();
+    const { fromVersion, toVersion } = await db.migrateDatabase();
+    if (fromVersion !== toVersion) {
+      console.log(`Database schema migrated from version ${fromVersion} to ${toVersion}.`);
+    }
     console.log('Database initialized successfully. Path:', db.dbPath);
   } catch (error) {
     console.error('Failed to initialize database:', error);
-    dialog.showErrorBox('Database Error', `Failed to initialize database: ${error.message}`);
+    if (error instanceof MigrationError) {
+      const backupNote = error.backupPath
+        ? `A copy of the database taken before migrating was saved to:\n${error.backupPath}`
+        : 'No backup was taken because the database file did not exist yet.';
+      dialog.showErrorBox(
+        'Database Migration Failed',
+        `Could not upgrade the database schema to version ${error.version} (${error.migrationName}).\n\n` +
+        `Reason: ${error.cause.message}\n\n` +
+        `Database: ${db.dbPath}\n${backupNote}`
+      );
+    } else {
+      dialog.showErrorBox('Database Error', `Failed to initialize database: ${error.message}`);
+    }
     app.quit();
     return;
   }
 
+  await purgeExpiredTrash();
+  setInterval(purgeExpiredTrash, TRASH_PURGE_INTERVAL_MS);
+  // No history survives a restart, so stored files no node references can all go now
+  await removeUnreferencedAttachments();
+
   setupIpcHandlers();
   createWindow();
+  // VACUUM INTO can take a while on a large database, so the window does not wait for it (failures are logged)
+  backUpOnSchedule();
+  setInterval(backUpOnSchedule, BACKUP_CHECK_INTERVAL_MS);
+  checkFileNodes().catch(error => console.error('Failed to check attached files:', error));
+  syncFileWatchers();
 
   app.on('activate', function () {
     if (BrowserWindow.getAllWindows().length === 0) createWindow();
@@ -243,6 +1107,7 @@ app.whenReady().then(async () => {
 });
 
 app.on('before-quit', () => {
+  closeFileWatchers();
   // This is a good place for a final save attempt,
   // especially if the app is quit by means other than closing the window directly (e.g., Cmd+Q or system shutdown)
   if (mainWindow && !mainWindow.isDestroyed()) {
@@ -0,0 +1,67 @@
+// electron/markdown-export.js
+// Markdown フォルダへの書き出し。前回このアプリが書き出したファイル名をフォルダ内の目録に残し、
+// 書き出し直したときに消すのは、目録にあって今回は書き出さなかったファイルだけにする（利用者自身のノートには触れない）
+const fs = require('fs');
+const path = require('path');
+
+const EXPORT_MANIFEST_FILE_NAME = '.knowledge-canvas-export.json';
+
+const validateFileNames = (files) => {
+  for (const file of files) {
+    if (path.basename(file.fileName) !== file.fileName || !/\.md$/i.test(file.fileName)) {
+      throw new Error(`Invalid export file name: ${file.fileName}`);
+    }
+  }
+};
+
+// 目録が無い・読めない場合は、前回の書き出しは無かったものとして扱う
+async function readExportManifest(folderPath) {
+  try {
+    const manifest = JSON.parse(await fs.promises.readFile(path.join(folderPath, EXPORT_MANIFEST_FILE_NAME), 'utf-8'));
+    return Array.isArray(manifest.fileNames)
+      ? manifest.fileNames.filter(fileName => typeof fileName === 'string' && path.basename(fileName) === fileName && /\.md$/i.test(fileName))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// 前回の書き出しで作り、今回は書き出さないファイルのうち、まだフォルダにあるもの
+async function findStaleExportFiles(folderPath, files) {
+  validateFileNames(files);
+  const fileNames = new Set(files.map(file => file.fileName.toLowerCase()));
+  const staleFileNames = [];
+  for (const fileName of await readExportManifest(folderPath)) {
+    if (fileNames.has(fileName.toLowerCase())) continue;
+    try {
+      if ((await fs.promises.stat(path.join(folderPath, fileName))).isFile()) staleFileNames.push(fileName);
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+  return staleFileNames;
+}
+
+// removeStale のときは、前回の書き出しで残ったノート（削除・改名したノード）を消して、フォルダをキャンバスに揃える
+async function writeMarkdownFolder(folderPath, files, { removeStale = false } = {}) {
+  const staleFileNames = removeStale ? await findStaleExportFiles(folderPath, files) : [];
+  validateFileNames(files);
+  for (const file of files) {
+    await fs.promises.writeFile(path.join(folderPath, file.fileName), file.content, 'utf-8');
+  }
+  for (const fileName of staleFileNames) {
+    await fs.promises.unlink(path.join(folderPath, fileName));
+  }
+  await fs.promises.writeFile(
+    path.join(folderPath, EXPORT_MANIFEST_FILE_NAME),
+    `${JSON.stringify({ fileNames: files.map(file => file.fileName).sort() }, null, 2)}\n`,
+    'utf-8'
+  );
+  return { written: files.length, removed: staleFileNames.length };
+}
+
+module.exports = {
+  EXPORT_MANIFEST_FILE_NAME,
+  findStaleExportFiles,
+  writeMarkdownFolder,
+};
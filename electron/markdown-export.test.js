@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { EXPORT_MANIFEST_FILE_NAME, findStaleExportFiles, writeMarkdownFolder } from './markdown-export';
+
+const note = (fileName, id) => ({ fileName, content: `---\nid: "${id}"\n---\n` });
+
+describe('writeMarkdownFolder', () => {
+  let folderPath;
+  const readFolder = () => fs.readdirSync(folderPath).sort();
+
+  beforeEach(() => {
+    folderPath = fs.mkdtempSync(path.join(os.tmpdir(), 'markdown-export-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(folderPath, { recursive: true, force: true });
+  });
+
+  it('writes the notes and a manifest of their file names', async () => {
+    const result = await writeMarkdownFolder(folderPath, [note('B.md', 'b'), note('A.md', 'a')]);
+    expect(result).toEqual({ written: 2, removed: 0 });
+    expect(readFolder()).toEqual([EXPORT_MANIFEST_FILE_NAME, 'A.md', 'B.md']);
+    expect(JSON.parse(fs.readFileSync(path.join(folderPath, EXPORT_MANIFEST_FILE_NAME), 'utf-8'))).toEqual({ fileNames: ['A.md', 'B.md'] });
+  });
+
+  it('removes only notes from the earlier export and leaves notes of its own with an id alone', async () => {
+    fs.writeFileSync(path.join(folderPath, 'Mine.md'), '---\nid: 20240101120000\ntags: [zettel]\n---\nMy own note\n');
+    await writeMarkdownFolder(folderPath, [note('A.md', 'a'), note('Old.md', 'old')]);
+
+    const files = [note('A.md', 'a'), note('New.md', 'new')];
+    expect(await findStaleExportFiles(folderPath, files)).toEqual(['Old.md']);
+    const result = await writeMarkdownFolder(folderPath, files, { removeStale: true });
+
+    expect(result).toEqual({ written: 2, removed: 1 });
+    expect(readFolder()).toEqual([EXPORT_MANIFEST_FILE_NAME, 'A.md', 'Mine.md', 'New.md']);
+  });
+
+  it('keeps the earlier notes unless asked to remove them', async () => {
+    await writeMarkdownFolder(folderPath, [note('Old.md', 'old')]);
+    const result = await writeMarkdownFolder(folderPath, [note('New.md', 'new')]);
+    expect(result).toEqual({ written: 1, removed: 0 });
+    expect(readFolder()).toEqual([EXPORT_MANIFEST_FILE_NAME, 'New.md', 'Old.md']);
+  });
+
+  it('removes nothing from a folder without a manifest', async () => {
+    fs.writeFileSync(path.join(folderPath, 'Mine.md'), '---\nid: "abc"\n---\n');
+    expect(await findStaleExportFiles(folderPath, [note('A.md', 'a')])).toEqual([]);
+  });
+
+  it('ignores manifest entries that point outside the folder', async () => {
+    fs.writeFileSync(path.join(folderPath, EXPORT_MANIFEST_FILE_NAME), JSON.stringify({ fileNames: ['../escape.md', 'sub/x.md'] }));
+    expect(await findStaleExportFiles(folderPath, [])).toEqual([]);
+  });
+
+  it('rejects file names outside the folder', async () => {
+    await expect(writeMarkdownFolder(folderPath, [note('../A.md', 'a')])).rejects.toThrow('Invalid export file name');
+  });
+});
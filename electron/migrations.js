@@ -0,0 +1,397 @@
+// electron/migrations.js
+// スキーマのバージョン管理と順序付きマイグレーション
+const fs = require('fs');
+const path = require('path');
+const { v4: uuidv4 } = require('uuid');
+
+const MIGRATIONS_TABLE = 'schema_migrations';
+const DEFAULT_CANVAS_NAME = 'My Canvas';
+
+// マイグレーションの失敗を、どのバージョンで失敗したかとバックアップの場所付きで伝えるためのエラー
+class MigrationError extends Error {
+  constructor(migration, cause, backupPath) {
+    super(`Migration ${migration.version} (${migration.name}) failed: ${cause.message}`);
+    this.name = 'MigrationError';
+    this.version = migration.version;
+    this.migrationName = migration.name;
+    this.cause = cause;
+    this.backupPath = backupPath;
+  }
+}
+
+// 追加する場合は末尾に version を1つ増やして追記すること（既存のものは書き換えない）
+// スキーマ管理導入前に作られたDBでも動くよう、初期のものは hasTable/hasColumn で既存の状態を確認する
+const migrations = [
+  {
+    version: 1,
+    name: 'create-nodes-and-links',
+    up: async (trx) => {
+      if (!(await trx.schema.hasTable('nodes'))) {
+        await trx.schema.createTable('nodes', (table) => {
+          table.string('id').primary();
+          table.string('type').notNullable();
+          table.json('position').notNullable(); // { x: number, y: number }
+          table.json('data').notNullable();     // { label: string, content?: string, fileType?: string, ... }
+          table.timestamp('createdAt').defaultTo(trx.fn.now());
+        });
+      }
+      if (!(await trx.schema.hasTable('links'))) {
+        await trx.schema.createTable('links', (table) => {
+          table.string('id').primary();
+          table.string('source').notNullable().references('id').inTable('nodes').onDelete('CASCADE');
+          table.string('target').notNullable().references('id').inTable('nodes').onDelete('CASCADE');
+          table.timestamp('createdAt').defaultTo(trx.fn.now());
+        });
+      }
+    },
+  },
+  {
+    version: 2,
+    name: 'add-canvases-and-settings',
+    up: async (trx) => {
+      if (!(await trx.schema.hasTable('canvases'))) {
+        await trx.schema.createTable('canvases', (table) => {
+          table.string('id').primary();
+          table.string('name').notNullable();
+          table.timestamp('createdAt').defaultTo(trx.fn.now());
+        });
+      }
+      if (!(await trx.schema.hasTable('settings'))) {
+        await trx.schema.createTable('settings', (table) => {
+          table.string('key').primary();
+          table.text('value');
+        });
+      }
+      for (const tableName of ['nodes', 'links']) {
+        if (!(await trx.schema.hasColumn(tableName, 'canvasId'))) {
+          await trx.schema.alterTable(tableName, (table) => {
+            table.string('canvasId').index();
+          });
+        }
+      }
+
+      // キャンバスが1つも無ければデフォルトを作成し、所属の無いノード/リンクをそこへ移す
+      const firstCanvas = await trx('canvases').orderBy('createdAt').first();
+      const defaultCanvasId = firstCanvas ? firstCanvas.id : uuidv4();
+      if (!firstCanvas) {
+        await trx('canvases').insert({ id: defaultCanvasId, name: DEFAULT_CANVAS_NAME });
+      }
+      await trx('nodes').whereNull('canvasId').update({ canvasId: defaultCanvasId });
+      await trx('links').whereNull('canvasId').update({ canvasId: defaultCanvasId });
+    },
+  },
+  {
+    version: 3,
+    name: 'add-link-relation-type-and-label',
+    up: async (trx) => {
+      await trx.schema.alterTable('links', (table) => {
+        table.string('relationType').notNullable().defaultTo('related');
+        table.string('label');
+      });
+    },
+  },
+  {
+    version: 4,
+    name: 'create-node-revisions',
+    up: async (trx) => {
+      await trx.schema.createTable('node_revisions', (table) => {
+        table.increments('id').primary();
+        table.string('nodeId').notNullable().index();
+        table.string('title');
+        table.text('content');
+        table.json('tags');
+        table.timestamp('createdAt').defaultTo(trx.fn.now());
+      });
+    },
+  },
+  {
+    version: 5,
+    name: 'add-soft-delete-columns',
+    up: async (trx) => {
+      await trx.schema.alterTable('nodes', (table) => {
+        table.string('deletedAt').index(); // ISO 8601。NULL 以外はゴミ箱にある
+      });
+      await trx.schema.alterTable('links', (table) => {
+        table.string('deletedAt').index();
+        table.string('deletedWithNodeId'); // ノードと一緒にゴミ箱へ移ったリンクは、そのノードのID
+      });
+    },
+  },
+  {
+    version: 6,
+    name: 'create-nodes-fts',
+    up: async (trx) => {
+      // 日本語でも部分一致できるよう trigram で分割する。rowid は nodes の rowid と揃える
+      await trx.raw(`
+        CREATE VIRTUAL TABLE nodes_fts USING fts5(
+          title, content, tags, canvasId UNINDEXED,
+          tokenize = 'trigram'
+        )
+      `);
+      // ゴミ箱にないノードだけを索引に入れる。タグは空白区切りの文字列にする
+      const indexedColumns = (row) => `
+        json_extract(${row}.data, '$.title'),
+        json_extract(${row}.data, '$.content'),
+        (SELECT group_concat(value, ' ') FROM json_each(${row}.data, '$.tags')),
+        ${row}.canvasId
+      `;
+      await trx.raw(`
+        CREATE TRIGGER nodes_fts_after_insert AFTER INSERT ON nodes
+        WHEN new.deletedAt IS NULL
+        BEGIN
+          INSERT INTO nodes_fts (rowid, title, content, tags, canvasId) VALUES (new.rowid, ${indexedColumns('new')});
+        END
+      `);
+      await trx.raw(`
+        CREATE TRIGGER nodes_fts_after_update AFTER UPDATE OF data, canvasId, deletedAt ON nodes
+        BEGIN
+          DELETE FROM nodes_fts WHERE rowid = old.rowid;
+          INSERT INTO nodes_fts (rowid, title, content, tags, canvasId)
+            SELECT new.rowid, ${indexedColumns('new')} WHERE new.deletedAt IS NULL;
+        END
+      `);
+      await trx.raw(`
+        CREATE TRIGGER nodes_fts_after_delete AFTER DELETE ON nodes
+        BEGIN
+          DELETE FROM nodes_fts WHERE rowid = old.rowid;
+        END
+      `);
+      await trx.raw(`
+        INSERT INTO nodes_fts (rowid, title, content, tags, canvasId)
+          SELECT nodes.rowid, ${indexedColumns('nodes')} FROM nodes WHERE nodes.deletedAt IS NULL
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'add-node-file-texts',
+    up: async (trx) => {
+      // 添付ファイルから取り出したテキスト。ファイルの更新を検出するため、抽出時の mtime とサイズも持つ
+      await trx.schema.createTable('node_file_texts', (table) => {
+        table.string('nodeId').primary();
+        table.text('text');
+        table.string('status').notNullable(); // 'done' | 'failed'
+        table.text('error');
+        table.float('fileMtimeMs');
+        table.integer('fileSize');
+        table.timestamp('extractedAt').defaultTo(trx.fn.now());
+      });
+
+      // FTS5 は列を追加できないので、fileText 列を持つ索引を作り直す
+      await trx.raw('DROP TRIGGER IF EXISTS nodes_fts_after_insert');
+      await trx.raw('DROP TRIGGER IF EXISTS nodes_fts_after_update');
+      await trx.raw('DROP TRIGGER IF EXISTS nodes_fts_after_delete');
+      await trx.raw('DROP TABLE IF EXISTS nodes_fts');
+      await trx.raw(`
+        CREATE VIRTUAL TABLE nodes_fts USING fts5(
+          title, content, tags, fileText, canvasId UNINDEXED,
+          tokenize = 'trigram'
+        )
+      `);
+      const indexedColumns = (row) => `
+        json_extract(${row}.data, '$.title'),
+        json_extract(${row}.data, '$.content'),
+        (SELECT group_concat(value, ' ') FROM json_each(${row}.data, '$.tags')),
+        (SELECT text FROM node_file_texts WHERE node_file_texts.nodeId = ${row}.id),
+        ${row}.canvasId
+      `;
+      // ノード1件分の索引を作り直す SQL（ゴミ箱にあるノードは入れない）
+      const reindexNode = (nodeIdExpression) => `
+        DELETE FROM nodes_fts WHERE rowid = (SELECT rowid FROM nodes WHERE id = ${nodeIdExpression});
+        INSERT INTO nodes_fts (rowid, title, content, tags, fileText, canvasId)
+          SELECT nodes.rowid, ${indexedColumns('nodes')} FROM nodes
+          WHERE nodes.id = ${nodeIdExpression} AND nodes.deletedAt IS NULL;
+      `;
+      await trx.raw(`
+        CREATE TRIGGER nodes_fts_after_insert AFTER INSERT ON nodes
+        WHEN new.deletedAt IS NULL
+        BEGIN
+          INSERT INTO nodes_fts (rowid, title, content, tags, fileText, canvasId) VALUES (new.rowid, ${indexedColumns('new')});
+        END
+      `);
+      await trx.raw(`
+        CREATE TRIGGER nodes_fts_after_update AFTER UPDATE OF data, canvasId, deletedAt ON nodes
+        BEGIN
+          DELETE FROM nodes_fts WHERE rowid = old.rowid;
+          INSERT INTO nodes_fts (rowid, title, content, tags, fileText, canvasId)
+            SELECT new.rowid, ${indexedColumns('new')} WHERE new.deletedAt IS NULL;
+        END
+      `);
+      await trx.raw(`
+        CREATE TRIGGER nodes_fts_after_delete AFTER DELETE ON nodes
+        BEGIN
+          DELETE FROM nodes_fts WHERE rowid = old.rowid;
+        END
+      `);
+      await trx.raw(`
+        CREATE TRIGGER node_file_texts_after_insert AFTER INSERT ON node_file_texts
+        BEGIN
+          ${reindexNode('new.nodeId')}
+        END
+      `);
+      await trx.raw(`
+        CREATE TRIGGER node_file_texts_after_update AFTER UPDATE ON node_file_texts
+        BEGIN
+          ${reindexNode('new.nodeId')}
+        END
+      `);
+      await trx.raw(`
+        CREATE TRIGGER node_file_texts_after_delete AFTER DELETE ON node_file_texts
+        BEGIN
+          ${reindexNode('old.nodeId')}
+        END
+      `);
+      await trx.raw(`
+        INSERT INTO nodes_fts (rowid, title, content, tags, fileText, canvasId)
+          SELECT nodes.rowid, ${indexedColumns('nodes')} FROM nodes WHERE nodes.deletedAt IS NULL
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'create-tag-colors',
+    up: async (trx) => {
+      // タグ自体はノードの data に文字列で持つので、ここには色を付けたタグだけが入る
+      await trx.schema.createTable('tag_colors', (table) => {
+        table.string('tag').primary();
+        table.string('color').notNullable(); // '#rrggbb'
+      });
+    },
+  },
+  {
+    version: 9,
+    name: 'create-frames',
+    up: async (trx) => {
+      // ノードをまとめる枠。どの枠に入っているかはノードの data.frameId に持つ
+      await trx.schema.createTable('frames', (table) => {
+        table.string('id').primary();
+        table.string('canvasId').notNullable().index();
+        table.string('title').notNullable().defaultTo('');
+        table.string('color').notNullable();
+        table.float('x').notNullable();
+        table.float('y').notNullable();
+        table.float('width').notNullable();
+        table.float('height').notNullable();
+        table.timestamp('createdAt').defaultTo(trx.fn.now());
+      });
+    },
+  },
+  {
+    version: 10,
+    name: 'add-link-style-columns',
+    up: async (trx) => {
+      await trx.schema.alterTable('links', (table) => {
+        table.string('direction').notNullable().defaultTo('forward'); // 'none' | 'forward' | 'both'
+        table.string('lineStyle').notNullable().defaultTo('solid'); // 'solid' | 'dashed' | 'dotted'
+        table.string('color'); // '#rrggbb'。null ならテーマの色
+        table.float('weight').notNullable().defaultTo(1);
+      });
+    },
+  },
+  {
+    version: 11,
+    name: 'add-node-file-states',
+    up: async (trx) => {
+      // ファイルノードの参照先が見つかるかどうかと、最後に見つかったときの内容のハッシュ（移動先を探すのに使う）
+      await trx.schema.createTable('node_file_states', (table) => {
+        table.string('nodeId').primary();
+        table.string('status').notNullable(); // 'ok' | 'missing'
+        table.string('contentHash'); // sha256。missing になっても最後の値を残す
+        table.integer('fileSize');
+        table.float('fileMtimeMs');
+        table.timestamp('checkedAt').defaultTo(trx.fn.now());
+      });
+    },
+  },
+  {
+    version: 12,
+    name: 'add-node-file-viewed-mtime',
+    up: async (trx) => {
+      // 最後にアプリから開いたときのファイルの mtime。これより新しければ「前回見てから変更あり」
+      await trx.schema.alterTable('node_file_states', (table) => {
+        table.float('viewedMtimeMs');
+      });
+      // 既にあるファイルは、今の状態を見たことにする
+      await trx('node_file_states').update({ viewedMtimeMs: trx.ref('fileMtimeMs') });
+    },
+  },
+  {
+    version: 13,
+    name: 'add-attachments',
+    up: async (trx) => {
+      // 保管庫にコピーしたファイル。同じ内容・同じ拡張子のファイルは1つだけ持つ
+      await trx.schema.createTable('attachments', (table) => {
+        table.string('fileName').primary(); // "<sha256><拡張子>"。保管庫の中でのファイル名
+        table.string('contentHash').notNullable();
+        table.string('originalName').notNullable(); // 最初に追加したときのファイル名
+        table.integer('size').notNullable();
+        table.integer('refCount').notNullable().defaultTo(0); // 参照しているノードの数（ゴミ箱にあるものを含む）
+        table.float('releasedAtMs'); // refCount が 0 になった時刻
+        table.timestamp('createdAt').defaultTo(trx.fn.now());
+      });
+    },
+  },
+];
+
+const LATEST_VERSION = migrations[migrations.length - 1].version;
+
+async function getSchemaVersion(db) {
+  const hasMigrationsTable = await db.schema.hasTable(MIGRATIONS_TABLE);
+  if (!hasMigrationsTable) return 0;
+  const row = await db(MIGRATIONS_TABLE).max({ version: 'version' }).first();
+  return (row && row.version) || 0;
+}
+
+// マイグレーション前にDBファイルをそのままコピーしておく（まだ何も書き込んでいないので整合性は保たれる）
+function backupBeforeMigration(dbPath, fromVersion) {
+  if (!fs.existsSync(dbPath) || fs.statSync(dbPath).size === 0) return null;
+  const backupDir = path.join(path.dirname(dbPath), 'backups');
+  fs.mkdirSync(backupDir, { recursive: true });
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = path.join(backupDir, `pre-migration-v${fromVersion}-${timestamp}.sqlite3`);
+  fs.copyFileSync(dbPath, backupPath);
+  return backupPath;
+}
+
+async function runMigrations(db, dbPath) {
+  const fromVersion = await getSchemaVersion(db);
+  const pending = migrations.filter(m => m.version > fromVersion);
+  if (pending.length === 0) {
+    return { fromVersion, toVersion: fromVersion, backupPath: null };
+  }
+
+  const backupPath = backupBeforeMigration(dbPath, fromVersion);
+  if (backupPath) {
+    console.log(`Backed up database before migration to ${backupPath}`);
+  }
+
+  if (!(await db.schema.hasTable(MIGRATIONS_TABLE))) {
+    await db.schema.createTable(MIGRATIONS_TABLE, (table) => {
+      table.integer('version').primary();
+      table.string('name').notNullable();
+      table.timestamp('appliedAt').defaultTo(db.fn.now());
+    });
+  }
+
+  // 1つのマイグレーションごとに1トランザクション。失敗したものはロールバックされ、それ以前の分は残る
+  for (const migration of pending) {
+    try {
+      await db.transaction(async (trx) => {
+        await migration.up(trx);
+        await trx(MIGRATIONS_TABLE).insert({ version: migration.version, name: migration.name });
+      });
+      console.log(`Applied migration ${migration.version} (${migration.name}).`);
+    } catch (error) {
+      throw new MigrationError(migration, error, backupPath);
+    }
+  }
+
+  return { fromVersion, toVersion: LATEST_VERSION, backupPath };
+}
+
+module.exports = {
+  runMigrations,
+  getSchemaVersion,
+  MigrationError,
+  LATEST_VERSION,
+};
@@ -2,26 +2,110 @@
 const { contextBridge, ipcRenderer } = require('electron');
 
 contextBridge.exposeInMainWorld('electronAPI', {
+  // キャンバス操作関数
+  getAllCanvases: () => ipcRenderer.invoke('db:getAllCanvases'),
+  getActiveCanvas: () => ipcRenderer.invoke('db:getActiveCanvas'),
+  createCanvas: (name) => ipcRenderer.invoke('db:createCanvas', name),
+  renameCanvas: (id, name) => ipcRenderer.invoke('db:renameCanvas', { id, name }),
+  duplicateCanvas: (id, name) => ipcRenderer.invoke('db:duplicateCanvas', { id, name }),
+  deleteCanvas: (id) => ipcRenderer.invoke('db:deleteCanvas', id),
+  switchCanvas: (id) => ipcRenderer.invoke('db:switchCanvas', id),
+
+  // 設定
+  getAllSettings: () => ipcRenderer.invoke('settings:getAll'),
+  updateSettings: (values) => ipcRenderer.invoke('settings:update', values),
+
   // データベース操作関数
-  getAllNodes: () => ipcRenderer.invoke('db:getAllNodes'),
-  getAllLinks: () => ipcRenderer.invoke('db:getAllLinks'),
+  getAllNodes: (canvasId) => ipcRenderer.invoke('db:getAllNodes', canvasId),
+  getAllLinks: (canvasId) => ipcRenderer.invoke('db:getAllLinks', canvasId),
+  getAllFrames: (canvasId) => ipcRenderer.invoke('db:getAllFrames', canvasId),
   addNode: (node) => ipcRenderer.invoke('db:addNode', node),
   addLink: (link) => ipcRenderer.invoke('db:addLink', link),
   updateNodePosition: (id, position) => ipcRenderer.invoke('db:updateNodePosition', { id, position }),
   updateNodeData: (id, data) => ipcRenderer.invoke('db:updateNodeData', { id, data }),
   deleteNode: (id) => ipcRenderer.invoke('db:deleteNode', id),
+  getNodeRevisions: (nodeId) => ipcRenderer.invoke('db:getNodeRevisions', nodeId),
   deleteLink: (id) => ipcRenderer.invoke('db:deleteLink', id),
+  search: (canvasId, query, limit) => ipcRenderer.invoke('db:search', { canvasId, query, limit }),
+  applyBatch: (operations) => ipcRenderer.invoke('db:applyBatch', operations),
+
+  // タグ（全キャンバス共通）
+  getTagUsage: () => ipcRenderer.invoke('tags:getUsage'),
+  getTagColors: () => ipcRenderer.invoke('tags:getColors'),
+  applyTagChanges: (changes) => ipcRenderer.invoke('tags:applyChanges', changes),
+
+  // ゴミ箱
+  getTrash: (canvasId) => ipcRenderer.invoke('db:getTrash', canvasId),
+  restoreNode: (id) => ipcRenderer.invoke('db:restoreNode', id),
+  restoreLink: (id) => ipcRenderer.invoke('db:restoreLink', id),
+  purgeNode: (id) => ipcRenderer.invoke('db:purgeNode', id),
+  purgeLink: (id) => ipcRenderer.invoke('db:purgeLink', id),
+  emptyTrash: (canvasId) => ipcRenderer.invoke('db:emptyTrash', canvasId),
+
+  // バックアップ
+  listBackups: () => ipcRenderer.invoke('backup:list'),
+  createBackup: () => ipcRenderer.invoke('backup:create'),
+  previewBackup: (fileName) => ipcRenderer.invoke('backup:preview', fileName),
+  restoreBackup: (fileName) => ipcRenderer.invoke('backup:restore', fileName),
 
   // ファイルダイアログ
-  openFileDialog: () => ipcRenderer.invoke('dialog:openFile'),
-  saveFileDialog: (defaultPath) => ipcRenderer.invoke('dialog:saveFile', defaultPath),
+  openFileDialog: (options) => ipcRenderer.invoke('dialog:openFile', options),
+  saveFileDialog: (defaultPath, filters) => ipcRenderer.invoke('dialog:saveFile', defaultPath, filters),
+  openFolderDialog: () => ipcRenderer.invoke('dialog:openFolder'),
+
+  // ファイルの読み書き（エクスポート・インポート用）
+  writeTextFile: (filePath, content) => ipcRenderer.invoke('file:writeText', filePath, content),
+  readTextFile: (filePath) => ipcRenderer.invoke('file:readText', filePath),
+  writeBinaryFile: (filePath, data) => ipcRenderer.invoke('file:writeBinary', filePath, data),
+  writeSvgAsPdf: (filePath, svg, width, height) => ipcRenderer.invoke('file:writeSvgAsPdf', filePath, svg, width, height),
+  readMarkdownFolder: (folderPath) => ipcRenderer.invoke('file:readMarkdownFolder', folderPath),
+  findStaleExportFiles: (folderPath, files) => ipcRenderer.invoke('file:findStaleExportFiles', folderPath, files),
+  writeMarkdownFolder: (folderPath, files, options) => ipcRenderer.invoke('file:writeMarkdownFolder', folderPath, files, options),
+  // ドロップしたフォルダの取り込み用
+  isDirectory: (filePath) => ipcRenderer.invoke('file:isDirectory', filePath),
+  readFolderTree: (folderPath) => ipcRenderer.invoke('file:readFolderTree', folderPath),
 
   // New Local File Operations
-  // saveLocalFile: (fileName, fileDataBuffer) => ipcRenderer.invoke('file:saveLocal', fileName, fileDataBuffer),
-  openLocalFile: (filePath) => ipcRenderer.invoke('file:openLocal', filePath),
-  // getUploadsDir: () => ipcRenderer.invoke('file:getUploadsDir'), // Optional: if needed by renderer
+  // saveLocalFile は添付ファイルの保管庫にコピーし、コピーのパスを返す
+  saveLocalFile: (fileName, fileDataBuffer) => ipcRenderer.invoke('file:saveLocal', fileName, fileDataBuffer),
+  saveLocalFileFromPath: (filePath) => ipcRenderer.invoke('file:saveLocalFromPath', filePath),
+  openLocalFile: (filePath, nodeId) => ipcRenderer.invoke('file:openLocal', filePath, nodeId),
+  getUploadsDir: () => ipcRenderer.invoke('file:getUploadsDir'),
+
+  // 見つからない添付ファイルの確認と、移動先の検索
+  checkFiles: () => ipcRenderer.invoke('files:check'),
+  getFileStates: (canvasId) => ipcRenderer.invoke('files:getStates', canvasId),
+  findRelinkCandidates: (folderPath, nodeIds) => ipcRenderer.invoke('files:findRelinkCandidates', folderPath, nodeIds),
 
   // 他に必要なAPIがあればここに追加
   // New utility to open external URLs
   openExternal: (url) => ipcRenderer.invoke('shell:openExternal', url),
+
+  // 添付ファイルのテキスト抽出の進み具合を受け取る（戻り値で購読解除）
+  onExtractionProgress: (callback) => {
+    const listener = (event, progress) => callback(progress);
+    ipcRenderer.on('extraction:progress', listener);
+    return () => ipcRenderer.removeListener('extraction:progress', listener);
+  },
+
+  // 添付ファイルの確認結果を受け取る（起動時の確認の結果もここに届く。戻り値で購読解除）
+  onFilesStatus: (callback) => {
+    const listener = (event, status) => callback(status);
+    ipcRenderer.on('files:status', listener);
+    return () => ipcRenderer.removeListener('files:status', listener);
+  },
+
+  // 添付ファイルの変更・名前の変更・削除（と、アプリから開いたこと）を受け取る（戻り値で購読解除）
+  onFilesChanged: (callback) => {
+    const listener = (event, change) => callback(change);
+    ipcRenderer.on('files:changed', listener);
+    return () => ipcRenderer.removeListener('files:changed', listener);
+  },
+
+  // アプリケーションメニューからのコマンドを受け取る（戻り値で購読解除）
+  onMenuAction: (callback) => {
+    const listener = (event, action) => callback(action);
+    ipcRenderer.on('menu:action', listener);
+    return () => ipcRenderer.removeListener('menu:action', listener);
+  },
 });
\ No newline at end of file
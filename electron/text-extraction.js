@@ -0,0 +1,114 @@
+// electron/text-extraction.js
+// 添付ファイル（PDF / DOCX / XLSX / PPTX / TXT）から検索用のテキストを取り出す
+const fs = require('fs');
+const path = require('path');
+const JSZip = require('jszip');
+// パッケージのエントリポイントはデバッグ用のサンプル PDF を読もうとするので、本体を直接読み込む
+const pdfParse = require('pdf-parse/lib/pdf-parse.js');
+
+// 索引に入れる文字数の上限（巨大なファイルで DB が膨らまないように）
+const MAX_EXTRACTED_TEXT_LENGTH = 1000000;
+
+class UnsupportedFileTypeError extends Error {
+  constructor(extension) {
+    super(`Text extraction is not supported for .${extension || '(none)'} files.`);
+    this.name = 'UnsupportedFileTypeError';
+  }
+}
+
+const decodeXmlEntities = (text) => text
+  .replace(/&#x([0-9a-f]+);/gi, (m, hex) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (m, dec) => String.fromCodePoint(parseInt(dec, 10)))
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// 指定した要素の中身を順に取り出し、段落などの区切りで改行する
+const collectXmlText = (xml, textTag, breakTag) => {
+  const pattern = new RegExp(`<${textTag}(?:\\s[^>]*)?>([^<]*)</${textTag}>|</${breakTag}>`, 'g');
+  let text = '';
+  let match;
+  while ((match = pattern.exec(xml)) !== null) {
+    text += match[1] !== undefined ? decodeXmlEntities(match[1]) : '\n';
+  }
+  return text;
+};
+
+// slide2.xml より slide10.xml が後になるよう、ファイル名の番号で並べる
+const sortByTrailingNumber = (names) => names.sort((a, b) => {
+  const numberOf = (name) => parseInt((name.match(/(\d+)\.xml$/) || [])[1] || '0', 10);
+  return numberOf(a) - numberOf(b);
+});
+
+const readZipEntries = async (zip, pattern) => {
+  const names = sortByTrailingNumber(Object.keys(zip.files).filter(name => pattern.test(name)));
+  return Promise.all(names.map(name => zip.file(name).async('string')));
+};
+
+const extractDocx = async (buffer) => {
+  const zip = await JSZip.loadAsync(buffer);
+  const parts = await readZipEntries(zip, /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/);
+  return parts.map(xml => collectXmlText(xml, 'w:t', 'w:p')).join('\n');
+};
+
+const extractXlsx = async (buffer) => {
+  const zip = await JSZip.loadAsync(buffer);
+  // 文字列セルの多くは sharedStrings にまとめられている。インライン文字列はシート側にある
+  const sharedStrings = await readZipEntries(zip, /^xl\/sharedStrings\.xml$/);
+  const sheets = await readZipEntries(zip, /^xl\/worksheets\/sheet\d+\.xml$/);
+  return [
+    ...sharedStrings.map(xml => collectXmlText(xml, 't', 'si')),
+    ...sheets.map(xml => collectXmlText(xml, 't', 'is')),
+  ].join('\n');
+};
+
+const extractPptx = async (buffer) => {
+  const zip = await JSZip.loadAsync(buffer);
+  const slides = await readZipEntries(zip, /^ppt\/(slides\/slide|notesSlides\/notesSlide)\d+\.xml$/);
+  return slides.map(xml => collectXmlText(xml, 'a:t', 'a:p')).join('\n');
+};
+
+const extractPdf = async (buffer) => {
+  const result = await pdfParse(buffer);
+  return result.text;
+};
+
+const EXTRACTORS = {
+  pdf: extractPdf,
+  docx: extractDocx,
+  xlsx: extractXlsx,
+  xlsm: extractXlsx,
+  pptx: extractPptx,
+  txt: async (buffer) => buffer.toString('utf-8'),
+  md: async (buffer) => buffer.toString('utf-8'),
+};
+
+const getExtension = (filePath) => path.extname(filePath).slice(1).toLowerCase();
+
+const canExtractText = (filePath) => Boolean(filePath) && getExtension(filePath) in EXTRACTORS;
+
+// 連続する空白をまとめ、上限を超えた分は切り捨てる
+const normalizeExtractedText = (text) => text
+  .replace(/\r\n?/g, '\n')
+  .replace(/[ \t\u00a0]+/g, ' ')
+  .replace(/\n\s*\n+/g, '\n\n')
+  .trim()
+  .slice(0, MAX_EXTRACTED_TEXT_LENGTH);
+
+const extractText = async (filePath) => {
+  const extension = getExtension(filePath);
+  const extractor = EXTRACTORS[extension];
+  if (!extractor) {
+    throw new UnsupportedFileTypeError(extension);
+  }
+  const buffer = await fs.promises.readFile(filePath);
+  return normalizeExtractedText(await extractor(buffer));
+};
+
+module.exports = {
+  canExtractText,
+  extractText,
+  UnsupportedFileTypeError,
+};
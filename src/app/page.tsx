@@ -4,7 +4,9 @@
 import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import { KnowledgeCanvas } from '@/components/knowledge-canvas/KnowledgeCanvas';
 import { Toolbar } from '@/components/knowledge-canvas/Toolbar';
-import type { NodeData, LinkData, FileType as AppFileType, NodeType, DeleteModeState, LayoutAlgorithmType } from '@/types'; // LayoutAlgorithmType を追加
+import type { NodeData, LinkData, CanvasData, FileType as AppFileType, NodeType, DeleteModeState, LayoutAlgorithmType, LinkRelationType, LinkDirection, LinkLineStyle, NodeRevision, TrashedNode, TrashedLink, SearchHit, TextExtractionProgress, BackupInfo, BackupPreview, TagUsage, TagColors, TagChanges, FrameData, NodeStyle, FileCheckStatus, RelinkSearchResult, NodeFileState, FileChangeEvent } from '@/types'; // LayoutAlgorithmType を追加
+import { LinkDialog, type LinkDetails } from '@/components/knowledge-canvas/LinkDialog';
+import { RevisionHistoryPanel } from '@/components/knowledge-canvas/RevisionHistoryPanel';
 import { Toaster } from '@/components/ui/toaster';
 import { useToast } from '@/hooks/use-toast'; //
 import {
@@ -23,8 +25,39 @@ import { Textarea } from "@/components/ui/textarea"; //
 import { Label } from "@/components/ui/label"; //
 import { Badge } from '@/components/ui/badge'; //
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { XIcon, PlusCircleIcon, CheckIcon, FileIcon, Search, Link as LinkIconLucide } from 'lucide-react';
+import { XIcon, PlusCircleIcon, CheckIcon, FileIcon, Search, Link as LinkIconLucide, History as HistoryIcon } from 'lucide-react';
 import { cn } from '@/lib/utils'; //
+import { getLinkDirection, getLinkLineStyle, getLinkRelationType, getLinkWeight } from '@/lib/link-relations';
+import { DEFAULT_APP_SETTINGS, parseAppSettings, serializeAppSettings, type AppSettings } from '@/lib/app-settings';
+import { useCommandHistory, type Command } from '@/hooks/use-command-history';
+import { SettingsDialog } from '@/components/knowledge-canvas/SettingsDialog';
+import { TrashDialog } from '@/components/knowledge-canvas/TrashDialog';
+import { BackupDialog } from '@/components/knowledge-canvas/BackupDialog';
+import { TagManagerDialog } from '@/components/knowledge-canvas/TagManagerDialog';
+import { RelinkFilesDialog } from '@/components/knowledge-canvas/RelinkFilesDialog';
+import { FolderImportDialog } from '@/components/knowledge-canvas/FolderImportDialog';
+import { NodeStyleFields } from '@/components/knowledge-canvas/NodeStyleFields';
+import { compactNodeStyle, getNodeSizeWidth } from '@/lib/node-styles';
+import { DEFAULT_FRAME_COLOR, DEFAULT_FRAME_SIZE, FRAME_PADDING, FRAME_TITLE_HEIGHT, findFrameForNode, getFrameBoundsForNodes } from '@/lib/frames';
+import { applyTagRenames, getTagSuggestions, isTagInSubtree, normalizeTagPath, type TagSuggestion } from '@/lib/tags';
+import { ImportCanvasDialog, type CanvasImportMode } from '@/components/knowledge-canvas/ImportCanvasDialog';
+import { GraphExportDialog, type GraphExportScope } from '@/components/knowledge-canvas/GraphExportDialog';
+import { GRAPH_EXPORT_FORMATS, exportGraph, type GraphExportFormat } from '@/lib/graph-export';
+import { ImageExportDialog, type ImageExportSettings } from '@/components/knowledge-canvas/ImageExportDialog';
+import { IMAGE_EXPORT_FORMATS, rasterizeSvg, renderCanvasImage } from '@/lib/image-export';
+import { importMarkdownFiles, type MarkdownFile } from '@/lib/markdown-import';
+import { buildFolderImport, selectFolderEntries, type FolderImportOptions, type FolderTree } from '@/lib/folder-import';
+import { exportCanvasToMarkdown, type MarkdownExportFile } from '@/lib/markdown-export';
+import { JSON_CANVAS_FILE_EXTENSION, JsonCanvasError, exportJsonCanvas, importJsonCanvas, parseJsonCanvas } from '@/lib/json-canvas';
+import {
+  CANVAS_BUNDLE_FILE_EXTENSION,
+  CanvasBundleError,
+  createCanvasBundle,
+  parseCanvasBundle,
+  remapCanvasBundleIds,
+  serializeCanvasBundle,
+  type CanvasBundle,
+} from '@/lib/canvas-bundle';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 
@@ -35,25 +68,78 @@ interface NodeMetaData {
   filePath?: string;
   url?: string;
   tags?: string[];
+  frameId?: string;
+  style?: NodeStyle;
   width?: number;
   height?: number;
 }
 
+type FileDialogFilter = { name: string; extensions: string[] };
+// Electron はドロップされたファイルに元のパスを付ける
+type DroppedFile = File & { path?: string };
+
 declare global {
   interface Window {
     electronAPI: {
-      getAllNodes: () => Promise<Array<{ id: string; type: NodeType; position: string; data: string; createdAt: string }>>;
-      getAllLinks: () => Promise<Array<{ id: string; source: string; target: string; createdAt: string }>>;
-      addNode: (node: { id: string; type: NodeType; position: string; data: string; }) => Promise<any>;
-      addLink: (link: { id: string; source: string; target: string; }) => Promise<any>;
+      getAllCanvases: () => Promise<CanvasData[]>;
+      getActiveCanvas: () => Promise<CanvasData | null>;
+      createCanvas: (name: string) => Promise<CanvasData>;
+      renameCanvas: (id: string, name: string) => Promise<any>;
+      duplicateCanvas: (id: string, name: string) => Promise<CanvasData>;
+      deleteCanvas: (id: string) => Promise<any>;
+      switchCanvas: (id: string) => Promise<CanvasData>;
+      getAllSettings: () => Promise<Record<string, string | null>>;
+      updateSettings: (values: Record<string, string>) => Promise<any>;
+      onMenuAction: (callback: (action: string) => void) => () => void;
+      onExtractionProgress: (callback: (progress: TextExtractionProgress) => void) => () => void;
+      onFilesStatus: (callback: (status: FileCheckStatus) => void) => () => void;
+      checkFiles: () => Promise<FileCheckStatus>;
+      getFileStates: (canvasId: string) => Promise<NodeFileState[]>;
+      onFilesChanged: (callback: (change: FileChangeEvent) => void) => () => void;
+      findRelinkCandidates: (folderPath: string, nodeIds: string[]) => Promise<RelinkSearchResult>;
+      getAllNodes: (canvasId: string) => Promise<Array<DbNodeRow & { createdAt: string }>>;
+      getAllLinks: (canvasId: string) => Promise<Array<DbLinkRow & { createdAt: string }>>;
+      getAllFrames: (canvasId: string) => Promise<Array<DbFrameRow & { createdAt: string }>>;
+      addNode: (node: DbNodeRow) => Promise<any>;
+      addLink: (link: DbLinkRow) => Promise<any>;
       updateNodePosition: (id: string, position: { x: number; y: number }) => Promise<any>;
       updateNodeData: (id: string, dataToSave: Partial<NodeMetaData>) => Promise<any>;
       deleteNode: (id: string) => Promise<any>;
+      getNodeRevisions: (nodeId: string) => Promise<Array<Omit<NodeRevision, 'tags'> & { tags: string }>>;
       deleteLink: (id: string) => Promise<any>;
-      openFileDialog: () => Promise<string[]>;
-      saveFileDialog: (defaultPath?: string) => Promise<string | null>;
+      search: (canvasId: string, query: string, limit?: number) => Promise<SearchHit[]>;
+      applyBatch: (operations: DbBatchOperation[]) => Promise<unknown[]>;
+      getTrash: (canvasId: string) => Promise<{
+        nodes: Array<DbNodeRow & { deletedAt: string }>;
+        links: Array<DbLinkRow & { deletedAt: string }>;
+      }>;
+      restoreNode: (id: string) => Promise<any>;
+      restoreLink: (id: string) => Promise<number>;
+      purgeNode: (id: string) => Promise<any>;
+      purgeLink: (id: string) => Promise<any>;
+      emptyTrash: (canvasId: string) => Promise<any>;
+      listBackups: () => Promise<BackupInfo[]>;
+      createBackup: () => Promise<string>;
+      previewBackup: (fileName: string) => Promise<BackupPreview>;
+      restoreBackup: (fileName: string) => Promise<{ safetyFileName: string }>;
+      getTagUsage: () => Promise<TagUsage[]>;
+      getTagColors: () => Promise<TagColors>;
+      applyTagChanges: (changes: TagChanges) => Promise<{ updatedNodeCount: number }>;
+      openFileDialog: (options?: { filters?: FileDialogFilter[]; multiSelections?: boolean }) => Promise<string[]>;
+      saveFileDialog: (defaultPath?: string, filters?: FileDialogFilter[]) => Promise<string | null>;
+      openFolderDialog: () => Promise<string | null>;
+      writeTextFile: (filePath: string, content: string) => Promise<boolean>;
+      readTextFile: (filePath: string) => Promise<string>;
+      writeBinaryFile: (filePath: string, data: ArrayBuffer) => Promise<boolean>;
+      writeSvgAsPdf: (filePath: string, svg: string, width: number, height: number) => Promise<boolean>;
+      readMarkdownFolder: (folderPath: string) => Promise<{ folderName: string; files: MarkdownFile[] }>;
+      findStaleExportFiles: (folderPath: string, files: MarkdownExportFile[]) => Promise<string[]>;
+      writeMarkdownFolder: (folderPath: string, files: MarkdownExportFile[], options?: { removeStale?: boolean }) => Promise<{ written: number; removed: number }>;
+      isDirectory: (filePath: string) => Promise<boolean>;
+      readFolderTree: (folderPath: string) => Promise<FolderTree>;
       saveLocalFile: (fileName: string, fileDataBuffer: ArrayBuffer) => Promise<string | null>;
-      openLocalFile: (filePath: string) => Promise<boolean>;
+      saveLocalFileFromPath: (filePath: string) => Promise<string>;
+      openLocalFile: (filePath: string, nodeId?: string) => Promise<boolean>;
       getUploadsDir: () => Promise<string>;
       openExternal: (url: string) => Promise<boolean>;
     };
@@ -71,6 +157,166 @@ const getFileTypeFromFileName = (fileName: string): AppFileType => {
   return 'OTHER';
 };
 
+type DbNodeRow = { id: string; canvasId: string; type: NodeType; position: string; data: string; };
+type DbLinkRow = {
+  id: string; canvasId: string; source: string; target: string; relationType: LinkRelationType; label: string | null;
+  direction: LinkDirection; lineStyle: LinkLineStyle; color: string | null; weight: number;
+};
+type DbLinkFields = Omit<DbLinkRow, 'id' | 'canvasId' | 'source' | 'target'>;
+type DbFrameRow = FrameData & { canvasId: string };
+
+// db:applyBatch の操作。1回の IPC・1つのトランザクションでまとめて適用され、途中で失敗すると全体が取り消される
+type DbBatchOperation =
+  | { type: 'addNode'; node: DbNodeRow }
+  | { type: 'addLink'; link: DbLinkRow }
+  | { type: 'updateLink'; id: string; fields: DbLinkFields }
+  | { type: 'updateNodePosition'; id: string; position: { x: number; y: number } }
+  | { type: 'updateNodeData'; id: string; data: NodeMetaData }
+  | { type: 'saveFrame'; frame: DbFrameRow }
+  | { type: 'trashNode' | 'trashLink' | 'restoreNode' | 'restoreLink' | 'purgeNode' | 'purgeLink' | 'deleteFrame'; id: string };
+
+// NodeData と DB の行との相互変換
+const toNodeMetaData = (node: NodeData): NodeMetaData => ({
+  title: node.title,
+  content: node.content,
+  fileType: node.fileType,
+  filePath: node.filePath,
+  url: node.url,
+  tags: node.tags,
+  frameId: node.frameId,
+  style: compactNodeStyle(node.style),
+  width: node.width,
+  height: node.height,
+});
+
+const toDbNode = (node: NodeData, canvasId: string): DbNodeRow => ({
+  id: node.id,
+  canvasId,
+  type: node.type,
+  position: JSON.stringify({ x: node.x, y: node.y }),
+  data: JSON.stringify(toNodeMetaData(node)),
+});
+
+const fromDbNode = (dbNode: DbNodeRow): NodeData => {
+  const position = JSON.parse(dbNode.position) as { x: number; y: number };
+  const metaData = JSON.parse(dbNode.data) as NodeMetaData;
+  return {
+    id: dbNode.id,
+    type: dbNode.type,
+    title: metaData.title || '',
+    content: metaData.content,
+    fileType: metaData.fileType,
+    filePath: metaData.filePath,
+    url: metaData.url,
+    tags: metaData.tags || [],
+    frameId: metaData.frameId,
+    style: metaData.style,
+    x: position.x,
+    y: position.y,
+    width: metaData.width,
+    height: metaData.height,
+  };
+};
+
+// 既定値で埋めたリンクの設定（LinkDialog の入力と同じ形）
+const toLinkDetails = (link: LinkData): LinkDetails => ({
+  relationType: getLinkRelationType(link),
+  label: link.label || '',
+  direction: getLinkDirection(link),
+  lineStyle: getLinkLineStyle(link),
+  color: link.color || null,
+  weight: getLinkWeight(link),
+});
+
+const fromLinkDetails = (details: LinkDetails): Partial<LinkData> => ({
+  relationType: details.relationType,
+  label: details.label || undefined,
+  direction: details.direction,
+  lineStyle: details.lineStyle,
+  color: details.color || undefined,
+  weight: details.weight,
+});
+
+const toDbLinkFields = (details: LinkDetails): DbLinkFields => ({
+  relationType: details.relationType,
+  label: details.label || null,
+  direction: details.direction,
+  lineStyle: details.lineStyle,
+  color: details.color,
+  weight: details.weight,
+});
+
+const toDbLink = (link: LinkData, canvasId: string): DbLinkRow => ({
+  id: link.id,
+  canvasId,
+  source: link.sourceNodeId,
+  target: link.targetNodeId,
+  ...toDbLinkFields(toLinkDetails(link)),
+});
+
+const toAddOperations = (nodesToAdd: NodeData[], linksToAdd: LinkData[], canvasId: string): DbBatchOperation[] => [
+  ...nodesToAdd.map(node => ({ type: 'addNode' as const, node: toDbNode(node, canvasId) })),
+  ...linksToAdd.map(link => ({ type: 'addLink' as const, link: toDbLink(link, canvasId) })),
+];
+
+// 通常はゴミ箱へ移す。permanently のときは完全に削除する
+const toRemoveOperations = (nodeIds: string[], linkIds: string[], permanently = false): DbBatchOperation[] => permanently
+  ? [
+      ...linkIds.map(id => ({ type: 'purgeLink' as const, id })),
+      ...nodeIds.map(id => ({ type: 'purgeNode' as const, id })),
+    ]
+  // ノードを先にゴミ箱へ移し、接続していたリンクはノードと一緒に復元されるようにする
+  : [
+      ...nodeIds.map(id => ({ type: 'trashNode' as const, id })),
+      ...linkIds.map(id => ({ type: 'trashLink' as const, id })),
+    ];
+
+const toRestoreOperations = (nodeIds: string[], linkIds: string[]): DbBatchOperation[] => [
+  ...nodeIds.map(id => ({ type: 'restoreNode' as const, id })),
+  ...linkIds.map(id => ({ type: 'restoreLink' as const, id })),
+];
+
+const fromDbLink = (dbLink: DbLinkRow): LinkData => ({
+  id: dbLink.id,
+  sourceNodeId: dbLink.source,
+  targetNodeId: dbLink.target,
+  relationType: dbLink.relationType,
+  label: dbLink.label || undefined,
+  direction: dbLink.direction,
+  lineStyle: dbLink.lineStyle,
+  color: dbLink.color || undefined,
+  weight: dbLink.weight,
+});
+
+const toDbFrame = (frame: FrameData, canvasId: string): DbFrameRow => ({ ...frame, canvasId });
+
+const fromDbFrame = (dbFrame: DbFrameRow): FrameData => ({
+  id: dbFrame.id,
+  title: dbFrame.title,
+  color: dbFrame.color,
+  x: dbFrame.x,
+  y: dbFrame.y,
+  width: dbFrame.width,
+  height: dbFrame.height,
+});
+
+type NodePositions = Record<string, { x: number; y: number }>;
+
+// 枠の追加・変更・削除と、それに伴うノードの移動や所属の変更。取り消し用の逆の変更と対にしてコマンドにする
+interface FrameChanges {
+  savedFrames?: FrameData[];
+  deletedFrameIds?: string[];
+  positions?: NodePositions;
+  nodeFrameIds?: Record<string, string | undefined>;
+}
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+const CANVAS_BUNDLE_FILE_FILTER = { name: 'Knowledge Canvas Export', extensions: ['json'] };
+const JSON_CANVAS_FILE_FILTER = { name: 'JSON Canvas', extensions: [JSON_CANVAS_FILE_EXTENSION] };
+// マージで読み込んだノードを既存のノードの右側に置くときの間隔
+const IMPORT_MERGE_GAP = 200;
+
 const traverseGraph = (
   startNodeId: string,
   currentDepth: number,
@@ -116,12 +362,30 @@ const DAMPING_FACTOR = 0.9; // 速度の減衰係数 (振動を抑える)
 const MIN_DISPLACEMENT = 0.1; // 収束判定のための最小移動量
 
 export default function KnowledgeCanvasPage() {
+  const [canvases, setCanvases] = useState<CanvasData[]>([]);
+  const [activeCanvasId, setActiveCanvasId] = useState<string | null>(null);
   const [nodes, setNodes] = useState<NodeData[]>([]);
   const [links, setLinks] = useState<LinkData[]>([]);
+  const [frames, setFrames] = useState<FrameData[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [searchHits, setSearchHits] = useState<SearchHit[]>([]);
+  // 全文検索で一致したノード。null は検索語なし（または最初の結果待ち）
+  const [searchMatchedNodeIds, setSearchMatchedNodeIds] = useState<Set<string> | null>(null);
+  // 添付ファイルのテキストが索引に入るたびに増やし、検索を引き直す
+  const [searchIndexVersion, setSearchIndexVersion] = useState(0);
+  const extractionFailuresRef = useRef<string[]>([]);
+  const [pendingImport, setPendingImport] = useState<{ bundle: CanvasBundle; fileName: string } | null>(null);
+  // 前回の書き出しで残ったノートを消してよいか確かめている Markdown の書き出し
+  const [pendingMarkdownExport, setPendingMarkdownExport] = useState<{ folderPath: string; files: MarkdownExportFile[]; staleFileNames: string[] } | null>(null);
+  const [isGraphExportDialogOpen, setIsGraphExportDialogOpen] = useState(false);
+  const [isImageExportDialogOpen, setIsImageExportDialogOpen] = useState(false);
+  // 読み込み直後のキャンバス。ノードが読み込まれたらレイアウトをかける
+  const pendingLayoutCanvasIdRef = useRef<string | null>(null);
   const [searchDepth, setSearchDepth] = useState<number>(1);
   const [isLinkingMode, setIsLinkingMode] = useState(false);
   const [selectedNodesForLinking, setSelectedNodesForLinking] = useState<string[]>([]);
+  const [pendingLinkEndpoints, setPendingLinkEndpoints] = useState<{ sourceNodeId: string; targetNodeId: string } | null>(null);
+  const [editingLinkId, setEditingLinkId] = useState<string | null>(null);
   const [isDeleteMode, setIsDeleteMode] = useState(false);
   const [selectedItemsForDeletion, setSelectedItemsForDeletion] = useState<{ nodes: string[]; links: string[]; }>({ nodes: [], links: [] });
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
@@ -132,7 +396,9 @@ export default function KnowledgeCanvasPage() {
 
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
-  const [currentEditData, setCurrentEditData] = useState<{ title: string; content: string; tags: string[] }>({ title: '', content: '', tags: [] });
+  const [currentEditData, setCurrentEditData] = useState<{ title: string; content: string; tags: string[]; style: NodeStyle }>({ title: '', content: '', tags: [], style: {} });
+  const [isRevisionHistoryOpen, setIsRevisionHistoryOpen] = useState(false);
+  const [revisionRefreshKey, setRevisionRefreshKey] = useState(0);
   
   const [tagSearchValue, setTagSearchValue] = useState('');
   const [isTitleFieldFocused, setIsTitleFieldFocused] = useState(false);
@@ -146,6 +412,7 @@ export default function KnowledgeCanvasPage() {
 
   const [allTags, setAllTags] = useState<string[]>([]);
   const [selectedFilterTags, setSelectedFilterTags] = useState<string[]>([]);
+  const [selectedRelationTypes, setSelectedRelationTypes] = useState<LinkRelationType[]>([]);
 
   const { toast } = useToast();
   const shortcutFileInputRef = useRef<HTMLInputElement>(null);
@@ -153,13 +420,42 @@ export default function KnowledgeCanvasPage() {
   const [isTagSelectorOpen, setIsTagSelectorOpen] = useState(false); // 既存のPopover用
 
   // ★ 新しいタグサジェスト機能のためのState
-  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+  const [tagSuggestions, setTagSuggestions] = useState<TagSuggestion[]>([]);
   const [showTagSuggestionsDropdown, setShowTagSuggestionsDropdown] = useState(false);
   const [activeTagSuggestionIndex, setActiveTagSuggestionIndex] = useState(-1);
   const tagInputRef = useRef<HTMLInputElement>(null); // タグ入力フィールドの参照
   const [layoutAlgorithm, setLayoutAlgorithm] = useState<LayoutAlgorithmType>('hierarchical');
   const forceLayoutRef = useRef<{ animationFrameId: number | null }>({ animationFrameId: null });
 
+  const [appSettings, setAppSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
+  const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false);
+  const [isTrashDialogOpen, setIsTrashDialogOpen] = useState(false);
+  const [isBackupDialogOpen, setIsBackupDialogOpen] = useState(false);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  // 参照先のファイルが見つからないファイルノード（全キャンバス分。メインプロセスの確認結果）
+  const [missingFileNodeIds, setMissingFileNodeIds] = useState<Set<string>>(new Set());
+  const [isRelinkDialogOpen, setIsRelinkDialogOpen] = useState(false);
+  // ドロップされ、取り込みの設定を選んでもらっているフォルダ（ドロップした位置に並べる）
+  const [pendingFolderImport, setPendingFolderImport] = useState<{ tree: FolderTree; dropX?: number; dropY?: number } | null>(null);
+  // 今のキャンバスのファイルノードの参照先の大きさ・更新日時（ノードの id → 状態）
+  const [fileStates, setFileStates] = useState<Record<string, NodeFileState>>({});
+  const [tagUsage, setTagUsage] = useState<TagUsage[]>([]);
+  const [tagColors, setTagColors] = useState<TagColors>({});
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [trashedNodes, setTrashedNodes] = useState<TrashedNode[]>([]);
+  const [trashedLinks, setTrashedLinks] = useState<TrashedLink[]>([]);
+  const history = useCommandHistory(appSettings.historyDepth);
+  // ドラッグ開始時の位置（ドラッグ終了時に移動コマンドとして履歴に積む）
+  const dragStartPositionsRef = useRef<NodePositions>({});
+  // 取り消し操作は後から実行されるので、その時点の最新のノードを参照する
+  const nodesRef = useRef<NodeData[]>(nodes);
+  nodesRef.current = nodes;
+  const framesRef = useRef<FrameData[]>(frames);
+  framesRef.current = frames;
+  // ドラッグ・大きさの変更を始めたときの枠（と中のノードの位置）
+  const frameDragStartRef = useRef<{ frame: FrameData; positions: NodePositions } | null>(null);
+  const frameResizeStartRef = useRef<FrameData | null>(null);
+
 
   useEffect(() => {
     if (!isTagSelectorOpen) {
@@ -178,22 +474,24 @@ export default function KnowledgeCanvasPage() {
       setShowTagSuggestionsDropdown(false); // 入力が空ならサジェスト非表示
       return;
     }
-    const lowerInput = tagInputValue.toLowerCase();
-    // 現在編集中のノート/ノードにまだ追加されていないタグのみを候補とする
+    // 現在編集中のノート/ノードにまだ追加されていないタグのみを候補とする。"/" を含む入力は階層に沿って補完する
     const currentDialogTags = editingNodeId ? currentEditData.tags : currentNote.tags;
-    
-    const filtered = allTags.filter(tag =>
-      tag.toLowerCase().includes(lowerInput) &&
-      !currentDialogTags.includes(tag) // 既にダイアログで追加済みのタグは候補から除外
-    );
+    const filtered = getTagSuggestions(allTags, tagInputValue, currentDialogTags);
     setTagSuggestions(filtered);
     setActiveTagSuggestionIndex(-1); // 入力変更時はアクティブサジェストをリセット
     setShowTagSuggestionsDropdown(filtered.length > 0); // 候補があれば表示
   }, [tagInputValue, allTags, editingNodeId, currentEditData.tags, currentNote.tags, isNoteDialogOpen, isEditDialogOpen]);
 
   // ★ サジェストからタグを追加する関数
-  const handleAddTagFromSuggestion = (suggestedTag: string) => {
-    const tagToAdd = suggestedTag; // サジェストされたタグ名をそのまま使用
+  const handleAddTagFromSuggestion = (suggestion: TagSuggestion) => {
+    // 途中の階層（それ自体はタグとして使われていないもの）は、入力を "path/" まで補完して下の階層の候補を出す
+    if (!suggestion.isTag) {
+      setTagInputValue(`${suggestion.path}/`);
+      setActiveTagSuggestionIndex(-1);
+      tagInputRef.current?.focus();
+      return;
+    }
+    const tagToAdd = suggestion.path; // サジェストされたタグ名をそのまま使用
 
     if (isNoteDialogOpen) {
       if (!currentNote.tags.includes(tagToAdd)) {
@@ -217,7 +515,7 @@ export default function KnowledgeCanvasPage() {
       handleAddTagFromSuggestion(tagSuggestions[activeTagSuggestionIndex]);
     } else {
       // アクティブなサジェストがない場合は、入力値を新しいタグとして（または既存タグとして）追加
-      const newTagValue = tagInputValue.trim();
+      const newTagValue = normalizeTagPath(tagInputValue);
       if (!newTagValue) {
         setShowTagSuggestionsDropdown(false);
         return;
@@ -248,50 +546,163 @@ export default function KnowledgeCanvasPage() {
   };
 
   useEffect(() => {
-    const loadData = async () => {
+    const loadSettings = async () => {
       try {
         if (window.electronAPI) {
-          const loadedNodesFromDB = await window.electronAPI.getAllNodes();
-          const loadedLinksFromDB = await window.electronAPI.getAllLinks();
-
-          const parsedNodes: NodeData[] = loadedNodesFromDB.map(dbNode => {
-            const position = JSON.parse(dbNode.position) as { x: number; y: number };
-            const metaData = JSON.parse(dbNode.data) as NodeMetaData;
-            return {
-              id: dbNode.id,
-              type: dbNode.type,
-              title: metaData.title || '',
-              content: metaData.content, 
-              fileType: metaData.fileType,
-              filePath: metaData.filePath,
-              url: metaData.url,
-              tags: metaData.tags || [],
-              x: position.x,
-              y: position.y,
-              width: metaData.width,
-              height: metaData.height,
-            };
-          });
-          setNodes(parsedNodes);
-
-          const parsedLinks: LinkData[] = loadedLinksFromDB.map(dbLink => ({
-            id: dbLink.id,
-            sourceNodeId: dbLink.source,
-            targetNodeId: dbLink.target,
-          }));
-          setLinks(parsedLinks);
+          setAppSettings(parseAppSettings(await window.electronAPI.getAllSettings()));
+        }
+      } catch (error) {
+        console.error('Failed to load settings:', error);
+      }
+    };
+    loadSettings();
+  }, []);
 
-        } else {
-          console.warn('Electron API not found. Running in browser mode?');
+  const handleSaveSettings = useCallback(async (newSettings: AppSettings) => {
+    try {
+      if (window.electronAPI) {
+        await window.electronAPI.updateSettings(serializeAppSettings(newSettings));
+      }
+      setAppSettings(newSettings);
+      setIsSettingsDialogOpen(false);
+      toast({ title: "Settings Saved" });
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+      toast({ title: "Error", description: "Failed to save settings.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  // 起動時にキャンバス一覧と前回開いていたキャンバスを読み込む
+  useEffect(() => {
+    const loadCanvases = async () => {
+      try {
+        if (window.electronAPI) {
+          const loadedCanvases = await window.electronAPI.getAllCanvases();
+          const activeCanvas = await window.electronAPI.getActiveCanvas();
+          setCanvases(loadedCanvases);
+          setActiveCanvasId(activeCanvas ? activeCanvas.id : null);
         }
       } catch (error) {
-        console.error('Failed to load data from database:', error);
-        toast({ title: "Error Loading Data", description: "Could not load data from the local database.", variant: "destructive" });
+        console.error('Failed to load canvases from database:', error);
+        toast({ title: "Error Loading Canvases", description: "Could not load the list of canvases.", variant: "destructive" });
       }
     };
-    loadData();
+    loadCanvases();
   }, [toast]);
 
+  // 現在のキャンバスのノードとリンクを DB から読み直す（ゴミ箱からの復元後にも使う）
+  const reloadCanvasData = useCallback(async () => {
+    if (!activeCanvasId) return;
+    try {
+      if (window.electronAPI) {
+        const loadedNodesFromDB = await window.electronAPI.getAllNodes(activeCanvasId);
+        const loadedLinksFromDB = await window.electronAPI.getAllLinks(activeCanvasId);
+        const loadedFramesFromDB = await window.electronAPI.getAllFrames(activeCanvasId);
+        const loadedFileStates = await window.electronAPI.getFileStates(activeCanvasId);
+
+        setNodes(loadedNodesFromDB.map(fromDbNode));
+        setLinks(loadedLinksFromDB.map(fromDbLink));
+        setFrames(loadedFramesFromDB.map(fromDbFrame));
+        setFileStates(Object.fromEntries(loadedFileStates.map(state => [state.nodeId, state])));
+
+      } else {
+        console.warn('Electron API not found. Running in browser mode?');
+      }
+    } catch (error) {
+      console.error('Failed to load data from database:', error);
+      toast({ title: "Error Loading Data", description: "Could not load data from the local database.", variant: "destructive" });
+    }
+  }, [activeCanvasId, toast]);
+
+  useEffect(() => {
+    reloadCanvasData();
+  }, [reloadCanvasData]);
+
+  const handleSwitchCanvas = useCallback(async (canvasId: string) => {
+    if (canvasId === activeCanvasId) return;
+    try {
+      if (window.electronAPI) {
+        await window.electronAPI.switchCanvas(canvasId);
+      }
+      // 前のキャンバスの選択状態や検索条件を持ち越さない
+      setIsLinkingMode(false);
+      setSelectedNodesForLinking([]);
+      setIsDeleteMode(false);
+      setSelectedItemsForDeletion({ nodes: [], links: [] });
+      setSearchTerm('');
+      setSelectedFilterTags([]);
+      setSelectedRelationTypes([]);
+      setCanvasOffset({ x: 0, y: 0 });
+      setZoomLevel(1);
+      setNodes([]);
+      setLinks([]);
+      setFrames([]);
+      history.clear();
+      setActiveCanvasId(canvasId);
+    } catch (error) {
+      console.error('Failed to switch canvas:', error);
+      toast({ title: "Error", description: "Failed to switch canvas.", variant: "destructive" });
+    }
+  }, [activeCanvasId, history, toast]);
+
+  const handleCreateCanvas = useCallback(async (name: string) => {
+    if (!window.electronAPI) return;
+    try {
+      const newCanvas = await window.electronAPI.createCanvas(name);
+      setCanvases(prev => [...prev, newCanvas]);
+      await handleSwitchCanvas(newCanvas.id);
+      toast({ title: "Canvas Created", description: `"${name}" created.` });
+    } catch (error) {
+      console.error('Failed to create canvas:', error);
+      toast({ title: "Error", description: "Failed to create canvas.", variant: "destructive" });
+    }
+  }, [handleSwitchCanvas, toast]);
+
+  const handleRenameCanvas = useCallback(async (canvasId: string, name: string) => {
+    if (!window.electronAPI) return;
+    try {
+      await window.electronAPI.renameCanvas(canvasId, name);
+      setCanvases(prev => prev.map(c => c.id === canvasId ? { ...c, name } : c));
+      toast({ title: "Canvas Renamed", description: `Canvas renamed to "${name}".` });
+    } catch (error) {
+      console.error('Failed to rename canvas:', error);
+      toast({ title: "Error", description: "Failed to rename canvas.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  const handleDuplicateCanvas = useCallback(async (canvasId: string, name: string) => {
+    if (!window.electronAPI) return;
+    try {
+      const duplicatedCanvas = await window.electronAPI.duplicateCanvas(canvasId, name);
+      setCanvases(prev => [...prev, duplicatedCanvas]);
+      await handleSwitchCanvas(duplicatedCanvas.id);
+      toast({ title: "Canvas Duplicated", description: `"${name}" created.` });
+    } catch (error) {
+      console.error('Failed to duplicate canvas:', error);
+      toast({ title: "Error", description: "Failed to duplicate canvas.", variant: "destructive" });
+    }
+  }, [handleSwitchCanvas, toast]);
+
+  const handleDeleteCanvas = useCallback(async (canvasId: string) => {
+    if (!window.electronAPI) return;
+    const remainingCanvases = canvases.filter(c => c.id !== canvasId);
+    if (remainingCanvases.length === 0) {
+      toast({ title: "Error", description: "The last remaining canvas cannot be deleted.", variant: "destructive" });
+      return;
+    }
+    try {
+      if (canvasId === activeCanvasId) {
+        await handleSwitchCanvas(remainingCanvases[0].id);
+      }
+      await window.electronAPI.deleteCanvas(canvasId);
+      setCanvases(remainingCanvases);
+      toast({ title: "Canvas Deleted" });
+    } catch (error) {
+      console.error('Failed to delete canvas:', error);
+      toast({ title: "Error", description: "Failed to delete canvas.", variant: "destructive" });
+    }
+  }, [canvases, activeCanvasId, handleSwitchCanvas, toast]);
+
 
   useEffect(() => {
     const uniqueTags = new Set<string>();
@@ -311,6 +722,654 @@ export default function KnowledgeCanvasPage() {
     );
   };
 
+  const handleRelationTypeToggle = (relationType: LinkRelationType) => {
+    setSelectedRelationTypes(prev =>
+      prev.includes(relationType)
+        ? prev.filter(t => t !== relationType)
+        : [...prev, relationType]
+    );
+  };
+
+  // --- 履歴のコマンドから使う基本操作（React の state と DB の両方を更新する） ---
+  const insertItems = useCallback(async (nodesToInsert: NodeData[], linksToInsert: LinkData[]) => {
+    if (window.electronAPI && activeCanvasId) {
+      await window.electronAPI.applyBatch(toAddOperations(nodesToInsert, linksToInsert, activeCanvasId));
+    }
+    const insertedNodeIds = new Set(nodesToInsert.map(n => n.id));
+    const insertedLinkIds = new Set(linksToInsert.map(l => l.id));
+    setNodes(prev => [...prev.filter(n => !insertedNodeIds.has(n.id)), ...nodesToInsert]);
+    setLinks(prev => [...prev.filter(l => !insertedLinkIds.has(l.id)), ...linksToInsert]);
+  }, [activeCanvasId]);
+
+  // 通常はゴミ箱へ移す。permanently のときは完全に削除する（追加の取り消しなど）
+  const removeItems = useCallback(async (nodeIds: string[], linkIds: string[], permanently = false) => {
+    if (window.electronAPI) {
+      await window.electronAPI.applyBatch(toRemoveOperations(nodeIds, linkIds, permanently));
+    }
+    const removedNodeIds = new Set(nodeIds);
+    const removedLinkIds = new Set(linkIds);
+    setNodes(prev => prev.filter(n => !removedNodeIds.has(n.id)));
+    setLinks(prev => prev.filter(l =>
+      !removedLinkIds.has(l.id) && !removedNodeIds.has(l.sourceNodeId) && !removedNodeIds.has(l.targetNodeId)
+    ));
+  }, []);
+
+  const restoreItems = useCallback(async (nodeIds: string[], linkIds: string[]) => {
+    if (window.electronAPI) {
+      await window.electronAPI.applyBatch(toRestoreOperations(nodeIds, linkIds));
+    }
+    // ゴミ箱から完全に削除済みのものは戻らないので、DB の状態を正とする
+    await reloadCanvasData();
+  }, [reloadCanvasData]);
+
+  const applyNodePositions = useCallback(async (positions: NodePositions) => {
+    setNodes(prev => prev.map(n => positions[n.id] ? { ...n, ...positions[n.id] } : n));
+    if (window.electronAPI) {
+      await window.electronAPI.applyBatch(
+        Object.entries(positions).map(([id, position]) => ({ type: 'updateNodePosition' as const, id, position }))
+      );
+    }
+  }, []);
+
+  const applyNodeFields = useCallback(async (nodeId: string, fields: Partial<NodeData>) => {
+    const currentNode = nodesRef.current.find(n => n.id === nodeId);
+    if (!currentNode) return;
+    const updatedNode = { ...currentNode, ...fields };
+    if (window.electronAPI) {
+      await window.electronAPI.updateNodeData(nodeId, toNodeMetaData(updatedNode));
+    }
+    setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, ...fields } : n));
+  }, []);
+
+  // 枠の変更を1回のバッチで保存する。ノードの所属は data.frameId を書き換える（undefined で枠から出す）
+  const applyFrameChanges = useCallback(async (changes: FrameChanges) => {
+    const { savedFrames = [], deletedFrameIds = [], positions = {}, nodeFrameIds = {} } = changes;
+    if (window.electronAPI && activeCanvasId) {
+      await window.electronAPI.applyBatch([
+        ...savedFrames.map(frame => ({ type: 'saveFrame' as const, frame: toDbFrame(frame, activeCanvasId) })),
+        ...Object.entries(positions).map(([id, position]) => ({ type: 'updateNodePosition' as const, id, position })),
+        ...Object.entries(nodeFrameIds).flatMap(([id, frameId]) => {
+          const node = nodesRef.current.find(n => n.id === id);
+          return node ? [{ type: 'updateNodeData' as const, id, data: toNodeMetaData({ ...node, frameId }) }] : [];
+        }),
+        ...deletedFrameIds.map(id => ({ type: 'deleteFrame' as const, id })),
+      ]);
+    }
+    const savedFramesById = new Map(savedFrames.map(frame => [frame.id, frame]));
+    setFrames(prev => [
+      ...prev.filter(f => !deletedFrameIds.includes(f.id)).map(f => savedFramesById.get(f.id) || f),
+      ...savedFrames.filter(frame => !prev.some(f => f.id === frame.id)),
+    ]);
+    setNodes(prev => prev.map(n => {
+      const moved = positions[n.id] ? { ...n, ...positions[n.id] } : n;
+      return n.id in nodeFrameIds ? { ...moved, frameId: nodeFrameIds[n.id] } : moved;
+    }));
+  }, [activeCanvasId]);
+
+  // --- 取り消し可能なコマンド ---
+  const createAddItemsCommand = useCallback((label: string, nodesToAdd: NodeData[], linksToAdd: LinkData[]): Command => ({
+    label,
+    execute: () => insertItems(nodesToAdd, linksToAdd),
+    undo: () => removeItems(nodesToAdd.map(n => n.id), linksToAdd.map(l => l.id), true),
+  }), [insertItems, removeItems]);
+
+  const createDeleteItemsCommand = useCallback((label: string, nodesToDelete: NodeData[], linksToDelete: LinkData[]): Command => ({
+    label,
+    execute: () => removeItems(nodesToDelete.map(n => n.id), linksToDelete.map(l => l.id)),
+    undo: () => restoreItems(nodesToDelete.map(n => n.id), linksToDelete.map(l => l.id)),
+  }), [removeItems, restoreItems]);
+
+  const createMoveNodesCommand = useCallback((label: string, before: NodePositions, after: NodePositions): Command => ({
+    label,
+    execute: () => applyNodePositions(after),
+    undo: () => applyNodePositions(before),
+  }), [applyNodePositions]);
+
+  const createFrameChangeCommand = useCallback((label: string, before: FrameChanges, after: FrameChanges): Command => ({
+    label,
+    execute: () => applyFrameChanges(after),
+    undo: () => applyFrameChanges(before),
+  }), [applyFrameChanges]);
+
+  const applyLinkDetails = useCallback(async (linkId: string, details: LinkDetails) => {
+    if (window.electronAPI) {
+      await window.electronAPI.applyBatch([{ type: 'updateLink', id: linkId, fields: toDbLinkFields(details) }]);
+    }
+    setLinks(prev => prev.map(l => l.id === linkId ? { ...l, ...fromLinkDetails(details) } : l));
+  }, []);
+
+  const createUpdateLinkCommand = useCallback((label: string, linkId: string, before: LinkDetails, after: LinkDetails): Command => ({
+    label,
+    execute: () => applyLinkDetails(linkId, after),
+    undo: () => applyLinkDetails(linkId, before),
+  }), [applyLinkDetails]);
+
+  // ファイルノードの参照先を書き換え、見つかるようになったかを確かめ直す
+  const applyFilePaths = useCallback(async (filePaths: Record<string, string>) => {
+    if (window.electronAPI) {
+      await window.electronAPI.applyBatch(Object.entries(filePaths).flatMap(([id, filePath]) => {
+        const node = nodesRef.current.find(n => n.id === id);
+        return node ? [{ type: 'updateNodeData' as const, id, data: toNodeMetaData({ ...node, filePath }) }] : [];
+      }));
+      setMissingFileNodeIds(new Set((await window.electronAPI.checkFiles()).missingNodeIds));
+      if (activeCanvasId) {
+        const loadedFileStates = await window.electronAPI.getFileStates(activeCanvasId);
+        setFileStates(Object.fromEntries(loadedFileStates.map(state => [state.nodeId, state])));
+      }
+    }
+    setNodes(prev => prev.map(n => filePaths[n.id] ? { ...n, filePath: filePaths[n.id] } : n));
+  }, [activeCanvasId]);
+
+  const createRelinkFilesCommand = useCallback((label: string, before: Record<string, string>, after: Record<string, string>): Command => ({
+    label,
+    execute: () => applyFilePaths(after),
+    undo: () => applyFilePaths(before),
+  }), [applyFilePaths]);
+
+  const createUpdateNodeCommand = useCallback((label: string, nodeId: string, before: Partial<NodeData>, after: Partial<NodeData>): Command => ({
+    label,
+    execute: () => applyNodeFields(nodeId, after),
+    undo: () => applyNodeFields(nodeId, before),
+  }), [applyNodeFields]);
+
+  const handleUndo = useCallback(async () => {
+    try {
+      const command = await history.undo();
+      if (command) {
+        toast({ title: "Undo", description: command.label });
+      }
+    } catch (error) {
+      console.error('Failed to undo:', error);
+      toast({ title: "Error", description: "Failed to undo the last change.", variant: "destructive" });
+    }
+  }, [history, toast]);
+
+  const handleRedo = useCallback(async () => {
+    try {
+      const command = await history.redo();
+      if (command) {
+        toast({ title: "Redo", description: command.label });
+      }
+    } catch (error) {
+      console.error('Failed to redo:', error);
+      toast({ title: "Error", description: "Failed to redo the change.", variant: "destructive" });
+    }
+  }, [history, toast]);
+
+  // --- ゴミ箱 ---
+  // ゴミ箱からの復元・完全削除は履歴に積まない
+  const loadTrash = useCallback(async () => {
+    if (!window.electronAPI || !activeCanvasId) return;
+    try {
+      const trash = await window.electronAPI.getTrash(activeCanvasId);
+      setTrashedNodes(trash.nodes.map(row => ({ ...fromDbNode(row), deletedAt: row.deletedAt })));
+      setTrashedLinks(trash.links.map(row => ({ ...fromDbLink(row), deletedAt: row.deletedAt })));
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+      toast({ title: "Error", description: "Failed to load the trash.", variant: "destructive" });
+    }
+  }, [activeCanvasId, toast]);
+
+  const handleOpenTrash = useCallback(() => {
+    loadTrash();
+    setIsTrashDialogOpen(true);
+  }, [loadTrash]);
+
+  const handleRestoreNodeFromTrash = useCallback(async (nodeId: string) => {
+    try {
+      await window.electronAPI.restoreNode(nodeId);
+      await Promise.all([loadTrash(), reloadCanvasData()]);
+      toast({ title: "Node Restored" });
+    } catch (error) {
+      console.error('Failed to restore node:', error);
+      toast({ title: "Error", description: "Failed to restore the node.", variant: "destructive" });
+    }
+  }, [loadTrash, reloadCanvasData, toast]);
+
+  const handleRestoreLinkFromTrash = useCallback(async (linkId: string) => {
+    try {
+      const restoredCount = await window.electronAPI.restoreLink(linkId);
+      if (!restoredCount) {
+        toast({ title: "Cannot Restore Link", description: "Restore the nodes it connects first.", variant: "destructive" });
+        return;
+      }
+      await Promise.all([loadTrash(), reloadCanvasData()]);
+      toast({ title: "Link Restored" });
+    } catch (error) {
+      console.error('Failed to restore link:', error);
+      toast({ title: "Error", description: "Failed to restore the link.", variant: "destructive" });
+    }
+  }, [loadTrash, reloadCanvasData, toast]);
+
+  const handlePurgeNodeFromTrash = useCallback(async (nodeId: string) => {
+    try {
+      await window.electronAPI.purgeNode(nodeId);
+      await loadTrash();
+    } catch (error) {
+      console.error('Failed to delete node permanently:', error);
+      toast({ title: "Error", description: "Failed to delete the node permanently.", variant: "destructive" });
+    }
+  }, [loadTrash, toast]);
+
+  const handlePurgeLinkFromTrash = useCallback(async (linkId: string) => {
+    try {
+      await window.electronAPI.purgeLink(linkId);
+      await loadTrash();
+    } catch (error) {
+      console.error('Failed to delete link permanently:', error);
+      toast({ title: "Error", description: "Failed to delete the link permanently.", variant: "destructive" });
+    }
+  }, [loadTrash, toast]);
+
+  const handleEmptyTrash = useCallback(async () => {
+    if (!activeCanvasId) return;
+    try {
+      await window.electronAPI.emptyTrash(activeCanvasId);
+      await loadTrash();
+      toast({ title: "Trash Emptied" });
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+      toast({ title: "Error", description: "Failed to empty the trash.", variant: "destructive" });
+    }
+  }, [activeCanvasId, loadTrash, toast]);
+
+  // --- バックアップ ---
+  const loadBackups = useCallback(async () => {
+    try {
+      setBackups(await window.electronAPI.listBackups());
+    } catch (error) {
+      console.error('Failed to list backups:', error);
+      toast({ title: "Error", description: "Failed to list the backups.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  const handleOpenBackups = useCallback(() => {
+    if (!window.electronAPI) return;
+    loadBackups();
+    setIsBackupDialogOpen(true);
+  }, [loadBackups]);
+
+  const handleCreateBackup = useCallback(async () => {
+    try {
+      await window.electronAPI.createBackup();
+      await loadBackups();
+      toast({ title: "Backup Created" });
+    } catch (error) {
+      console.error('Failed to create backup:', error);
+      toast({ title: "Error", description: "Failed to create a backup.", variant: "destructive" });
+    }
+  }, [loadBackups, toast]);
+
+  const handlePreviewBackup = useCallback((fileName: string) => window.electronAPI.previewBackup(fileName), []);
+
+  // 成功するとメインプロセスがアプリを再起動する
+  const handleRestoreBackup = useCallback(async (fileName: string) => {
+    try {
+      await window.electronAPI.restoreBackup(fileName);
+      toast({ title: "Backup Restored", description: "Restarting…" });
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      toast({ title: "Restore Failed", description: "The backup could not be restored.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  // --- タグ管理 ---
+  // タグの色は全キャンバス共通なので、起動時に一度だけ読む
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    window.electronAPI.getTagColors()
+      .then(setTagColors)
+      .catch(error => console.error('Failed to load tag colors:', error));
+  }, []);
+
+  const handleOpenTagManager = useCallback(async () => {
+    if (!window.electronAPI) return;
+    try {
+      setTagUsage(await window.electronAPI.getTagUsage());
+      setIsTagManagerOpen(true);
+    } catch (error) {
+      console.error('Failed to count tags:', error);
+      toast({ title: "Error", description: "Failed to load the tags.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  // 全キャンバスのノードを書き換えるので、取り消しの履歴は古いタグのまま戻さないよう消しておく
+  const handleSaveTagChanges = useCallback(async (changes: TagChanges) => {
+    try {
+      const { updatedNodeCount } = await window.electronAPI.applyTagChanges(changes);
+      setTagColors(prev => {
+        const next = { ...prev };
+        Object.entries(changes.colors).forEach(([tag, color]) => {
+          if (color) next[tag] = color;
+          else delete next[tag];
+        });
+        return next;
+      });
+      setSelectedFilterTags(prev => applyTagRenames(prev, changes.renames));
+      if (Object.keys(changes.renames).length > 0) {
+        history.clear();
+        await reloadCanvasData();
+      }
+      setIsTagManagerOpen(false);
+      toast({ title: "Tags Updated", description: `${updatedNodeCount} node(s) changed.` });
+    } catch (error) {
+      console.error('Failed to save tag changes:', error);
+      toast({ title: "Error", description: "Failed to save the tag changes.", variant: "destructive" });
+    }
+  }, [history, reloadCanvasData, toast]);
+
+  // --- 見つからないファイル ---
+  // 起動時の確認はメインプロセスが始めている。ここでの呼び出しはその結果を待つだけになることが多い
+  useEffect(() => {
+    if (!window.electronAPI?.onFilesStatus) return;
+    const unsubscribe = window.electronAPI.onFilesStatus(status => setMissingFileNodeIds(new Set(status.missingNodeIds)));
+    window.electronAPI.checkFiles()
+      .then(status => setMissingFileNodeIds(new Set(status.missingNodeIds)))
+      .catch(error => console.error('Failed to check attached files:', error));
+    return unsubscribe;
+  }, []);
+
+  // ほかのアプリでの保存・名前の変更・削除を、カードの表示と見つからないファイルの一覧に反映する。
+  // 名前の変更は DB の参照先がメインプロセスで書き換え済みなので、画面のノードだけを合わせる
+  useEffect(() => {
+    if (!window.electronAPI?.onFilesChanged) return;
+    return window.electronAPI.onFilesChanged(change => {
+      const nodeIds = change.states.map(state => state.nodeId);
+      setFileStates(prev => ({ ...prev, ...Object.fromEntries(change.states.map(state => [state.nodeId, state])) }));
+      setMissingFileNodeIds(prev => {
+        const next = new Set(prev);
+        nodeIds.forEach(id => change.type === 'delete' ? next.add(id) : next.delete(id));
+        return next;
+      });
+      const affectedNodes = nodesRef.current.filter(n => nodeIds.includes(n.id));
+      if (affectedNodes.length === 0) return;
+      const fileName = change.filePath.split(/[\\/]/).pop() || change.filePath;
+      if (change.type === 'rename' && change.newFilePath) {
+        const newFilePath = change.newFilePath;
+        setNodes(prev => prev.map(n => nodeIds.includes(n.id) ? { ...n, filePath: newFilePath } : n));
+        toast({ title: "File Renamed", description: `${fileName} → ${newFilePath.split(/[\\/]/).pop()}` });
+      } else if (change.type === 'delete') {
+        toast({ title: "File Deleted", description: `${fileName} was moved or deleted outside the app.`, variant: "destructive" });
+      }
+    });
+  }, [toast]);
+
+  const missingFileNodes = useMemo(
+    () => nodes.filter(n => n.type === 'file' && missingFileNodeIds.has(n.id)),
+    [nodes, missingFileNodeIds]
+  );
+
+  // メニューからは確かめ直してから開く。カードの警告から開くときは確認済みの結果を使う
+  const handleOpenRelinkDialog = useCallback(async (recheck: boolean) => {
+    if (!window.electronAPI) return;
+    if (recheck) {
+      try {
+        const { missingNodeIds } = await window.electronAPI.checkFiles();
+        setMissingFileNodeIds(new Set(missingNodeIds));
+        if (!nodesRef.current.some(n => missingNodeIds.includes(n.id))) {
+          toast({ title: "All Files Found", description: "Every file on this canvas is at its saved location." });
+          return;
+        }
+      } catch (error) {
+        console.error('Failed to check attached files:', error);
+        toast({ title: "Error", description: "Failed to check the attached files.", variant: "destructive" });
+        return;
+      }
+    }
+    setIsRelinkDialogOpen(true);
+  }, [toast]);
+
+  const handleSearchRelinkFolder = useCallback(async (nodeIds: string[]) => {
+    const folderPath = await window.electronAPI.openFolderDialog();
+    if (!folderPath) return null;
+    try {
+      return { folderPath, search: await window.electronAPI.findRelinkCandidates(folderPath, nodeIds) };
+    } catch (error) {
+      console.error('Failed to search for missing files:', error);
+      toast({ title: "Error", description: "Failed to search the folder.", variant: "destructive" });
+      return null;
+    }
+  }, [toast]);
+
+  const handleRelinkFiles = useCallback(async (filePaths: Record<string, string>) => {
+    const before = Object.fromEntries(Object.keys(filePaths).map(id => [id, nodesRef.current.find(n => n.id === id)?.filePath || '']));
+    const count = Object.keys(filePaths).length;
+    try {
+      await history.execute(createRelinkFilesCommand(`Relink ${count} file(s)`, before, filePaths));
+      setIsRelinkDialogOpen(false);
+      toast({ title: "Files Relinked", description: `${count} file node(s) now point to the new location.` });
+    } catch (error) {
+      console.error('Failed to relink files:', error);
+      toast({ title: "Error", description: "Failed to relink the files.", variant: "destructive" });
+    }
+  }, [history, createRelinkFilesCommand, toast]);
+
+  // --- キャンバスのエクスポート・インポート ---
+  const handleExportCanvas = useCallback(async () => {
+    const activeCanvas = canvases.find(c => c.id === activeCanvasId);
+    if (!window.electronAPI || !activeCanvas) return;
+    try {
+      const defaultFileName = `${activeCanvas.name.replace(/[\\/:*?"<>|]/g, '_')}.${CANVAS_BUNDLE_FILE_EXTENSION}`;
+      const filePath = await window.electronAPI.saveFileDialog(defaultFileName, [CANVAS_BUNDLE_FILE_FILTER]);
+      if (!filePath) return;
+      const bundle = createCanvasBundle(activeCanvas.name, nodes, links);
+      await window.electronAPI.writeTextFile(filePath, serializeCanvasBundle(bundle));
+      toast({ title: "Canvas Exported", description: `${bundle.nodes.length} node(s) and ${bundle.links.length} link(s) saved.` });
+    } catch (error) {
+      console.error('Failed to export canvas:', error);
+      toast({ title: "Export Failed", description: "Could not write the export file.", variant: "destructive" });
+    }
+  }, [canvases, activeCanvasId, nodes, links, toast]);
+
+  const handleImportCanvas = useCallback(async () => {
+    if (!window.electronAPI || !activeCanvasId) return;
+    try {
+      const [filePath] = await window.electronAPI.openFileDialog({ filters: [CANVAS_BUNDLE_FILE_FILTER], multiSelections: false });
+      if (!filePath) return;
+      const bundle = parseCanvasBundle(await window.electronAPI.readTextFile(filePath));
+      setPendingImport({ bundle, fileName: filePath.split(/[\\/]/).pop() || filePath });
+    } catch (error) {
+      console.error('Failed to read canvas import:', error);
+      const description = error instanceof CanvasBundleError ? error.message : "Could not read the selected file.";
+      toast({ title: "Import Failed", description, variant: "destructive" });
+    }
+  }, [activeCanvasId, toast]);
+
+  const handleConfirmImport = useCallback(async (mode: CanvasImportMode) => {
+    if (!pendingImport) return;
+    const { bundle } = pendingImport;
+    setPendingImport(null);
+    const imported = remapCanvasBundleIds(bundle);
+
+    // 追加するときは、既存のノードと重ならないよう右隣に並べる
+    if (mode === 'merge' && nodes.length > 0 && imported.nodes.length > 0) {
+      const existingRight = Math.max(...nodes.map(n => n.x + (n.width || 256)));
+      const existingTop = Math.min(...nodes.map(n => n.y));
+      const importedLeft = Math.min(...imported.nodes.map(n => n.x));
+      const importedTop = Math.min(...imported.nodes.map(n => n.y));
+      const dx = existingRight + IMPORT_MERGE_GAP - importedLeft;
+      const dy = existingTop - importedTop;
+      imported.nodes = imported.nodes.map(n => ({ ...n, x: n.x + dx, y: n.y + dy }));
+    }
+
+    const label = `Import "${bundle.canvas.name}"`;
+    let command: Command;
+    if (mode === 'replace') {
+      // 置き換える前の内容はゴミ箱へ移し、取り消したときはそこから戻す。
+      // どちらも1回のバッチで行い、途中で失敗して中身の無いキャンバスが残らないようにする
+      const replacedNodeIds = nodes.map(n => n.id);
+      const replacedLinkIds = links.map(l => l.id);
+      const importedNodeIds = imported.nodes.map(n => n.id);
+      const importedLinkIds = imported.links.map(l => l.id);
+      command = {
+        label,
+        execute: async () => {
+          if (window.electronAPI && activeCanvasId) {
+            await window.electronAPI.applyBatch([
+              ...toRemoveOperations(replacedNodeIds, replacedLinkIds),
+              ...toAddOperations(imported.nodes, imported.links, activeCanvasId),
+            ]);
+          }
+          setNodes(imported.nodes);
+          setLinks(imported.links);
+        },
+        undo: async () => {
+          if (window.electronAPI) {
+            await window.electronAPI.applyBatch([
+              ...toRemoveOperations(importedNodeIds, importedLinkIds, true),
+              ...toRestoreOperations(replacedNodeIds, replacedLinkIds),
+            ]);
+          }
+          // ゴミ箱から完全に削除済みのものは戻らないので、DB の状態を正とする
+          await reloadCanvasData();
+        },
+      };
+    } else {
+      command = createAddItemsCommand(label, imported.nodes, imported.links);
+    }
+
+    try {
+      await history.execute(command);
+      toast({ title: "Canvas Imported", description: `${imported.nodes.length} node(s) and ${imported.links.length} link(s) imported.` });
+    } catch (error) {
+      console.error('Failed to import canvas:', error);
+      toast({ title: "Import Failed", description: "Could not save the imported nodes and links.", variant: "destructive" });
+    }
+  }, [pendingImport, nodes, links, activeCanvasId, reloadCanvasData, createAddItemsCommand, history, toast]);
+
+  // Markdown のフォルダは新しいキャンバスとして読み込む
+  const handleImportMarkdownFolder = useCallback(async () => {
+    if (!window.electronAPI) return;
+    try {
+      const folderPath = await window.electronAPI.openFolderDialog();
+      if (!folderPath) return;
+      const { folderName, files } = await window.electronAPI.readMarkdownFolder(folderPath);
+      if (files.length === 0) {
+        toast({ title: "No Markdown Files", description: `No .md files were found in "${folderName}".` });
+        return;
+      }
+      const imported = importMarkdownFiles(files);
+      const newCanvas = await window.electronAPI.createCanvas(folderName);
+      try {
+        await window.electronAPI.applyBatch(toAddOperations(imported.nodes, imported.links, newCanvas.id));
+      } catch (error) {
+        // ノートを書き込めなかったときは、空のキャンバスを残さない
+        await window.electronAPI.deleteCanvas(newCanvas.id)
+          .catch(deleteError => console.error('Failed to remove the empty imported canvas:', deleteError));
+        throw error;
+      }
+      setCanvases(prev => [...prev, newCanvas]);
+      pendingLayoutCanvasIdRef.current = newCanvas.id;
+      await handleSwitchCanvas(newCanvas.id);
+      const unresolvedNote = imported.unresolvedLinkCount > 0
+        ? ` ${imported.unresolvedLinkCount} link(s) pointed to notes that were not found.`
+        : '';
+      toast({
+        title: "Markdown Folder Imported",
+        description: `${imported.nodes.length} note(s) and ${imported.links.length} link(s) from "${folderName}".${unresolvedNote}`,
+      });
+    } catch (error) {
+      console.error('Failed to import Markdown folder:', error);
+      toast({ title: "Import Failed", description: "Could not import the Markdown folder.", variant: "destructive" });
+    }
+  }, [handleSwitchCanvas, toast]);
+
+  const writeMarkdownExport = useCallback(async (folderPath: string, files: MarkdownExportFile[], removeStale: boolean) => {
+    if (!window.electronAPI) return;
+    try {
+      const result = await window.electronAPI.writeMarkdownFolder(folderPath, files, { removeStale });
+      const removedNote = result.removed > 0 ? ` ${result.removed} note(s) from an earlier export were removed.` : '';
+      toast({ title: "Markdown Folder Exported", description: `${result.written} note(s) written.${removedNote}` });
+    } catch (error) {
+      console.error('Failed to export Markdown folder:', error);
+      toast({ title: "Export Failed", description: "Could not write the Markdown files.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  // 1ノード1ファイルで書き出す。同じフォルダに書き出し直したとき、前回この書き出しで作ったノートが残っていれば、
+  // 消すかどうかを確かめてから書く（フォルダにある他のファイルには触れない）
+  const handleExportMarkdownFolder = useCallback(async () => {
+    const activeCanvas = canvases.find(c => c.id === activeCanvasId);
+    if (!window.electronAPI || !activeCanvas) return;
+    try {
+      const folderPath = await window.electronAPI.openFolderDialog();
+      if (!folderPath) return;
+      const files = exportCanvasToMarkdown(nodes, links);
+      const staleFileNames = await window.electronAPI.findStaleExportFiles(folderPath, files);
+      if (staleFileNames.length > 0) {
+        setPendingMarkdownExport({ folderPath, files, staleFileNames });
+        return;
+      }
+      await writeMarkdownExport(folderPath, files, false);
+    } catch (error) {
+      console.error('Failed to export Markdown folder:', error);
+      toast({ title: "Export Failed", description: "Could not write the Markdown files.", variant: "destructive" });
+    }
+  }, [canvases, activeCanvasId, nodes, links, writeMarkdownExport, toast]);
+
+  const handleConfirmMarkdownExport = useCallback(async (removeStale: boolean) => {
+    if (!pendingMarkdownExport) return;
+    const { folderPath, files } = pendingMarkdownExport;
+    setPendingMarkdownExport(null);
+    await writeMarkdownExport(folderPath, files, removeStale);
+  }, [pendingMarkdownExport, writeMarkdownExport]);
+
+  // JSON Canvas（.canvas）の書き出し。ノートはテキスト、ファイルはファイル、リンクはリンクのノード、枠はグループになる
+  const handleExportJsonCanvas = useCallback(async () => {
+    const activeCanvas = canvases.find(c => c.id === activeCanvasId);
+    if (!window.electronAPI || !activeCanvas) return;
+    try {
+      const defaultFileName = `${activeCanvas.name.replace(/[\\/:*?"<>|]/g, '_')}.${JSON_CANVAS_FILE_EXTENSION}`;
+      const filePath = await window.electronAPI.saveFileDialog(defaultFileName, [JSON_CANVAS_FILE_FILTER]);
+      if (!filePath) return;
+      await window.electronAPI.writeTextFile(filePath, exportJsonCanvas(nodes, links, frames));
+      toast({ title: "JSON Canvas Exported", description: `${nodes.length} node(s) and ${links.length} link(s) saved.` });
+    } catch (error) {
+      console.error('Failed to export JSON Canvas:', error);
+      toast({ title: "Export Failed", description: "Could not write the .canvas file.", variant: "destructive" });
+    }
+  }, [canvases, activeCanvasId, nodes, links, frames, toast]);
+
+  // .canvas は配置を持っているので、レイアウトはかけ直さずに新しいキャンバスとして読み込む
+  const handleImportJsonCanvas = useCallback(async () => {
+    if (!window.electronAPI) return;
+    try {
+      const [filePath] = await window.electronAPI.openFileDialog({ filters: [JSON_CANVAS_FILE_FILTER], multiSelections: false });
+      if (!filePath) return;
+      const canvas = parseJsonCanvas(await window.electronAPI.readTextFile(filePath));
+      const fileName = filePath.split(/[\\/]/).pop() || filePath;
+      const imported = importJsonCanvas(canvas, {
+        baseDirectory: filePath.slice(0, filePath.length - fileName.length),
+        getFileType: getFileTypeFromFileName,
+      });
+      const newCanvas = await window.electronAPI.createCanvas(fileName.replace(/\.canvas$/i, '') || fileName);
+      try {
+        await window.electronAPI.applyBatch([
+          ...imported.frames.map(frame => ({ type: 'saveFrame' as const, frame: toDbFrame(frame, newCanvas.id) })),
+          ...toAddOperations(imported.nodes, imported.links, newCanvas.id),
+        ]);
+      } catch (error) {
+        // ノードを書き込めなかったときは、空のキャンバスを残さない
+        await window.electronAPI.deleteCanvas(newCanvas.id)
+          .catch(deleteError => console.error('Failed to remove the empty imported canvas:', deleteError));
+        throw error;
+      }
+      setCanvases(prev => [...prev, newCanvas]);
+      await handleSwitchCanvas(newCanvas.id);
+      const skippedNote = imported.skippedNodeCount > 0
+        ? ` ${imported.skippedNodeCount} node(s) of an unsupported type were skipped.`
+        : '';
+      toast({
+        title: "JSON Canvas Imported",
+        description: `${imported.nodes.length} node(s) and ${imported.links.length} link(s) from "${fileName}".${skippedNote}`,
+      });
+    } catch (error) {
+      console.error('Failed to import JSON Canvas:', error);
+      const description = error instanceof JsonCanvasError ? error.message : "Could not import the .canvas file.";
+      toast({ title: "Import Failed", description, variant: "destructive" });
+    }
+  }, [handleSwitchCanvas, toast]);
+
   const internalAddNode = useCallback(async (
     type: NodeType,
     title: string,
@@ -352,36 +1411,15 @@ export default function KnowledgeCanvasPage() {
       height: height || (type === 'note' ? (nodeSpecificContent && nodeSpecificContent.length > 50 ? 200 : 160) : (type === 'link' ? 160 : 160)), 
     };
 
-    const nodeDataForDB: NodeMetaData = {
-        title: newNodeForUI.title,
-        content: newNodeForUI.content, 
-        fileType: newNodeForUI.fileType,
-        filePath: newNodeForUI.filePath,
-        url: newNodeForUI.url,
-        tags: newNodeForUI.tags,
-        width: newNodeForUI.width,
-        height: newNodeForUI.height,
-    };
-
-    const nodeForDB = {
-        id: newNodeForUI.id,
-        type: newNodeForUI.type,
-        position: JSON.stringify({ x: newNodeForUI.x, y: newNodeForUI.y }),
-        data: JSON.stringify(nodeDataForDB),
-    };
-
     try {
-        if (window.electronAPI) {
-            await window.electronAPI.addNode(nodeForDB);
-        }
-        setNodes((prevNodes) => [...prevNodes, newNodeForUI]);
+        await history.execute(createAddItemsCommand(`Add ${type} "${title}"`, [newNodeForUI], []));
         toast({ title: `${type.charAt(0).toUpperCase() + type.slice(1)} Node Created`, description: `"${title}" added.` });
     } catch (error) {
         console.error('Failed to add node:', error);
         toast({ title: "Error", description: `Failed to add ${type} node.`, variant: "destructive" });
     }
     return newNodeForUI;
-  }, [canvasOffset.x, canvasOffset.y, zoomLevel, toast]);
+  }, [canvasOffset.x, canvasOffset.y, zoomLevel, history, createAddItemsCommand, toast]);
 
   const handleUrlDrop = useCallback(async (url: string, dropX?: number, dropY?: number) => {
     if (!url || !url.trim().startsWith('http')) {
@@ -448,13 +1486,46 @@ export default function KnowledgeCanvasPage() {
     }
 
 
+    // フォルダは中身をまとめて取り込む（設定を選んでもらうので、一度に1つだけ）
+    const folderPaths: string[] = [];
+    for (const file of [...files]) {
+        const droppedPath = (file as DroppedFile).path;
+        if (droppedPath && await window.electronAPI.isDirectory(droppedPath)) {
+            folderPaths.push(droppedPath);
+            files.splice(files.indexOf(file), 1);
+        }
+    }
+    if (folderPaths.length > 0) {
+        if (folderPaths.length > 1) {
+            toast({ title: "One Folder at a Time", description: `Only "${folderPaths[0]}" will be imported. Drop the other folders separately.` });
+        }
+        try {
+            const tree = await window.electronAPI.readFolderTree(folderPaths[0]);
+            setPendingFolderImport({ tree, dropX, dropY });
+        } catch (error) {
+            console.error("Error reading dropped folder:", error);
+            toast({ title: "Error", description: `Could not read the folder "${folderPaths[0]}".`, variant: "destructive" });
+        }
+    }
+
     if (potentialUrl) {
         await handleUrlDrop(potentialUrl, dropX, dropY);
     } else if (files.length > 0) {
         for (const file of files) {
           const nodeTypeForFile: NodeType = 'file';
           const appFileType = getFileTypeFromFileName(file.name);
-          const originalFilePath = (file as any).path; 
+          let originalFilePath: string | null = (file as DroppedFile).path || null;
+
+          // 管理モードでは保管庫にコピーしたファイルを参照する（同じ内容のファイルは同じパスになる）
+          if (appSettings.managedAttachments) {
+            try {
+              originalFilePath = await window.electronAPI.saveLocalFile(file.name, await file.arrayBuffer());
+            } catch (error) {
+              console.error("Error copying file into the library:", error);
+              toast({ title: "Error", description: `Could not copy "${file.name}" into the library.`, variant: "destructive" });
+              continue;
+            }
+          }
 
           if (!originalFilePath) {
             toast({ title: "Error", description: `Could not get path for "${file.name}".`, variant: "destructive" });
@@ -468,7 +1539,9 @@ export default function KnowledgeCanvasPage() {
           if (isDuplicatePath) {
             toast({
               title: "Duplicate File Path",
-              description: `A node for "${file.name}" with the same path already exists. Skipping.`,
+              description: appSettings.managedAttachments
+                ? `A node for a file with the same contents as "${file.name}" already exists. Skipping.`
+                : `A node for "${file.name}" with the same path already exists. Skipping.`,
               variant: "destructive",
             });
             continue;
@@ -481,10 +1554,72 @@ export default function KnowledgeCanvasPage() {
             toast({ title: "Error Processing File", description: `Failed to process "${file.name}".`, variant: "destructive" });
           }
         }
-    } else {
+    } else if (folderPaths.length === 0) {
         toast({ title: "No items to process", description: "No files or valid URLs found in the dropped items.", variant: "default" });
     }
-  }, [internalAddNode, nodes, toast, handleUrlDrop]);
+  }, [internalAddNode, nodes, toast, handleUrlDrop, appSettings.managedAttachments]);
+
+  const existingFilePaths = useMemo(
+    () => new Set(nodes.filter(node => node.type === 'file' && node.filePath).map(node => node.filePath!)),
+    [nodes]
+  );
+
+  // 選んだファイルとフォルダのハブを、1回で取り消せるようにまとめて追加する
+  const handleImportFolder = useCallback(async (options: FolderImportOptions) => {
+    if (!window.electronAPI || !pendingFolderImport) return;
+    const { tree, dropX, dropY } = pendingFolderImport;
+    setPendingFolderImport(null);
+
+    let entries = selectFolderEntries(tree.files, options, getFileTypeFromFileName);
+    let failedCount = 0;
+    // 管理モードでは保管庫にコピーしたファイルを参照する（重複もコピーのパスで判定する）
+    if (appSettings.managedAttachments) {
+      const copied: typeof entries = [];
+      for (const entry of entries) {
+        try {
+          copied.push({ ...entry, filePath: await window.electronAPI.saveLocalFileFromPath(entry.filePath) });
+        } catch (error) {
+          console.error(`Error copying "${entry.relativePath}" into the library:`, error);
+          failedCount += 1;
+        }
+      }
+      entries = copied;
+    }
+    let duplicateCount = 0;
+    if (options.skipDuplicates) {
+      const seenFilePaths = new Set(existingFilePaths);
+      entries = entries.filter(entry => {
+        if (seenFilePaths.has(entry.filePath)) {
+          duplicateCount += 1;
+          return false;
+        }
+        seenFilePaths.add(entry.filePath);
+        return true;
+      });
+    }
+    if (entries.length === 0) {
+      toast({ title: "Nothing to Import", description: `No new files from "${tree.folderName}" were added.` });
+      return;
+    }
+
+    const originX = dropX ?? (50 - canvasOffset.x) / zoomLevel;
+    const originY = dropY ?? (50 - canvasOffset.y) / zoomLevel;
+    const imported = buildFolderImport(tree.folderName, entries, getFileTypeFromFileName, Math.max(0, originX), Math.max(0, originY));
+    try {
+      await history.execute(createAddItemsCommand(`Import folder "${tree.folderName}"`, imported.nodes, imported.links));
+      const skippedNotes = [
+        duplicateCount > 0 ? `${duplicateCount} already on the canvas` : '',
+        failedCount > 0 ? `${failedCount} could not be copied` : '',
+      ].filter(Boolean).join(', ');
+      toast({
+        title: "Folder Imported",
+        description: `${imported.fileCount} file(s) in ${imported.folderCount} folder(s) from "${tree.folderName}".${skippedNotes ? ` Skipped: ${skippedNotes}.` : ''}`,
+      });
+    } catch (error) {
+      console.error('Failed to import folder:', error);
+      toast({ title: "Import Failed", description: `Could not import "${tree.folderName}".`, variant: "destructive" });
+    }
+  }, [pendingFolderImport, appSettings.managedAttachments, existingFilePaths, canvasOffset.x, canvasOffset.y, zoomLevel, history, createAddItemsCommand, toast]);
 
   const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -534,7 +1669,8 @@ export default function KnowledgeCanvasPage() {
       setCurrentEditData({ 
         title: nodeToEdit.title, 
         content: nodeToEdit.content || '', 
-        tags: nodeToEdit.tags || [] 
+        tags: nodeToEdit.tags || [],
+        style: nodeToEdit.style || {},
       });
       setTagInputValue(''); 
       setIsEditDialogOpen(true);
@@ -556,32 +1692,19 @@ export default function KnowledgeCanvasPage() {
 
       const newHeight = newContent && newContent.length > 50 ? 200 : 160;
 
-      const dataToUpdateInDB: Partial<NodeMetaData> = {
-          title: nodeToUpdate.title,
-          content: newContent,
-          fileType: nodeToUpdate.fileType,
-          filePath: nodeToUpdate.filePath,
-          url: nodeToUpdate.url,
-          tags: nodeToUpdate.tags,
-          width: nodeToUpdate.width,
-          height: newHeight, 
-      };
-
       try {
-          if (window.electronAPI) {
-              await window.electronAPI.updateNodeData(nodeId, dataToUpdateInDB);
-          }
-          setNodes(prevNodes =>
-              prevNodes.map(n =>
-                  n.id === nodeId ? { ...n, content: newContent, height: newHeight } : n
-              )
-          );
+          await history.execute(createUpdateNodeCommand(
+              `Edit "${nodeToUpdate.title}"`,
+              nodeId,
+              { content: nodeToUpdate.content, height: nodeToUpdate.height },
+              { content: newContent, height: newHeight },
+          ));
           toast({ title: "Note Updated", description: `Content of "${nodeToUpdate.title}" updated.` });
       } catch (error) {
           console.error('Failed to update node content:', error);
           toast({ title: "Error", description: "Failed to update node content.", variant: "destructive" });
       }
-  }, [nodes, toast]);
+  }, [nodes, history, createUpdateNodeCommand, toast]);
 
 
   const handleSaveEditedNode = async () => {
@@ -613,36 +1736,19 @@ export default function KnowledgeCanvasPage() {
     const newHeight = (nodeBeingEdited.type === 'note' || nodeBeingEdited.type === 'link') 
         ? (currentEditData.content && currentEditData.content.length > 50 ? 200 : 160)
         : nodeBeingEdited.height;
-
-    const dataToUpdateInDB: Partial<NodeMetaData> = {
-        title: currentEditData.title,
-        content: currentEditData.content, 
-        fileType: nodeBeingEdited.fileType,
-        filePath: nodeBeingEdited.filePath,
-        url: nodeBeingEdited.url, 
-        tags: currentEditData.tags,
-        width: nodeBeingEdited.width, 
-        height: newHeight, 
-    };
-
+    // 大きさを選び直したときだけ幅を変える（選んでいなければ今の幅のまま）
+    const newStyle = compactNodeStyle(currentEditData.style);
+    const newWidth = newStyle?.size !== nodeBeingEdited.style?.size
+        ? getNodeSizeWidth(newStyle?.size)
+        : nodeBeingEdited.width;
 
     try {
-        if (window.electronAPI) {
-            await window.electronAPI.updateNodeData(editingNodeId, dataToUpdateInDB);
-        }
-        setNodes(prevNodes =>
-          prevNodes.map(n =>
-            n.id === editingNodeId
-              ? {
-                  ...n,
-                  title: dataToUpdateInDB.title!,
-                  content: dataToUpdateInDB.content, 
-                  tags: dataToUpdateInDB.tags!,
-                  height: newHeight, 
-                }
-              : n
-          )
-        );
+        await history.execute(createUpdateNodeCommand(
+            `Edit "${nodeBeingEdited.title}"`,
+            editingNodeId,
+            { title: nodeBeingEdited.title, content: nodeBeingEdited.content, tags: nodeBeingEdited.tags, style: nodeBeingEdited.style, width: nodeBeingEdited.width, height: nodeBeingEdited.height },
+            { title: currentEditData.title, content: currentEditData.content, tags: currentEditData.tags, style: newStyle, width: newWidth, height: newHeight },
+        ));
         toast({ title: "Node Updated", description: `"${currentEditData.title}" updated successfully.` });
     } catch (error) {
         console.error('Failed to save edited node:', error);
@@ -716,37 +1822,58 @@ export default function KnowledgeCanvasPage() {
         };
       });
     } else if (isLinkingMode) {
-      setSelectedNodesForLinking((prevSelected) => {
-        if (prevSelected.includes(nodeId)) {
-          return prevSelected.filter((id) => id !== nodeId);
-        }
-        const newSelected = [...prevSelected, nodeId];
-        if (newSelected.length === 2) {
-          const newLinkForDB = {
-            id: uuidv4(),
-            source: newSelected[0],
-            target: newSelected[1],
-          };
-          const newLinkForUI: LinkData = {
-            id: newLinkForDB.id,
-            sourceNodeId: newSelected[0],
-            targetNodeId: newSelected[1],
-          };
-
-          if (window.electronAPI) {
-            window.electronAPI.addLink(newLinkForDB).catch(err => {
-                console.error("Failed to add link to DB:", err);
-                toast({title: "Error", description: "Failed to save link.", variant: "destructive"});
-            });
-          }
-          setLinks((prevLinks) => [...prevLinks, newLinkForUI]);
-          return []; 
-        }
-        return newSelected;
-      });
+      if (pendingLinkEndpoints) return;
+      if (selectedNodesForLinking.includes(nodeId)) {
+        setSelectedNodesForLinking(prevSelected => prevSelected.filter((id) => id !== nodeId));
+        return;
+      }
+      const newSelected = [...selectedNodesForLinking, nodeId];
+      setSelectedNodesForLinking(newSelected);
+      if (newSelected.length === 2) {
+        // 関係の種類とラベルを選んでもらってからリンクを作成する
+        setPendingLinkEndpoints({ sourceNodeId: newSelected[0], targetNodeId: newSelected[1] });
+      }
     }
   };
 
+  const handleConfirmLink = (details: LinkDetails) => {
+    if (!pendingLinkEndpoints) return;
+    const newLink: LinkData = {
+      id: uuidv4(),
+      sourceNodeId: pendingLinkEndpoints.sourceNodeId,
+      targetNodeId: pendingLinkEndpoints.targetNodeId,
+      ...fromLinkDetails(details),
+    };
+
+    history.execute(createAddItemsCommand('Link nodes', [], [newLink])).catch(err => {
+        console.error("Failed to add link to DB:", err);
+        toast({title: "Error", description: "Failed to save link.", variant: "destructive"});
+    });
+    setPendingLinkEndpoints(null);
+    setSelectedNodesForLinking([]);
+  };
+
+  const handleCancelLink = () => {
+    setPendingLinkEndpoints(null);
+    setSelectedNodesForLinking([]);
+  };
+
+  // リンクをダブルクリックすると、関係の種類や見た目を編集できる
+  const handleLinkDoubleClick = (linkId: string) => {
+    if (isLinkingMode || isDeleteMode) return;
+    setEditingLinkId(linkId);
+  };
+
+  const handleSaveLinkEdit = (details: LinkDetails) => {
+    const link = links.find(l => l.id === editingLinkId);
+    setEditingLinkId(null);
+    if (!link) return;
+    history.execute(createUpdateLinkCommand('Edit link', link.id, toLinkDetails(link), details)).catch(error => {
+      console.error('Failed to update link:', error);
+      toast({ title: "Error", description: "Failed to save the link.", variant: "destructive" });
+    });
+  };
+
   const handleLinkClick = (linkId: string) => {
     if (isDeleteMode) {
       setSelectedItemsForDeletion((prev) => {
@@ -885,34 +2012,107 @@ export default function KnowledgeCanvasPage() {
   };
 
 
-  const filteredNodesAndLinks = useMemo(() => {
-    const trimmedSearchTerm = searchTerm.trim();
-    if (!trimmedSearchTerm && selectedFilterTags.length === 0) {
-      return { displayNodes: nodes, displayLinks: links };
+  // 索引に入る項目（タイトル・内容・タグ）だけの目印。ドラッグやレイアウトでの移動では変わらない
+  const searchIndexSignature = useMemo(
+    () => JSON.stringify(nodes.map(node => [node.id, node.title, node.content || '', node.tags || []])),
+    [nodes]
+  );
+
+  // 検索はメインプロセスの FTS5 索引に任せる。ノードの追加・削除・編集でも索引が変わるので、そのときも引き直す
+  useEffect(() => {
+    const query = searchTerm.trim();
+    if (!query || !activeCanvasId || !window.electronAPI) {
+      setSearchHits([]);
+      setSearchMatchedNodeIds(null);
+      return;
     }
+    let isCancelled = false;
+    const timeoutId = setTimeout(async () => {
+      try {
+        const hits = await window.electronAPI.search(activeCanvasId, query);
+        if (isCancelled) return;
+        setSearchHits(hits);
+        setSearchMatchedNodeIds(new Set(hits.map(hit => hit.nodeId)));
+      } catch (error) {
+        console.error('Failed to search nodes:', error);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [searchTerm, activeCanvasId, searchIndexSignature, searchIndexVersion]);
+
+  // 添付ファイルのテキスト抽出は1件ずつ進み具合を表示し、まとまりが終わったら失敗したファイルを一覧で知らせる
+  useEffect(() => {
+    if (!window.electronAPI?.onExtractionProgress) return;
+    return window.electronAPI.onExtractionProgress(progress => {
+      const fileName = progress.filePath.split(/[\\/]/).pop() || progress.filePath;
+      if (progress.status === 'started') {
+        toast({ title: "Extracting Text", description: `${fileName} (${progress.completed + 1} of ${progress.total})` });
+        return;
+      }
+      if (progress.status === 'failed') {
+        extractionFailuresRef.current.push(`${fileName}: ${progress.error || 'Unknown error'}`);
+      } else {
+        setSearchIndexVersion(version => version + 1);
+      }
+      if (progress.completed < progress.total) return;
+
+      const failures = extractionFailuresRef.current;
+      extractionFailuresRef.current = [];
+      if (failures.length > 0) {
+        toast({
+          title: `Text Extraction Failed for ${failures.length} File(s)`,
+          description: failures.join('; '),
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: "Text Extracted", description: `${progress.total} file(s) can now be found by their contents.` });
+      }
+    });
+  }, [toast]);
+
+  // 検索結果から選んだノードを画面の中央に表示する
+  const handleSearchHitSelect = useCallback((nodeId: string) => {
+    const node = nodesRef.current.find(n => n.id === nodeId);
+    const canvasElement = canvasRef.current;
+    if (!node || !canvasElement) return;
+    const { width: viewWidth, height: viewHeight } = canvasElement.getBoundingClientRect();
+    const nodeCenterX = node.x + (node.width || 256) / 2;
+    const nodeCenterY = node.y + (node.height || 160) / 2;
+    setCanvasOffset({
+      x: viewWidth / 2 - nodeCenterX * zoomLevel,
+      y: viewHeight / 2 - nodeCenterY * zoomLevel,
+    });
+  }, [zoomLevel]);
 
-    const searchTerms = trimmedSearchTerm.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+  // 関係の種類で絞り込んだリンクだけを表示・探索・レイアウトの対象にする
+  const relationFilteredLinks = useMemo(() => (
+    selectedRelationTypes.length > 0
+      ? links.filter(link => selectedRelationTypes.includes(getLinkRelationType(link)))
+      : links
+  ), [links, selectedRelationTypes]);
+
+  const filteredNodesAndLinks = useMemo(() => {
+    // 最初の検索結果が届くまでは検索語なしとして扱う
+    const hasSearchTerm = searchTerm.trim().length > 0 && searchMatchedNodeIds !== null;
+    if (!hasSearchTerm && selectedFilterTags.length === 0) {
+      return { displayNodes: nodes, displayLinks: relationFilteredLinks };
+    }
 
     let matchedInitialNodes = nodes.filter(node => {
       const matchesSelectedTags = selectedFilterTags.length > 0
-        ? node.tags && node.tags.some(tag => selectedFilterTags.includes(tag))
+        ? node.tags && node.tags.some(tag => selectedFilterTags.some(selectedTag => isTagInSubtree(tag, selectedTag)))
         : true;
 
-      let matchesSearchTerms = true;
-      if (searchTerms.length > 0) {
-        matchesSearchTerms = searchTerms.every(term => {
-          const titleMatch = node.title.toLowerCase().includes(term);
-          const contentMatch = (node.type === 'note' || node.type === 'file' || node.type === 'link') && node.content?.toLowerCase().includes(term); 
-          const tagMatch = node.tags && node.tags.some(tag => tag.toLowerCase().includes(term));
-          return titleMatch || contentMatch || tagMatch;
-        });
-      }
+      const matchesSearchTerms = hasSearchTerm ? searchMatchedNodeIds.has(node.id) : true;
       
-      if (selectedFilterTags.length > 0 && searchTerms.length > 0) {
+      if (selectedFilterTags.length > 0 && hasSearchTerm) {
         return matchesSelectedTags && matchesSearchTerms;
       } else if (selectedFilterTags.length > 0) {
         return matchesSelectedTags;
-      } else if (searchTerms.length > 0) {
+      } else if (hasSearchTerm) {
         return matchesSearchTerms;
       }
       return false; 
@@ -923,7 +2123,7 @@ export default function KnowledgeCanvasPage() {
        return { displayNodes: [], displayLinks: [] };
     }
      if (matchedInitialNodes.length === 0 && !searchTerm.trim() && selectedFilterTags.length === 0) {
-      return { displayNodes: nodes, displayLinks: links };
+      return { displayNodes: nodes, displayLinks: relationFilteredLinks };
     }
 
 
@@ -932,38 +2132,131 @@ export default function KnowledgeCanvasPage() {
 
     matchedInitialNodes.forEach(startNode => {
       const visitedNodesInPath = new Set<string>(); 
-      traverseGraph(startNode.id, 0, searchDepth, nodes, links, visitedNodesInPath, collectedNodesMap, collectedLinkIds);
+      traverseGraph(startNode.id, 0, searchDepth, nodes, relationFilteredLinks, visitedNodesInPath, collectedNodesMap, collectedLinkIds);
     });
 
     const displayNodes = Array.from(collectedNodesMap.values());
-    const displayLinks = links.filter(link => 
+    const displayLinks = relationFilteredLinks.filter(link => 
         collectedLinkIds.has(link.id) && 
         collectedNodesMap.has(link.sourceNodeId) && 
         collectedNodesMap.has(link.targetNodeId)
     );
     
     return { displayNodes, displayLinks };
-  }, [nodes, links, searchTerm, searchDepth, selectedFilterTags]);
+  }, [nodes, relationFilteredLinks, searchTerm, searchMatchedNodeIds, searchDepth, selectedFilterTags]);
+
+  const isGraphFiltered = searchTerm.trim() !== '' || selectedFilterTags.length > 0 || selectedRelationTypes.length > 0;
+
+  const handleExportGraph = useCallback(async (format: GraphExportFormat, scope: GraphExportScope) => {
+    const activeCanvas = canvases.find(c => c.id === activeCanvasId);
+    if (!window.electronAPI || !activeCanvas) return;
+    const { extension, label } = GRAPH_EXPORT_FORMATS.find(f => f.value === format)!;
+    const exportNodes = scope === 'filtered' ? filteredNodesAndLinks.displayNodes : nodes;
+    const exportLinks = scope === 'filtered' ? filteredNodesAndLinks.displayLinks : links;
+    try {
+      const defaultFileName = `${activeCanvas.name.replace(/[\\/:*?"<>|]/g, '_')}.${extension}`;
+      const filePath = await window.electronAPI.saveFileDialog(defaultFileName, [{ name: label, extensions: [extension] }]);
+      if (!filePath) return;
+      await window.electronAPI.writeTextFile(filePath, exportGraph(format, activeCanvas.name, exportNodes, exportLinks));
+      setIsGraphExportDialogOpen(false);
+      toast({ title: "Graph Exported", description: `${exportNodes.length} node(s) saved as ${label}.` });
+    } catch (error) {
+      console.error('Failed to export graph:', error);
+      toast({ title: "Export Failed", description: "Could not write the graph file.", variant: "destructive" });
+    }
+  }, [canvases, activeCanvasId, filteredNodesAndLinks, nodes, links, toast]);
+
+  // 画像の書き出しと枠の作成では、連結モード・削除モードで選んでいるノードを「選択」として扱う
+  const selectedNodeIds = useMemo(
+    () => Array.from(new Set([...selectedNodesForLinking, ...selectedItemsForDeletion.nodes])),
+    [selectedNodesForLinking, selectedItemsForDeletion]
+  );
+
+  const handleExportImage = useCallback(async (settings: ImageExportSettings) => {
+    const activeCanvas = canvases.find(c => c.id === activeCanvasId);
+    if (!window.electronAPI || !activeCanvas) return;
+    const { extension, label } = IMAGE_EXPORT_FORMATS.find(f => f.value === settings.format)!;
+    const exportNodes = settings.scope === 'selection' ? nodes.filter(n => selectedNodeIds.includes(n.id)) : nodes;
+    const image = renderCanvasImage(exportNodes, links, {
+      scale: settings.scale,
+      margin: settings.margin,
+      background: settings.background,
+      hideChrome: settings.hideChrome,
+      selectedNodeIds: selectedNodeIds,
+    });
+    try {
+      const defaultFileName = `${activeCanvas.name.replace(/[\\/:*?"<>|]/g, '_')}.${extension}`;
+      const filePath = await window.electronAPI.saveFileDialog(defaultFileName, [{ name: label, extensions: [extension] }]);
+      if (!filePath) return;
+      if (settings.format === 'svg') {
+        await window.electronAPI.writeTextFile(filePath, image.svg);
+      } else if (settings.format === 'png') {
+        const blob = await rasterizeSvg(image);
+        await window.electronAPI.writeBinaryFile(filePath, await blob.arrayBuffer());
+      } else {
+        await window.electronAPI.writeSvgAsPdf(filePath, image.svg, image.width, image.height);
+      }
+      setIsImageExportDialogOpen(false);
+      toast({ title: "Image Exported", description: `${exportNodes.length} node(s) saved as ${label} (${image.width}×${image.height} px).` });
+    } catch (error) {
+      console.error('Failed to export image:', error);
+      const description = error instanceof Error && settings.format === 'png' ? error.message : "Could not write the image file.";
+      toast({ title: "Export Failed", description, variant: "destructive" });
+    }
+  }, [canvases, activeCanvasId, nodes, links, selectedNodeIds, toast]);
+
+  const editingLink = useMemo(() => links.find(l => l.id === editingLinkId), [links, editingLinkId]);
+  const editingLinkDetails = useMemo(() => editingLink ? toLinkDetails(editingLink) : undefined, [editingLink]);
 
   const currentEditingNodeDetails = useMemo(() => {
     if (!editingNodeId) return null;
     return nodes.find(n => n.id === editingNodeId);
   }, [editingNodeId, nodes]);
 
+  // 履歴パネルの差分は保存済みの現在の状態と比較する
+  const currentEditingNodeSnapshot = useMemo(() => ({
+    title: currentEditingNodeDetails?.title || '',
+    content: currentEditingNodeDetails?.content || '',
+    tags: currentEditingNodeDetails?.tags || [],
+  }), [currentEditingNodeDetails]);
+
+  const handleRestoreRevision = useCallback(async (revision: NodeRevision) => {
+    const nodeToRestore = nodesRef.current.find(n => n.id === revision.nodeId);
+    if (!nodeToRestore) return;
+    const newHeight = (nodeToRestore.type === 'note' || nodeToRestore.type === 'link')
+      ? (revision.content.length > 50 ? 200 : 160)
+      : nodeToRestore.height;
+    try {
+      await history.execute(createUpdateNodeCommand(
+        `Restore "${revision.title}"`,
+        nodeToRestore.id,
+        { title: nodeToRestore.title, content: nodeToRestore.content, tags: nodeToRestore.tags, height: nodeToRestore.height },
+        { title: revision.title, content: revision.content, tags: revision.tags, height: newHeight },
+      ));
+      setCurrentEditData(prev => ({ ...prev, title: revision.title, content: revision.content, tags: revision.tags }));
+      setRevisionRefreshKey(prev => prev + 1);
+      toast({ title: "Version Restored", description: `"${revision.title}" restored.` });
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      toast({ title: "Error", description: "Failed to restore this version.", variant: "destructive" });
+    }
+  }, [history, createUpdateNodeCommand, toast]);
+
   const handleCreateEditDialogClose = useCallback(() => {
     setIsNoteDialogOpen(false);
     setIsEditDialogOpen(false);
     setEditingNodeId(null);
     setCurrentNoteCreationCoords(null);
     setCurrentNote({ title: '', content: '', tags: [] });
-    setCurrentEditData({ title: '', content: '', tags: [] });
+    setCurrentEditData({ title: '', content: '', tags: [], style: {} });
     setTagInputValue('');
     setIsTagSelectorOpen(false);
+    setIsRevisionHistoryOpen(false);
   }, []);
   
   // ★ 修正: handleAddTagToDialog の中でタグ追加後にポップオーバーを閉じる
   const handleAddTagToDialog = () => {
-    const newTag = tagInputValue.trim();
+    const newTag = normalizeTagPath(tagInputValue);
     if (!newTag) return;
 
     if (isNoteDialogOpen) {
@@ -1001,13 +2294,20 @@ export default function KnowledgeCanvasPage() {
     // この関数は既存のPopoverから呼ばれるため、ここでは入力フィールドのクリアやPopoverのクローズはしない
   };
 
-  const applyHierarchicalLayout = useCallback((isAutomaticCall = false) => {
-    const nodesToLayout = filteredNodesAndLinks.displayNodes;
-    const linksToConsider = filteredNodesAndLinks.displayLinks;
+  // frame を渡すと、その枠の中のノードだけを枠の中に並べ、枠の大きさを合わせる。
+  // 全体のレイアウトでは、枠に入っているノードは動かさない
+  const applyHierarchicalLayout = useCallback((isAutomaticCall = false, frame?: FrameData) => {
+    const frameIds = new Set(frames.map(f => f.id));
+    const nodesToLayout = frame
+      ? nodes.filter(n => n.frameId === frame.id)
+      : filteredNodesAndLinks.displayNodes.filter(n => !n.frameId || !frameIds.has(n.frameId));
+    const linksToConsider = frame ? links : filteredNodesAndLinks.displayLinks;
 
     if (nodesToLayout.length === 0) {
       if (!isAutomaticCall) {
-        toast({ title: "No nodes to layout", description: "No nodes are currently visible to arrange." });
+        toast(frame
+          ? { title: "No nodes to layout", description: "This frame has no nodes in it." }
+          : { title: "No nodes to layout", description: "No nodes are currently visible to arrange." });
       }
       return;
     }
@@ -1083,8 +2383,8 @@ export default function KnowledgeCanvasPage() {
     const DEFAULT_NODE_HEIGHT = 160;
     const HORIZONTAL_SPACING = 100;
     const VERTICAL_SPACING = 60;
-    const PAGE_MARGIN_X = 50;
-    const PAGE_MARGIN_Y = 50;
+    const PAGE_MARGIN_X = frame ? frame.x + FRAME_PADDING : 50;
+    const PAGE_MARGIN_Y = frame ? frame.y + FRAME_TITLE_HEIGHT + FRAME_PADDING : 50;
 
     const nodesByVisualColumn = new Map<number, string[]>();
     let effectiveMaxVisualColumn = 0;
@@ -1249,27 +2549,44 @@ export default function KnowledgeCanvasPage() {
       }
     });
 
-    setNodes(prevNodes =>
-      prevNodes.map(n => {
-        const newPosition = newPositionsMap.get(n.id);
-        if (newPosition) {
-            if (window.electronAPI && (n.x !== newPosition.x || n.y !== newPosition.y)) {
-                window.electronAPI.updateNodePosition(n.id, newPosition).catch(err => console.error("Failed to update node position during auto-layout:", err));
-            }
-            return { ...n, x: newPosition.x, y: newPosition.y };
-        }
-        return n;
-      })
-    );
+    // 位置が変わるノードだけを移動コマンドにまとめる（取り消しで元の配置に戻せるように）
+    const positionsBefore: NodePositions = {};
+    const positionsAfter: NodePositions = {};
+    nodesToLayout.forEach(n => {
+      const newPosition = newPositionsMap.get(n.id);
+      if (newPosition && (n.x !== newPosition.x || n.y !== newPosition.y)) {
+        positionsBefore[n.id] = { x: n.x, y: n.y };
+        positionsAfter[n.id] = newPosition;
+      }
+    });
+    if (frame) {
+      const fittedFrame = {
+        ...frame,
+        ...getFrameBoundsForNodes(nodesToLayout.map(n => ({ ...n, ...newPositionsMap.get(n.id) }))),
+      };
+      history.execute(createFrameChangeCommand(
+        `Arrange frame "${frame.title}"`,
+        { savedFrames: [frame], positions: positionsBefore },
+        { savedFrames: [fittedFrame], positions: positionsAfter },
+      )).catch(err => console.error("Failed to arrange frame:", err));
+      toast({ title: "Frame Arranged", description: `${nodesToLayout.length} node(s) arranged.` });
+      return;
+    }
+    if (Object.keys(positionsAfter).length > 0) {
+      history.execute(createMoveNodesCommand('Hierarchical layout', positionsBefore, positionsAfter))
+        .catch(err => console.error("Failed to update node position during auto-layout:", err));
+    }
 
     if (nodesToLayout.length > 0 && !isAutomaticCall) {
      toast({ title: "Hierarchical Layout Applied", description: "Nodes arranged." });
     }
-  }, [filteredNodesAndLinks.displayNodes, filteredNodesAndLinks.displayLinks, toast]);
+  }, [nodes, links, frames, filteredNodesAndLinks.displayNodes, filteredNodesAndLinks.displayLinks, history, createMoveNodesCommand, createFrameChangeCommand, toast]);
 
     // 力指向レイアウト
   const applyForceDirectedLayout = useCallback((isAutomaticCall = false) => {
-    const nodesToLayout = filteredNodesAndLinks.displayNodes;
+    // 枠に入っているノードは動かさない
+    const frameIds = new Set(frames.map(f => f.id));
+    const nodesToLayout = filteredNodesAndLinks.displayNodes.filter(n => !n.frameId || !frameIds.has(n.frameId));
     const linksToConsider = filteredNodesAndLinks.displayLinks;
 
     if (nodesToLayout.length === 0) {
@@ -1285,6 +2602,10 @@ export default function KnowledgeCanvasPage() {
         forceLayoutRef.current.animationFrameId = null;
     }
 
+    // 取り消し用にシミュレーション前の位置を覚えておく
+    const positionsBefore: NodePositions = {};
+    nodesToLayout.forEach(n => { positionsBefore[n.id] = { x: n.x, y: n.y }; });
+
     // ノードの初期化 (速度と固定位置)
     let currentNodes = nodesToLayout.map(n => ({
         ...n,
@@ -1299,12 +2620,22 @@ export default function KnowledgeCanvasPage() {
     
     const simulate = () => {
         if (iteration >= FORCE_DIRECTED_ITERATIONS) {
-            // シミュレーション終了後、最終位置をDBに保存
+            // シミュレーション終了後、最終位置をDBに保存し、全体を1つの移動として履歴に積む
+            const positionsAfter: NodePositions = {};
             currentNodes.forEach(n => {
-                 if (window.electronAPI && (nodes.find(pn => pn.id === n.id)?.x !== n.x || nodes.find(pn => pn.id === n.id)?.y !== n.y)) {
-                    window.electronAPI.updateNodePosition(n.id, { x: n.x, y: n.y }).catch(err => console.error("FD: Failed to update node position:", err));
+                 if (positionsBefore[n.id].x !== n.x || positionsBefore[n.id].y !== n.y) {
+                    positionsAfter[n.id] = { x: n.x, y: n.y };
                  }
             });
+            const movedNodeIds = Object.keys(positionsAfter);
+            if (movedNodeIds.length > 0) {
+                const changedPositionsBefore: NodePositions = {};
+                movedNodeIds.forEach(id => { changedPositionsBefore[id] = positionsBefore[id]; });
+                const layoutCommand = createMoveNodesCommand('Force-directed layout', changedPositionsBefore, positionsAfter);
+                layoutCommand.execute()
+                    .then(() => history.record(layoutCommand))
+                    .catch(err => console.error("FD: Failed to update node position:", err));
+            }
             if (!isAutomaticCall) {
                 toast({ title: "Force-Directed Layout Applied", description: `Completed ${iteration} iterations.` });
             }
@@ -1352,7 +2683,8 @@ export default function KnowledgeCanvasPage() {
                         const dy = node2.y - node1.y;
                         const distance = Math.sqrt(dx * dx + dy * dy);
                         const displacement = distance - DEFAULT_LINK_DISTANCE;
-                        const springForce = K_SPRING * displacement;
+                        // 重いリンクほど強いばねで引き寄せる
+                        const springForce = K_SPRING * getLinkWeight(link) * displacement;
                         
                         if (distance > 0) { // ゼロ除算を避ける
                            forceX += (dx / distance) * springForce;
@@ -1406,7 +2738,7 @@ export default function KnowledgeCanvasPage() {
     }
     forceLayoutRef.current.animationFrameId = requestAnimationFrame(simulate);
 
-  }, [filteredNodesAndLinks.displayNodes, filteredNodesAndLinks.displayLinks, toast, nodes, canvasRef]);
+  }, [filteredNodesAndLinks.displayNodes, filteredNodesAndLinks.displayLinks, toast, history, createMoveNodesCommand, canvasRef]);
 
   const handleDepthChange = useCallback((depthArr: number[]) => {
     setSearchDepth(depthArr[0]);
@@ -1436,6 +2768,13 @@ export default function KnowledgeCanvasPage() {
     applyCurrentLayoutRef.current = applyCurrentLayout;
   }, [applyCurrentLayout]);
 
+  // 読み込んだキャンバスのノードが揃ったら、選択中のアルゴリズムで並べ直す
+  useEffect(() => {
+    if (!pendingLayoutCanvasIdRef.current || pendingLayoutCanvasIdRef.current !== activeCanvasId || nodes.length === 0) return;
+    pendingLayoutCanvasIdRef.current = null;
+    applyCurrentLayoutRef.current(true);
+  }, [nodes, activeCanvasId]);
+
   useEffect(() => {
     if (isInitialRenderForAutoLayoutEffect.current) {
       isInitialRenderForAutoLayoutEffect.current = false;
@@ -1443,11 +2782,141 @@ export default function KnowledgeCanvasPage() {
     }
     // 検索条件や表示ノードが変わった時に、選択中のレイアウトアルゴリズムを再適用する
     applyCurrentLayoutRef.current(true);
-  }, [searchTerm, selectedFilterTags, searchDepth, layoutAlgorithm]); // layoutAlgorithm も依存配列に追加
+  }, [searchTerm, selectedFilterTags, selectedRelationTypes, searchDepth, layoutAlgorithm]); // layoutAlgorithm も依存配列に追加
 
 
+  // --- 枠 ---
+  // 選択中のノードがあれば、それを囲む枠を作って中に入れる。無ければ表示中の範囲の中央に空の枠を置く
+  const handleAddFrame = useCallback(() => {
+    const memberNodes = nodes.filter(n => selectedNodeIds.includes(n.id));
+    let bounds: Pick<FrameData, 'x' | 'y' | 'width' | 'height'>;
+    if (memberNodes.length > 0) {
+      bounds = getFrameBoundsForNodes(memberNodes);
+    } else {
+      const canvasBounds = canvasRef.current?.getBoundingClientRect();
+      const centerX = canvasBounds ? (canvasBounds.width / 2 - canvasOffset.x) / zoomLevel : 0;
+      const centerY = canvasBounds ? (canvasBounds.height / 2 - canvasOffset.y) / zoomLevel : 0;
+      bounds = {
+        x: Math.max(0, centerX - DEFAULT_FRAME_SIZE.width / 2),
+        y: Math.max(0, centerY - DEFAULT_FRAME_SIZE.height / 2),
+        ...DEFAULT_FRAME_SIZE,
+      };
+    }
+    const frame: FrameData = { id: uuidv4(), title: 'New frame', color: DEFAULT_FRAME_COLOR, ...bounds };
+    history.execute(createFrameChangeCommand(
+      'Add frame',
+      { deletedFrameIds: [frame.id], nodeFrameIds: Object.fromEntries(memberNodes.map(n => [n.id, n.frameId])) },
+      { savedFrames: [frame], nodeFrameIds: Object.fromEntries(memberNodes.map(n => [n.id, frame.id])) },
+    )).catch(error => {
+      console.error('Failed to add frame:', error);
+      toast({ title: "Error", description: "Failed to add the frame.", variant: "destructive" });
+    });
+  }, [nodes, selectedNodeIds, canvasOffset, zoomLevel, history, createFrameChangeCommand, toast]);
+
+  // 枠を動かすと中のノードも同じだけ動く。DB への保存と履歴はドラッグ終了時に行う
+  const handleFrameDrag = useCallback((frameId: string, x: number, y: number) => {
+    if (!frameDragStartRef.current) {
+      const frame = framesRef.current.find(f => f.id === frameId);
+      if (!frame) return;
+      const positions: NodePositions = {};
+      nodesRef.current.filter(n => n.frameId === frameId).forEach(n => { positions[n.id] = { x: n.x, y: n.y }; });
+      frameDragStartRef.current = { frame, positions };
+    }
+    const { frame: startFrame, positions: startPositions } = frameDragStartRef.current;
+    const dx = x - startFrame.x;
+    const dy = y - startFrame.y;
+    setFrames(prev => prev.map(f => f.id === frameId ? { ...f, x, y } : f));
+    setNodes(prev => prev.map(n => startPositions[n.id]
+      ? { ...n, x: startPositions[n.id].x + dx, y: startPositions[n.id].y + dy }
+      : n));
+  }, []);
+
+  const handleFrameDragEnd = useCallback((frameId: string) => {
+    const start = frameDragStartRef.current;
+    frameDragStartRef.current = null;
+    const frame = framesRef.current.find(f => f.id === frameId);
+    if (!start || !frame || (frame.x === start.frame.x && frame.y === start.frame.y)) return;
+    const positionsAfter: NodePositions = {};
+    nodesRef.current.forEach(n => {
+      if (start.positions[n.id]) positionsAfter[n.id] = { x: n.x, y: n.y };
+    });
+    history.execute(createFrameChangeCommand(
+      `Move frame "${frame.title}"`,
+      { savedFrames: [start.frame], positions: start.positions },
+      { savedFrames: [frame], positions: positionsAfter },
+    )).catch(error => console.error('Failed to move frame:', error));
+  }, [history, createFrameChangeCommand]);
+
+  const handleFrameResize = useCallback((frameId: string, width: number, height: number) => {
+    if (!frameResizeStartRef.current) {
+      frameResizeStartRef.current = framesRef.current.find(f => f.id === frameId) || null;
+    }
+    setFrames(prev => prev.map(f => f.id === frameId ? { ...f, width, height } : f));
+  }, []);
+
+  // 大きさを変えた結果、中心が枠の内側に入ったノードは枠に入り、外に出たノードは枠から出る
+  const handleFrameResizeEnd = useCallback((frameId: string) => {
+    const startFrame = frameResizeStartRef.current;
+    frameResizeStartRef.current = null;
+    const frame = framesRef.current.find(f => f.id === frameId);
+    if (!startFrame || !frame || (frame.width === startFrame.width && frame.height === startFrame.height)) return;
+    const nodeFrameIdsBefore: Record<string, string | undefined> = {};
+    const nodeFrameIdsAfter: Record<string, string | undefined> = {};
+    nodesRef.current.forEach(n => {
+      const frameIdAfter = findFrameForNode(n, framesRef.current)?.id;
+      if ((n.frameId === frameId || frameIdAfter === frameId) && frameIdAfter !== n.frameId) {
+        nodeFrameIdsBefore[n.id] = n.frameId;
+        nodeFrameIdsAfter[n.id] = frameIdAfter;
+      }
+    });
+    history.execute(createFrameChangeCommand(
+      `Resize frame "${frame.title}"`,
+      { savedFrames: [startFrame], nodeFrameIds: nodeFrameIdsBefore },
+      { savedFrames: [frame], nodeFrameIds: nodeFrameIdsAfter },
+    )).catch(error => console.error('Failed to resize frame:', error));
+  }, [history, createFrameChangeCommand]);
+
+  const handleFrameUpdate = useCallback((frameId: string, fields: Partial<Pick<FrameData, 'title' | 'color'>>) => {
+    const frame = framesRef.current.find(f => f.id === frameId);
+    if (!frame) return;
+    history.execute(createFrameChangeCommand(
+      fields.title !== undefined ? `Rename frame "${frame.title}"` : `Change color of frame "${frame.title}"`,
+      { savedFrames: [frame] },
+      { savedFrames: [{ ...frame, ...fields }] },
+    )).catch(error => {
+      console.error('Failed to update frame:', error);
+      toast({ title: "Error", description: "Failed to update the frame.", variant: "destructive" });
+    });
+  }, [history, createFrameChangeCommand, toast]);
+
+  // 枠だけを消し、中のノードはそのまま残す
+  const handleFrameDelete = useCallback((frameId: string) => {
+    const frame = framesRef.current.find(f => f.id === frameId);
+    if (!frame) return;
+    const memberIds = nodesRef.current.filter(n => n.frameId === frameId).map(n => n.id);
+    history.execute(createFrameChangeCommand(
+      `Delete frame "${frame.title}"`,
+      { savedFrames: [frame], nodeFrameIds: Object.fromEntries(memberIds.map(id => [id, frameId])) },
+      { deletedFrameIds: [frameId], nodeFrameIds: Object.fromEntries(memberIds.map(id => [id, undefined])) },
+    )).catch(error => {
+      console.error('Failed to delete frame:', error);
+      toast({ title: "Error", description: "Failed to delete the frame.", variant: "destructive" });
+    });
+  }, [history, createFrameChangeCommand, toast]);
+
+  const handleFrameArrange = useCallback((frameId: string) => {
+    const frame = framesRef.current.find(f => f.id === frameId);
+    if (frame) applyHierarchicalLayout(false, frame);
+  }, [applyHierarchicalLayout]);
+
   // NodeItemに渡す onNodeDrag を修正して、ドラッグ中はノードを固定 (力指向用)
   const handleNodeDrag = useCallback(async (nodeId: string, x: number, y: number) => {
+    if (!dragStartPositionsRef.current[nodeId]) {
+      const draggedNode = nodesRef.current.find(n => n.id === nodeId);
+      if (draggedNode) {
+        dragStartPositionsRef.current[nodeId] = { x: draggedNode.x, y: draggedNode.y };
+      }
+    }
     setNodes(prevNodes =>
       prevNodes.map(node =>
         node.id === nodeId ? { ...node, x, y, fx: x, fy: y } : node // fx, fy を更新して固定
@@ -1460,6 +2929,8 @@ export default function KnowledgeCanvasPage() {
   // ここではpage.tsxで一元管理する案として)
   const handleNodeDragEnd = useCallback(async (nodeId: string) => {
       const nodeToEndDrag = nodes.find(n => n.id === nodeId);
+      const dragStartPosition = dragStartPositionsRef.current[nodeId];
+      delete dragStartPositionsRef.current[nodeId];
       if (nodeToEndDrag && window.electronAPI) {
           try {
               await window.electronAPI.updateNodePosition(nodeId, { x: nodeToEndDrag.x, y: nodeToEndDrag.y });
@@ -1467,6 +2938,21 @@ export default function KnowledgeCanvasPage() {
               console.error('Failed to update node position in DB after drag:', error);
           }
       }
+      if (nodeToEndDrag && dragStartPosition && (dragStartPosition.x !== nodeToEndDrag.x || dragStartPosition.y !== nodeToEndDrag.y)) {
+          const positionBefore = { [nodeId]: dragStartPosition };
+          const positionAfter = { [nodeId]: { x: nodeToEndDrag.x, y: nodeToEndDrag.y } };
+          // 枠の中へ落としたとき・枠の外へ出したときは、移動と一緒に所属も変える
+          const frameIdAfter = findFrameForNode(nodeToEndDrag, frames)?.id;
+          if (frameIdAfter !== nodeToEndDrag.frameId) {
+              history.execute(createFrameChangeCommand(
+                  `Move "${nodeToEndDrag.title}"`,
+                  { positions: positionBefore, nodeFrameIds: { [nodeId]: nodeToEndDrag.frameId } },
+                  { positions: positionAfter, nodeFrameIds: { [nodeId]: frameIdAfter } },
+              )).catch(error => console.error('Failed to update frame membership after drag:', error));
+          } else {
+              history.record(createMoveNodesCommand(`Move "${nodeToEndDrag.title}"`, positionBefore, positionAfter));
+          }
+      }
       // ドラッグ終了時に固定を解除 (fx, fy を null に)
       setNodes(prevNodes =>
           prevNodes.map(node =>
@@ -1475,7 +2961,7 @@ export default function KnowledgeCanvasPage() {
       );
       // 力指向レイアウトの場合、ドラッグ終了後に再シミュレーションを開始するかどうかは検討事項
       // ここでは、ドラッグされたノードは手動配置とし、他のノードへの影響は次のレイアウト適用時まで待つ
-  }, [nodes]);
+  }, [nodes, frames, history, createMoveNodesCommand, createFrameChangeCommand]);
   
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -1495,31 +2981,25 @@ export default function KnowledgeCanvasPage() {
 
   const handleConfirmDelete = async () => {
     try {
-      for (const nodeId of selectedItemsForDeletion.nodes) {
-        const nodeToDelete = nodes.find(n => n.id === nodeId);
-        if (nodeToDelete && nodeToDelete.type === 'file' && nodeToDelete.filePath && window.electronAPI) {
-          // No file deletion logic
-        }
-        if (window.electronAPI) {
-          await window.electronAPI.deleteNode(nodeId);
-        }
-      }
-
-      for (const linkId of selectedItemsForDeletion.links) {
-        if (window.electronAPI) {
-          await window.electronAPI.deleteLink(linkId);
-        }
-      }
-
-      setNodes(prevNodes => prevNodes.filter(node => !selectedItemsForDeletion.nodes.includes(node.id)));
-      setLinks(prevLinks => prevLinks.filter(link => !selectedItemsForDeletion.links.includes(link.id)));
+      // ノードに接続しているリンクも一緒に消えるので、取り消しで戻せるようにまとめて控えておく
+      const nodesToDelete = nodes.filter(node => selectedItemsForDeletion.nodes.includes(node.id));
+      const linksToDelete = links.filter(link =>
+        selectedItemsForDeletion.links.includes(link.id) ||
+        selectedItemsForDeletion.nodes.includes(link.sourceNodeId) ||
+        selectedItemsForDeletion.nodes.includes(link.targetNodeId)
+      );
+      await history.execute(createDeleteItemsCommand(
+        `Delete ${nodesToDelete.length} node(s) and ${linksToDelete.length} link(s)`,
+        nodesToDelete,
+        linksToDelete,
+      ));
 
       setSelectedItemsForDeletion({ nodes: [], links: [] });
       setIsDeleteConfirmOpen(false);
 
       toast({
         title: "Success",
-        description: `Deleted ${selectedItemsForDeletion.nodes.length} node(s) and ${selectedItemsForDeletion.links.length} link(s).`,
+        description: `Deleted ${nodesToDelete.length} node(s) and ${linksToDelete.length} link(s).`,
         variant: "default"
       });
     } catch (error) {
@@ -1568,6 +3048,17 @@ export default function KnowledgeCanvasPage() {
                     event.preventDefault();
                     shortcutFileInputRef.current?.click();
                     break;
+                case 'z':
+                case 'y':
+                    // テキスト入力中やダイアログ表示中はブラウザ標準の Undo/Redo に任せる
+                    if (isTypingInProtectedInput || isNoteDialogOpen || isEditDialogOpen) break;
+                    event.preventDefault();
+                    if (event.key.toLowerCase() === 'y' || event.shiftKey) {
+                        handleRedo();
+                    } else {
+                        handleUndo();
+                    }
+                    break;
                 case 'f':
                     event.preventDefault();
                     const searchInput = document.getElementById('toolbar-search-input') as HTMLInputElement | null;
@@ -1603,9 +3094,67 @@ export default function KnowledgeCanvasPage() {
     isLinkingMode, 
     isDeleteMode, 
     handleCreateEditDialogClose,
+    handleUndo,
+    handleRedo,
     toast
   ]);
 
+  // アプリケーションメニューからのコマンド
+  const handleMenuAction = useCallback((action: string) => {
+    const activeElement = document.activeElement;
+    const isEditingText = activeElement && (activeElement.tagName === 'INPUT' || activeElement.tagName === 'TEXTAREA');
+    switch (action) {
+      case 'undo':
+        if (isEditingText) document.execCommand('undo');
+        else handleUndo();
+        break;
+      case 'redo':
+        if (isEditingText) document.execCommand('redo');
+        else handleRedo();
+        break;
+      case 'exportCanvas':
+        handleExportCanvas();
+        break;
+      case 'importCanvas':
+        handleImportCanvas();
+        break;
+      case 'exportGraph':
+        setIsGraphExportDialogOpen(true);
+        break;
+      case 'exportImage':
+        setIsImageExportDialogOpen(true);
+        break;
+      case 'restoreBackup':
+        handleOpenBackups();
+        break;
+      case 'importMarkdownFolder':
+        handleImportMarkdownFolder();
+        break;
+      case 'exportMarkdownFolder':
+        handleExportMarkdownFolder();
+        break;
+      case 'exportJsonCanvas':
+        handleExportJsonCanvas();
+        break;
+      case 'importJsonCanvas':
+        handleImportJsonCanvas();
+        break;
+      case 'relinkFiles':
+        handleOpenRelinkDialog(true);
+        break;
+    }
+  }, [handleUndo, handleRedo, handleExportCanvas, handleImportCanvas, handleImportMarkdownFolder, handleExportMarkdownFolder, handleExportJsonCanvas, handleImportJsonCanvas, handleOpenBackups, handleOpenRelinkDialog]);
+
+  const handleMenuActionRef = useRef(handleMenuAction);
+  useEffect(() => {
+    handleMenuActionRef.current = handleMenuAction;
+  }, [handleMenuAction]);
+
+  useEffect(() => {
+    if (!window.electronAPI?.onMenuAction) return;
+    return window.electronAPI.onMenuAction(action => handleMenuActionRef.current(action));
+  }, []);
+
   // ★ 修正: タグ候補リストのフィルタリングロジック
   const displayedTagsInPopover = useMemo(() => {
     const filterTerm = tagInputValue.trim().toLowerCase();
@@ -1626,10 +3175,20 @@ export default function KnowledgeCanvasPage() {
           accept=".pdf,.docx,.doc,.txt,.jpg,.jpeg,.png,.gif,.svg,.xlsx, .xlsm,.xls,.pptx,.ppt"
       />
       <Toolbar
+        canvases={canvases}
+        activeCanvasId={activeCanvasId}
+        onSwitchCanvas={handleSwitchCanvas}
+        onCreateCanvas={handleCreateCanvas}
+        onRenameCanvas={handleRenameCanvas}
+        onDuplicateCanvas={handleDuplicateCanvas}
+        onDeleteCanvas={handleDeleteCanvas}
         onFileUpload={handleFileUpload}
         onCreateNote={handleCreateNote}
+        onAddFrame={handleAddFrame}
         onSearch={setSearchTerm}
         currentSearchTerm={searchTerm}
+        searchHits={searchHits}
+        onSearchHitSelect={handleSearchHitSelect}
         onDepthChange={handleDepthChange}
         currentDepth={searchDepth}
         onToggleLinkMode={handleToggleLinkMode}
@@ -1639,9 +3198,19 @@ export default function KnowledgeCanvasPage() {
         allTags={allTags}
         selectedFilterTags={selectedFilterTags}
         onFilterTagToggle={handleFilterTagToggle}
+        selectedRelationTypes={selectedRelationTypes}
+        onRelationTypeToggle={handleRelationTypeToggle}
         onAutoLayout={applyCurrentLayout} // 変更
         currentLayoutAlgorithm={layoutAlgorithm} // 追加
         onLayoutAlgorithmChange={setLayoutAlgorithm} // 追加
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        canUndo={history.canUndo}
+        canRedo={history.canRedo}
+        onOpenSettings={() => setIsSettingsDialogOpen(true)}
+        onOpenTrash={handleOpenTrash}
+        onOpenTagManager={handleOpenTagManager}
+        tagColors={tagColors}
       />
       <main className="flex-grow relative">
         <KnowledgeCanvas
@@ -1666,12 +3235,123 @@ export default function KnowledgeCanvasPage() {
           onNodeDragEnd={handleNodeDragEnd} // ドラッグ終了時の処理を追加 (KnowledgeCanvasコンポーネントにも追加が必要)
           onNodeContentUpdate={handleUpdateNodeContent} 
           onLinkClick={handleLinkClick}
+          onLinkDoubleClick={handleLinkDoubleClick}
+          tagColors={tagColors}
+          nodeStyleRules={appSettings.nodeStyleRules}
+          missingFileNodeIds={missingFileNodeIds}
+          fileStates={fileStates}
+          onMissingFileClick={() => handleOpenRelinkDialog(false)}
+          frames={frames}
+          onFrameDrag={handleFrameDrag}
+          onFrameDragEnd={handleFrameDragEnd}
+          onFrameResize={handleFrameResize}
+          onFrameResizeEnd={handleFrameResizeEnd}
+          onFrameUpdate={handleFrameUpdate}
+          onFrameArrange={handleFrameArrange}
+          onFrameDelete={handleFrameDelete}
         />
       </main>
       <Toaster />
 
+      <SettingsDialog
+        open={isSettingsDialogOpen}
+        onOpenChange={setIsSettingsDialogOpen}
+        settings={appSettings}
+        onSave={handleSaveSettings}
+      />
+
+      <BackupDialog
+        open={isBackupDialogOpen}
+        onOpenChange={setIsBackupDialogOpen}
+        backups={backups}
+        onCreateBackup={handleCreateBackup}
+        onPreviewBackup={handlePreviewBackup}
+        onRestoreBackup={handleRestoreBackup}
+      />
+
+      <TagManagerDialog
+        open={isTagManagerOpen}
+        onOpenChange={setIsTagManagerOpen}
+        tagUsage={tagUsage}
+        tagColors={tagColors}
+        onSave={handleSaveTagChanges}
+      />
+
+      <RelinkFilesDialog
+        open={isRelinkDialogOpen}
+        onOpenChange={setIsRelinkDialogOpen}
+        missingNodes={missingFileNodes}
+        onSearchFolder={handleSearchRelinkFolder}
+        onRelink={handleRelinkFiles}
+      />
+
+      <FolderImportDialog
+        open={pendingFolderImport !== null}
+        onOpenChange={(open) => { if (!open) setPendingFolderImport(null); }}
+        folder={pendingFolderImport?.tree ?? null}
+        existingFilePaths={existingFilePaths}
+        getFileType={getFileTypeFromFileName}
+        onImport={handleImportFolder}
+      />
+
+      <TrashDialog
+        open={isTrashDialogOpen}
+        onOpenChange={setIsTrashDialogOpen}
+        trashedNodes={trashedNodes}
+        trashedLinks={trashedLinks}
+        nodes={nodes}
+        retentionDays={appSettings.trashRetentionDays}
+        onRestoreNode={handleRestoreNodeFromTrash}
+        onRestoreLink={handleRestoreLinkFromTrash}
+        onPurgeNode={handlePurgeNodeFromTrash}
+        onPurgeLink={handlePurgeLinkFromTrash}
+        onEmptyTrash={handleEmptyTrash}
+      />
+
+      <GraphExportDialog
+        open={isGraphExportDialogOpen}
+        onOpenChange={setIsGraphExportDialogOpen}
+        allCounts={{ nodes: nodes.length, links: links.length }}
+        filteredCounts={{ nodes: filteredNodesAndLinks.displayNodes.length, links: filteredNodesAndLinks.displayLinks.length }}
+        isFiltered={isGraphFiltered}
+        onExport={handleExportGraph}
+      />
+
+      <ImageExportDialog
+        open={isImageExportDialogOpen}
+        onOpenChange={setIsImageExportDialogOpen}
+        nodeCount={nodes.length}
+        selectedNodeCount={selectedNodeIds.length}
+        onExport={handleExportImage}
+      />
+
+      <ImportCanvasDialog
+        bundle={pendingImport?.bundle || null}
+        fileName={pendingImport?.fileName || ''}
+        activeCanvasName={canvases.find(c => c.id === activeCanvasId)?.name || ''}
+        onConfirm={handleConfirmImport}
+        onCancel={() => setPendingImport(null)}
+      />
+
+      <LinkDialog
+        open={pendingLinkEndpoints !== null}
+        sourceTitle={nodes.find(n => n.id === pendingLinkEndpoints?.sourceNodeId)?.title || ''}
+        targetTitle={nodes.find(n => n.id === pendingLinkEndpoints?.targetNodeId)?.title || ''}
+        onConfirm={handleConfirmLink}
+        onCancel={handleCancelLink}
+      />
+
+      <LinkDialog
+        open={editingLink !== undefined}
+        sourceTitle={nodes.find(n => n.id === editingLink?.sourceNodeId)?.title || ''}
+        targetTitle={nodes.find(n => n.id === editingLink?.targetNodeId)?.title || ''}
+        initialDetails={editingLinkDetails}
+        onConfirm={handleSaveLinkEdit}
+        onCancel={() => setEditingLinkId(null)}
+      />
+
       <AlertDialog open={isNoteDialogOpen || isEditDialogOpen} onOpenChange={(isOpen) => { if (!isOpen) handleCreateEditDialogClose(); }}>
-        <AlertDialogContent>
+        <AlertDialogContent className={cn(isRevisionHistoryOpen && "max-w-2xl")}>
           <AlertDialogHeader>
             <AlertDialogTitle>
               {editingNodeId
@@ -1860,7 +3540,13 @@ export default function KnowledgeCanvasPage() {
                           );
                         }
                       }
-                      if (e.key === 'Enter') {
+                      // Tab は候補の階層までを入力欄に補完する（下の階層があれば "/" まで）
+                      if (e.key === 'Tab' && showTagSuggestionsDropdown && tagSuggestions.length > 0) {
+                        e.preventDefault();
+                        const suggestion = tagSuggestions[Math.max(activeTagSuggestionIndex, 0)];
+                        setTagInputValue(suggestion.hasChildren ? `${suggestion.path}/` : suggestion.path);
+                        setActiveTagSuggestionIndex(-1);
+                      } else if (e.key === 'Enter') {
                         e.preventDefault();
                         handleConfirmTagInput();
                       } else if (e.key === 'Escape') {
@@ -1933,20 +3619,21 @@ export default function KnowledgeCanvasPage() {
                       className="absolute top-full left-0 right-0 z-50 mt-1 bg-popover border border-border rounded-md shadow-lg max-h-48 overflow-y-auto"
                       style={{ width: tagInputRef.current?.offsetWidth }} // 入力フィールドの幅に合わせる
                     >
-                      {tagSuggestions.map((tag, index) => (
+                      {tagSuggestions.map((suggestion, index) => (
                         <button
-                          key={tag}
+                          key={suggestion.path}
                           type="button" // フォームの送信を防ぐ
                           className={cn(
                             "w-full text-left px-3 py-2 text-sm hover:bg-accent focus:bg-accent focus:outline-none",
                             index === activeTagSuggestionIndex && "bg-accent text-accent-foreground"
                           )}
-                          onClick={() => handleAddTagFromSuggestion(tag)}
+                          onClick={() => handleAddTagFromSuggestion(suggestion)}
                           // onMouseDown を使うことで onBlur より先にイベントを処理し、リストが消えるのを防ぐ
                           onMouseDown={(e) => e.preventDefault()} 
                           onMouseEnter={() => setActiveTagSuggestionIndex(index)}
                         >
-                          {tag}
+                          {suggestion.path}
+                          {!suggestion.isTag && <span className="text-muted-foreground">/…</span>}
                         </button>
                       ))}
                     </div>
@@ -1972,6 +3659,42 @@ export default function KnowledgeCanvasPage() {
                 </div>
               </div>
             </div>
+
+            {editingNodeId && (
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label className="text-right">Style</Label>
+                <div className="col-span-3">
+                  <NodeStyleFields
+                    idPrefix="dialog-style"
+                    style={currentEditData.style}
+                    onChange={(style) => setCurrentEditData(prev => ({ ...prev, style }))}
+                  />
+                </div>
+              </div>
+            )}
+
+            {editingNodeId && (
+              <div className="grid gap-2">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="justify-start w-fit"
+                  onClick={() => setIsRevisionHistoryOpen(prev => !prev)}
+                >
+                  <HistoryIcon className="mr-2 h-4 w-4" />
+                  {isRevisionHistoryOpen ? 'Hide History' : 'Show History'}
+                </Button>
+                {isRevisionHistoryOpen && (
+                  <RevisionHistoryPanel
+                    nodeId={editingNodeId}
+                    current={currentEditingNodeSnapshot}
+                    refreshKey={revisionRefreshKey}
+                    onRestore={handleRestoreRevision}
+                  />
+                )}
+              </div>
+            )}
           </div>
           <AlertDialogFooter>
             <AlertDialogCancel onClick={handleCreateEditDialogClose}>Cancel</AlertDialogCancel>
@@ -1982,12 +3705,33 @@ export default function KnowledgeCanvasPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <AlertDialog open={pendingMarkdownExport !== null} onOpenChange={(isOpen) => { if (!isOpen) setPendingMarkdownExport(null); }}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Remove Notes From the Earlier Export?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {pendingMarkdownExport?.staleFileNames.length} note(s) written by an earlier export to this folder are no longer on the canvas: {pendingMarkdownExport?.staleFileNames.slice(0, 5).join(', ')}{(pendingMarkdownExport?.staleFileNames.length || 0) > 5 ? ', …' : ''}. Remove them so the folder matches the canvas, or keep them? Other files in the folder are not touched.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel Export</AlertDialogCancel>
+              <AlertDialogAction onClick={() => handleConfirmMarkdownExport(false)}>Keep Them</AlertDialogAction>
+              <AlertDialogAction
+                onClick={() => handleConfirmMarkdownExport(true)}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Remove
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
       <AlertDialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
           <AlertDialogContent>
             <AlertDialogHeader>
               <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
               <AlertDialogDescription>
-                Are you sure you want to delete {selectedItemsForDeletion.nodes.length} node(s) and {selectedItemsForDeletion.links.length} link(s)? This action cannot be undone.
+                Are you sure you want to delete {selectedItemsForDeletion.nodes.length} node(s) and {selectedItemsForDeletion.links.length} link(s)? They will be moved to the trash, and you can undo this with Ctrl+Z.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
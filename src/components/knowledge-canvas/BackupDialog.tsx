@@ -0,0 +1,154 @@
+// src/components/knowledge-canvas/BackupDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { DatabaseBackup } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { BackupInfo, BackupKind, BackupPreview } from '@/types';
+
+const BACKUP_KIND_LABELS: Record<BackupKind, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  safety: 'Safety',
+  manual: 'Manual',
+  'pre-migration': 'Before upgrade',
+};
+
+interface BackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  backups: BackupInfo[];
+  onCreateBackup: () => void;
+  onPreviewBackup: (fileName: string) => Promise<BackupPreview>;
+  onRestoreBackup: (fileName: string) => void;
+}
+
+const formatSize = (size: number) => size >= 1024 * 1024
+  ? `${(size / (1024 * 1024)).toFixed(1)} MB`
+  : `${Math.max(1, Math.round(size / 1024))} KB`;
+
+// "before-empty-trash" → "before empty trash"
+const describeBackup = (backup: BackupInfo) => backup.reason
+  ? `${BACKUP_KIND_LABELS[backup.kind]} (${backup.reason.replace(/-/g, ' ')})`
+  : BACKUP_KIND_LABELS[backup.kind];
+
+export function BackupDialog({ open, onOpenChange, backups, onCreateBackup, onPreviewBackup, onRestoreBackup }: BackupDialogProps) {
+  const [selectedFileName, setSelectedFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setSelectedFileName(null);
+      setIsConfirmOpen(false);
+    }
+  }, [open]);
+
+  // 選んだバックアップを開いて件数を確かめる。結果が届く前に別のものを選んだら捨てる
+  useEffect(() => {
+    setPreview(null);
+    setPreviewError(null);
+    if (!selectedFileName) return;
+    let isCurrent = true;
+    onPreviewBackup(selectedFileName)
+      .then(result => { if (isCurrent) setPreview(result); })
+      .catch(error => {
+        console.error('Failed to read backup:', error);
+        if (isCurrent) setPreviewError('This backup could not be read.');
+      });
+    return () => { isCurrent = false; };
+  }, [selectedFileName, onPreviewBackup]);
+
+  const selectedBackup = backups.find(backup => backup.fileName === selectedFileName);
+  const canRestore = preview !== null && preview.fileName === selectedFileName && preview.isIntact;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Restore from Backup</DialogTitle>
+            <DialogDescription>
+              Backups are taken daily, weekly and before irreversible operations such as emptying the trash.
+            </DialogDescription>
+          </DialogHeader>
+          {backups.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">No backups yet.</p>
+          ) : (
+            <ul className="max-h-72 overflow-y-auto border rounded-md divide-y">
+              {backups.map(backup => (
+                <li key={backup.fileName}>
+                  <button
+                    type="button"
+                    className={cn(
+                      "flex w-full items-center gap-2 px-2 py-1.5 text-left text-sm hover:bg-accent/50",
+                      backup.fileName === selectedFileName && "bg-accent/30"
+                    )}
+                    onClick={() => setSelectedFileName(backup.fileName)}
+                  >
+                    <DatabaseBackup className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <span className="flex-grow truncate">{format(new Date(backup.createdAt), 'yyyy-MM-dd HH:mm')}</span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">{describeBackup(backup)}</span>
+                    <span className="w-16 text-right text-xs text-muted-foreground whitespace-nowrap">{formatSize(backup.size)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="min-h-[2.5rem] text-sm">
+            {selectedFileName && !preview && !previewError && <p className="text-muted-foreground">Reading backup…</p>}
+            {previewError && <p className="text-destructive">{previewError}</p>}
+            {preview && !preview.isIntact && <p className="text-destructive">This backup is damaged and cannot be restored.</p>}
+            {preview && preview.isIntact && (
+              <p>
+                Contains {preview.canvases} canvas(es), {preview.nodes} node(s) and {preview.links} link(s), not counting the trash.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" className="sm:mr-auto" onClick={onCreateBackup}>Back Up Now</Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+            <Button disabled={!canRestore} onClick={() => setIsConfirmOpen(true)}>Restore…</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Backup</AlertDialogTitle>
+            <AlertDialogDescription>
+              All canvases will be replaced with the backup from {selectedBackup ? format(new Date(selectedBackup.createdAt), 'yyyy-MM-dd HH:mm') : ''}.
+              {' '}The current data is saved as a safety backup first, and the app restarts afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => { if (selectedFileName) onRestoreBackup(selectedFileName); }}>
+              Restore and Restart
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,189 @@
+// src/components/knowledge-canvas/CanvasSwitcher.tsx
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Copy, MoreHorizontal, Pencil, Plus, PanelsTopLeft, Trash2 } from 'lucide-react';
+import type { CanvasData } from '@/types';
+
+type NameDialogMode = 'create' | 'rename' | 'duplicate';
+
+interface CanvasSwitcherProps {
+  canvases: CanvasData[];
+  activeCanvasId: string | null;
+  onSwitchCanvas: (canvasId: string) => void;
+  onCreateCanvas: (name: string) => void;
+  onRenameCanvas: (canvasId: string, name: string) => void;
+  onDuplicateCanvas: (canvasId: string, name: string) => void;
+  onDeleteCanvas: (canvasId: string) => void;
+}
+
+const NAME_DIALOG_TEXT: Record<NameDialogMode, { title: string; description: string; action: string }> = {
+  create: { title: 'New Canvas', description: 'Enter a name for the new canvas.', action: 'Create' },
+  rename: { title: 'Rename Canvas', description: 'Enter a new name for this canvas.', action: 'Rename' },
+  duplicate: { title: 'Duplicate Canvas', description: 'All nodes and links are copied into the new canvas.', action: 'Duplicate' },
+};
+
+export function CanvasSwitcher({
+  canvases,
+  activeCanvasId,
+  onSwitchCanvas,
+  onCreateCanvas,
+  onRenameCanvas,
+  onDuplicateCanvas,
+  onDeleteCanvas,
+}: CanvasSwitcherProps) {
+  const [nameDialogMode, setNameDialogMode] = useState<NameDialogMode | null>(null);
+  const [nameInputValue, setNameInputValue] = useState('');
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+
+  const activeCanvas = canvases.find(c => c.id === activeCanvasId) || null;
+
+  const openNameDialog = (mode: NameDialogMode) => {
+    if (mode === 'rename') {
+      setNameInputValue(activeCanvas?.name || '');
+    } else if (mode === 'duplicate') {
+      setNameInputValue(activeCanvas ? `${activeCanvas.name} (Copy)` : '');
+    } else {
+      setNameInputValue('');
+    }
+    setNameDialogMode(mode);
+  };
+
+  const handleConfirmName = () => {
+    const name = nameInputValue.trim();
+    if (!name || !nameDialogMode) return;
+
+    if (nameDialogMode === 'create') {
+      onCreateCanvas(name);
+    } else if (nameDialogMode === 'rename' && activeCanvasId) {
+      onRenameCanvas(activeCanvasId, name);
+    } else if (nameDialogMode === 'duplicate' && activeCanvasId) {
+      onDuplicateCanvas(activeCanvasId, name);
+    }
+    setNameDialogMode(null);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <PanelsTopLeft className="h-5 w-5 text-muted-foreground" />
+      <Select value={activeCanvasId || undefined} onValueChange={onSwitchCanvas}>
+        <SelectTrigger className="w-[180px] h-9" aria-label="Select canvas">
+          <SelectValue placeholder="Select canvas" />
+        </SelectTrigger>
+        <SelectContent>
+          {canvases.map(canvas => (
+            <SelectItem key={canvas.id} value={canvas.id}>{canvas.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="icon" className="h-9 w-9" aria-label="Canvas actions">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuItem onSelect={() => openNameDialog('create')}>
+            <Plus className="mr-2 h-4 w-4" /> New Canvas
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!activeCanvas} onSelect={() => openNameDialog('rename')}>
+            <Pencil className="mr-2 h-4 w-4" /> Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!activeCanvas} onSelect={() => openNameDialog('duplicate')}>
+            <Copy className="mr-2 h-4 w-4" /> Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            disabled={!activeCanvas || canvases.length <= 1}
+            onSelect={() => setIsDeleteConfirmOpen(true)}
+            className="text-destructive focus:text-destructive"
+          >
+            <Trash2 className="mr-2 h-4 w-4" /> Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={nameDialogMode !== null} onOpenChange={(isOpen) => { if (!isOpen) setNameDialogMode(null); }}>
+        <DialogContent>
+          {nameDialogMode && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{NAME_DIALOG_TEXT[nameDialogMode].title}</DialogTitle>
+                <DialogDescription>{NAME_DIALOG_TEXT[nameDialogMode].description}</DialogDescription>
+              </DialogHeader>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="canvas-name-input" className="text-right">Name</Label>
+                <Input
+                  id="canvas-name-input"
+                  value={nameInputValue}
+                  onChange={(e) => setNameInputValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleConfirmName();
+                    }
+                  }}
+                  className="col-span-3"
+                  autoFocus
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setNameDialogMode(null)}>Cancel</Button>
+                <Button onClick={handleConfirmName} disabled={!nameInputValue.trim()}>
+                  {NAME_DIALOG_TEXT[nameDialogMode].action}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Canvas</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete &quot;{activeCanvas?.name}&quot; with all of its nodes and links? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => { if (activeCanvasId) onDeleteCanvas(activeCanvasId); }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+// src/components/knowledge-canvas/FolderImportDialog.tsx
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DEFAULT_FOLDER_IMPORT_OPTIONS,
+  FOLDER_IMPORT_MAX_DEPTH,
+  formatGlobPatterns,
+  parseGlobPatterns,
+  selectFolderEntries,
+  type FolderImportOptions,
+  type FolderTree,
+} from '@/lib/folder-import';
+import type { FileType } from '@/types';
+
+interface FolderImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  folder: FolderTree | null;
+  // 今のキャンバスにあるファイルノードのパス（重複の数を見せるため）
+  existingFilePaths: Set<string>;
+  getFileType: (fileName: string) => FileType;
+  onImport: (options: FolderImportOptions) => void;
+}
+
+export function FolderImportDialog({ open, onOpenChange, folder, existingFilePaths, getFileType, onImport }: FolderImportDialogProps) {
+  // 入力した設定は、続けて別のフォルダを取り込むときにも使えるよう閉じても残す
+  const [maxDepth, setMaxDepth] = useState(String(DEFAULT_FOLDER_IMPORT_OPTIONS.maxDepth));
+  const [includeInput, setIncludeInput] = useState(formatGlobPatterns(DEFAULT_FOLDER_IMPORT_OPTIONS.includePatterns));
+  const [excludeInput, setExcludeInput] = useState(formatGlobPatterns(DEFAULT_FOLDER_IMPORT_OPTIONS.excludePatterns));
+  const [skipDuplicates, setSkipDuplicates] = useState(DEFAULT_FOLDER_IMPORT_OPTIONS.skipDuplicates);
+
+  const options = useMemo<FolderImportOptions>(() => {
+    const parsedDepth = Number.parseInt(maxDepth, 10);
+    return {
+      maxDepth: Number.isFinite(parsedDepth)
+        ? Math.min(Math.max(parsedDepth, 0), FOLDER_IMPORT_MAX_DEPTH)
+        : DEFAULT_FOLDER_IMPORT_OPTIONS.maxDepth,
+      includePatterns: parseGlobPatterns(includeInput),
+      excludePatterns: parseGlobPatterns(excludeInput),
+      skipDuplicates,
+    };
+  }, [maxDepth, includeInput, excludeInput, skipDuplicates]);
+
+  const selected = useMemo(
+    () => (folder ? selectFolderEntries(folder.files, options, getFileType) : []),
+    [folder, options, getFileType]
+  );
+  const duplicateCount = selected.filter(entry => existingFilePaths.has(entry.filePath)).length;
+  const importCount = skipDuplicates ? selected.length - duplicateCount : selected.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Folder{folder ? ` "${folder.folderName}"` : ''}</DialogTitle>
+          <DialogDescription>
+            Each supported file becomes a file node, and each folder becomes a note linked to what it contains.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="folder-import-depth" className="text-right">Depth</Label>
+            <Input
+              id="folder-import-depth"
+              type="number"
+              min={0}
+              max={FOLDER_IMPORT_MAX_DEPTH}
+              value={maxDepth}
+              onChange={(e) => setMaxDepth(e.target.value)}
+              className="col-span-1"
+            />
+            <p className="col-span-2 text-xs text-muted-foreground">0 imports only the files directly in the folder.</p>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="folder-import-include" className="text-right">Include</Label>
+            <Input
+              id="folder-import-include"
+              value={includeInput}
+              onChange={(e) => setIncludeInput(e.target.value)}
+              placeholder="All files (e.g. *.pdf, docs/**)"
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="folder-import-exclude" className="text-right">Exclude</Label>
+            <Input
+              id="folder-import-exclude"
+              value={excludeInput}
+              onChange={(e) => setExcludeInput(e.target.value)}
+              placeholder="Nothing (e.g. drafts, **/*.tmp.txt)"
+              className="col-span-3"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Separate patterns with commas. A pattern without &quot;/&quot; matches a file or folder name at any depth;
+            &quot;**&quot; matches any number of folders. Hidden files and node_modules are always skipped.
+          </p>
+          <div className="flex items-center gap-2">
+            <Switch id="folder-import-skip-duplicates" checked={skipDuplicates} onCheckedChange={setSkipDuplicates} />
+            <Label htmlFor="folder-import-skip-duplicates" className="font-normal">
+              Skip files that already have a node on this canvas ({duplicateCount})
+            </Label>
+          </div>
+          <p className="text-sm">
+            {importCount} file(s) will be imported.
+            {folder?.truncated && (
+              <span className="text-muted-foreground"> The folder holds too many files; only the first {folder.files.length} were read.</span>
+            )}
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onImport(options)} disabled={importCount === 0}>Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
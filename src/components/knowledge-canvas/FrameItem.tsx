@@ -0,0 +1,196 @@
+// src/components/knowledge-canvas/FrameItem.tsx
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { LayoutGrid, Palette, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import {
+  FRAME_COLORS,
+  FRAME_TITLE_HEIGHT,
+  MIN_FRAME_SIZE,
+  getFrameBackgroundColor,
+  getFrameBorderColor,
+} from '@/lib/frames';
+import type { FrameData } from '@/types';
+
+interface FrameItemProps {
+  frame: FrameData;
+  zoomLevel: number;
+  isLinkingMode: boolean;
+  onFrameDrag: (frameId: string, x: number, y: number) => void;
+  onFrameDragEnd: (frameId: string) => void;
+  onFrameResize: (frameId: string, width: number, height: number) => void;
+  onFrameResizeEnd: (frameId: string) => void;
+  onFrameUpdate: (frameId: string, fields: Partial<Pick<FrameData, 'title' | 'color'>>) => void;
+  onFrameArrange: (frameId: string) => void;
+  onFrameDelete: (frameId: string) => void;
+}
+
+// タイトルの帯をつかむと枠ごと（中のノードも）動き、右下の角で大きさを変える。
+// 枠の中の空いたところは通常のキャンバスと同じく、ドラッグでパン、ダブルクリックでノートの作成になる
+export function FrameItem({
+  frame,
+  zoomLevel,
+  isLinkingMode,
+  onFrameDrag,
+  onFrameDragEnd,
+  onFrameResize,
+  onFrameResizeEnd,
+  onFrameUpdate,
+  onFrameArrange,
+  onFrameDelete,
+}: FrameItemProps) {
+  const [interaction, setInteraction] = useState<'move' | 'resize' | null>(null);
+  const startRef = useRef<{ clientX: number; clientY: number; frame: FrameData } | null>(null);
+  const [isEditingTitle, setIsEditingTitle] = useState(false);
+  const [titleDraft, setTitleDraft] = useState(frame.title);
+
+  const startInteraction = (e: React.MouseEvent, mode: 'move' | 'resize') => {
+    // ボタンやタイトルの入力欄を押したときは、枠も動かさずキャンバスのパンも始めない
+    if ((e.target as HTMLElement).closest('[data-frame-control="true"]')) {
+      e.stopPropagation();
+      return;
+    }
+    if (e.button !== 0 || isLinkingMode) return;
+    e.preventDefault();
+    e.stopPropagation();
+    startRef.current = { clientX: e.clientX, clientY: e.clientY, frame };
+    setInteraction(mode);
+  };
+
+  const mouseMoveHandler = useCallback((e: MouseEvent) => {
+    const start = startRef.current;
+    if (!start) return;
+    const dx = (e.clientX - start.clientX) / zoomLevel;
+    const dy = (e.clientY - start.clientY) / zoomLevel;
+    if (interaction === 'move') {
+      onFrameDrag(frame.id, Math.max(0, start.frame.x + dx), Math.max(0, start.frame.y + dy));
+    } else if (interaction === 'resize') {
+      onFrameResize(
+        frame.id,
+        Math.max(MIN_FRAME_SIZE.width, start.frame.width + dx),
+        Math.max(MIN_FRAME_SIZE.height, start.frame.height + dy),
+      );
+    }
+  }, [interaction, frame.id, zoomLevel, onFrameDrag, onFrameResize]);
+
+  const mouseUpHandler = useCallback(() => {
+    if (interaction === 'move') onFrameDragEnd(frame.id);
+    if (interaction === 'resize') onFrameResizeEnd(frame.id);
+    startRef.current = null;
+    setInteraction(null);
+  }, [interaction, frame.id, onFrameDragEnd, onFrameResizeEnd]);
+
+  useEffect(() => {
+    if (!interaction) return;
+    document.addEventListener('mousemove', mouseMoveHandler);
+    document.addEventListener('mouseup', mouseUpHandler);
+    return () => {
+      document.removeEventListener('mousemove', mouseMoveHandler);
+      document.removeEventListener('mouseup', mouseUpHandler);
+    };
+  }, [interaction, mouseMoveHandler, mouseUpHandler]);
+
+  const commitTitle = () => {
+    setIsEditingTitle(false);
+    if (titleDraft.trim() !== frame.title) {
+      onFrameUpdate(frame.id, { title: titleDraft.trim() });
+    }
+  };
+
+  return (
+    <div
+      data-frame-item="true"
+      className={cn("absolute rounded-lg border-2 group", interaction && "shadow-lg")}
+      style={{
+        left: frame.x,
+        top: frame.y,
+        width: frame.width,
+        height: frame.height,
+        backgroundColor: getFrameBackgroundColor(frame.color),
+        borderColor: getFrameBorderColor(frame.color),
+      }}
+    >
+      <div
+        className={cn(
+          "flex items-center gap-1 px-2 rounded-t-md text-sm font-medium text-white",
+          isLinkingMode ? "cursor-default" : interaction === 'move' ? "cursor-grabbing" : "cursor-grab"
+        )}
+        style={{ height: FRAME_TITLE_HEIGHT, backgroundColor: frame.color }}
+        onMouseDown={(e) => startInteraction(e, 'move')}
+        onDoubleClick={(e) => {
+          e.stopPropagation();
+          if ((e.target as HTMLElement).closest('[data-frame-control="true"]')) return;
+          setTitleDraft(frame.title);
+          setIsEditingTitle(true);
+        }}
+      >
+        {isEditingTitle ? (
+          <Input
+            data-frame-control="true"
+            value={titleDraft}
+            onChange={(e) => setTitleDraft(e.target.value)}
+            onBlur={commitTitle}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitTitle();
+              if (e.key === 'Escape') setIsEditingTitle(false);
+            }}
+            className="h-6 text-sm text-foreground"
+            autoFocus
+          />
+        ) : (
+          <span className="flex-grow truncate" title="Double-click to rename">{frame.title || 'Untitled frame'}</span>
+        )}
+        <div data-frame-control="true" className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-white hover:bg-white/20 hover:text-white"
+            onClick={() => onFrameArrange(frame.id)}
+            aria-label="Arrange nodes in frame"
+            title="Arrange the nodes in this frame (hierarchical layout)"
+          >
+            <LayoutGrid className="h-3.5 w-3.5" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-6 w-6 text-white hover:bg-white/20 hover:text-white" aria-label="Frame color" title="Color">
+                <Palette className="h-3.5 w-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {FRAME_COLORS.map(color => (
+                <DropdownMenuItem key={color.value} onSelect={() => onFrameUpdate(frame.id, { color: color.value })}>
+                  <span className="mr-2 h-3 w-3 rounded-full" style={{ backgroundColor: color.value }} />
+                  {color.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-white hover:bg-white/20 hover:text-white"
+            onClick={() => onFrameDelete(frame.id)}
+            aria-label="Delete frame"
+            title="Delete frame (keeps its nodes)"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+      <div
+        className={cn("absolute bottom-0 right-0 h-4 w-4", !isLinkingMode && "cursor-nwse-resize")}
+        style={{ borderRight: `3px solid ${frame.color}`, borderBottom: `3px solid ${frame.color}`, borderBottomRightRadius: 6 }}
+        onMouseDown={(e) => startInteraction(e, 'resize')}
+        aria-label="Resize frame"
+      />
+    </div>
+  );
+}
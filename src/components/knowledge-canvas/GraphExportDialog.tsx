@@ -0,0 +1,88 @@
+// src/components/knowledge-canvas/GraphExportDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { GRAPH_EXPORT_FORMATS, type GraphExportFormat } from '@/lib/graph-export';
+
+// 'filtered' は検索・タグ・関係の絞り込みで表示中のノードとリンクだけ
+export type GraphExportScope = 'all' | 'filtered';
+
+interface GraphItemCounts {
+  nodes: number;
+  links: number;
+}
+
+interface GraphExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  allCounts: GraphItemCounts;
+  filteredCounts: GraphItemCounts;
+  isFiltered: boolean;
+  onExport: (format: GraphExportFormat, scope: GraphExportScope) => void;
+}
+
+export function GraphExportDialog({ open, onOpenChange, allCounts, filteredCounts, isFiltered, onExport }: GraphExportDialogProps) {
+  const [format, setFormat] = useState<GraphExportFormat>('graphml');
+  const [scope, setScope] = useState<GraphExportScope>('all');
+
+  // 絞り込み中に開いたときは、表示中のものだけを書き出すのを既定にする
+  useEffect(() => {
+    if (open) {
+      setScope(isFiltered ? 'filtered' : 'all');
+    }
+  }, [open, isFiltered]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Graph</DialogTitle>
+          <DialogDescription>Save the nodes and links for analysis in tools such as Gephi, yEd or Graphviz.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="graph-export-format" className="text-right">Format</Label>
+            <Select value={format} onValueChange={(value: GraphExportFormat) => setFormat(value)}>
+              <SelectTrigger id="graph-export-format" className="col-span-3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GRAPH_EXPORT_FORMATS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <RadioGroup value={scope} onValueChange={(value: GraphExportScope) => setScope(value)} className="gap-3">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="all" id="graph-export-scope-all" />
+              <Label htmlFor="graph-export-scope-all" className="font-normal">
+                Whole canvas ({allCounts.nodes} nodes, {allCounts.links} links)
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="filtered" id="graph-export-scope-filtered" disabled={!isFiltered} />
+              <Label htmlFor="graph-export-scope-filtered" className="font-normal">
+                Current filter only ({filteredCounts.nodes} nodes, {filteredCounts.links} links)
+              </Label>
+            </div>
+          </RadioGroup>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onExport(format, scope)}>Export…</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,160 @@
+// src/components/knowledge-canvas/ImageExportDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  IMAGE_EXPORT_BACKGROUNDS,
+  IMAGE_EXPORT_FORMATS,
+  IMAGE_EXPORT_SCALES,
+  type ImageExportBackground,
+  type ImageExportFormat,
+} from '@/lib/image-export';
+
+// 'selection' は連結モードや削除モードで選んでいるノードと、その間のリンクだけ
+export type ImageExportScope = 'all' | 'selection';
+
+export interface ImageExportSettings {
+  format: ImageExportFormat;
+  scope: ImageExportScope;
+  scale: number;
+  margin: number;
+  background: ImageExportBackground;
+  hideChrome: boolean;
+}
+
+const DEFAULT_MARGIN = 40;
+const MAX_MARGIN = 1000;
+
+interface ImageExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  nodeCount: number;
+  selectedNodeCount: number;
+  onExport: (settings: ImageExportSettings) => void;
+}
+
+export function ImageExportDialog({ open, onOpenChange, nodeCount, selectedNodeCount, onExport }: ImageExportDialogProps) {
+  const [format, setFormat] = useState<ImageExportFormat>('png');
+  const [scope, setScope] = useState<ImageExportScope>('all');
+  const [scale, setScale] = useState(2);
+  const [margin, setMargin] = useState(String(DEFAULT_MARGIN));
+  const [background, setBackground] = useState<ImageExportBackground>('white');
+  const [hideChrome, setHideChrome] = useState(true);
+
+  // 選択中のノードがあるときに開いたら、選択分だけを書き出すのを既定にする
+  useEffect(() => {
+    if (open) {
+      setScope(selectedNodeCount > 0 ? 'selection' : 'all');
+    }
+  }, [open, selectedNodeCount]);
+
+  const handleExport = () => {
+    const parsedMargin = Number.parseInt(margin, 10);
+    onExport({
+      format,
+      scope,
+      scale,
+      margin: Number.isFinite(parsedMargin) ? Math.min(Math.max(parsedMargin, 0), MAX_MARGIN) : DEFAULT_MARGIN,
+      background,
+      hideChrome,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Image</DialogTitle>
+          <DialogDescription>Save the node cards, tags and links as a picture for reports and slides.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="image-export-format" className="text-right">Format</Label>
+            <Select value={format} onValueChange={(value: ImageExportFormat) => setFormat(value)}>
+              <SelectTrigger id="image-export-format" className="col-span-3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IMAGE_EXPORT_FORMATS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="image-export-scale" className="text-right">Scale</Label>
+            <Select value={String(scale)} onValueChange={(value) => setScale(Number(value))}>
+              <SelectTrigger id="image-export-scale" className="col-span-3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IMAGE_EXPORT_SCALES.map(option => (
+                  <SelectItem key={option} value={String(option)}>{option}×</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="image-export-background" className="text-right">Background</Label>
+            <Select value={background} onValueChange={(value: ImageExportBackground) => setBackground(value)}>
+              <SelectTrigger id="image-export-background" className="col-span-3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IMAGE_EXPORT_BACKGROUNDS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="image-export-margin" className="text-right">Margin (px)</Label>
+            <Input
+              id="image-export-margin"
+              type="number"
+              min={0}
+              max={MAX_MARGIN}
+              value={margin}
+              onChange={(e) => setMargin(e.target.value)}
+              className="col-span-3"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="image-export-hide-chrome" checked={hideChrome} onCheckedChange={setHideChrome} />
+            <Label htmlFor="image-export-hide-chrome" className="font-normal">
+              Hide UI chrome (type icons, open buttons and selection outlines)
+            </Label>
+          </div>
+          <RadioGroup value={scope} onValueChange={(value: ImageExportScope) => setScope(value)} className="gap-3">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="all" id="image-export-scope-all" />
+              <Label htmlFor="image-export-scope-all" className="font-normal">Whole canvas ({nodeCount} nodes)</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="selection" id="image-export-scope-selection" disabled={selectedNodeCount === 0} />
+              <Label htmlFor="image-export-scope-selection" className="font-normal">
+                Selected nodes only ({selectedNodeCount} nodes)
+              </Label>
+            </div>
+          </RadioGroup>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleExport} disabled={nodeCount === 0}>Export…</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+// src/components/knowledge-canvas/ImportCanvasDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { CanvasBundle } from '@/lib/canvas-bundle';
+
+export type CanvasImportMode = 'merge' | 'replace';
+
+interface ImportCanvasDialogProps {
+  // 読み込み済みで検証も済んだファイル。null のときは閉じている
+  bundle: CanvasBundle | null;
+  fileName: string;
+  activeCanvasName: string;
+  onConfirm: (mode: CanvasImportMode) => void;
+  onCancel: () => void;
+}
+
+export function ImportCanvasDialog({ bundle, fileName, activeCanvasName, onConfirm, onCancel }: ImportCanvasDialogProps) {
+  const [mode, setMode] = useState<CanvasImportMode>('merge');
+
+  useEffect(() => {
+    if (bundle) {
+      setMode('merge');
+    }
+  }, [bundle]);
+
+  const exportedAt = bundle ? new Date(bundle.exportedAt) : null;
+
+  return (
+    <Dialog open={bundle !== null} onOpenChange={(isOpen) => { if (!isOpen) onCancel(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Canvas</DialogTitle>
+          <DialogDescription>
+            {fileName}: &quot;{bundle?.canvas.name}&quot; with {bundle?.nodes.length} node(s) and {bundle?.links.length} link(s)
+            {exportedAt && !Number.isNaN(exportedAt.getTime()) && <>, exported {format(exportedAt, 'yyyy-MM-dd HH:mm')}</>}.
+          </DialogDescription>
+        </DialogHeader>
+        <RadioGroup value={mode} onValueChange={(value: CanvasImportMode) => setMode(value)} className="gap-3 py-2">
+          <div className="flex items-start gap-2">
+            <RadioGroupItem value="merge" id="import-mode-merge" className="mt-1" />
+            <Label htmlFor="import-mode-merge" className="font-normal leading-snug">
+              <span className="font-medium">Merge</span> — add the imported nodes and links next to the ones already on &quot;{activeCanvasName}&quot;.
+            </Label>
+          </div>
+          <div className="flex items-start gap-2">
+            <RadioGroupItem value="replace" id="import-mode-replace" className="mt-1" />
+            <Label htmlFor="import-mode-replace" className="font-normal leading-snug">
+              <span className="font-medium">Replace</span> — move everything on &quot;{activeCanvasName}&quot; to the trash, then import.
+            </Label>
+          </div>
+        </RadioGroup>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm(mode)}>Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
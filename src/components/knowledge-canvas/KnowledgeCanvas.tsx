@@ -1,7 +1,9 @@
 import React from 'react';
-import type { NodeData, LinkData } from '@/types';
+import type { NodeData, LinkData, TagColors, FrameData, NodeStyleRule, NodeFileState } from '@/types';
 import { NodeItem } from './NodeItem';
+import { FrameItem } from './FrameItem';
 import { cn } from '@/lib/utils';
+import { getLinkDashArray, getLinkDirection, getLinkDisplayText, getLinkStrokeWidth } from '@/lib/link-relations';
 
 interface KnowledgeCanvasProps {
   nodes: NodeData[];
@@ -25,6 +27,20 @@ interface KnowledgeCanvasProps {
   canvasRef: React.RefObject<HTMLDivElement>;
   onNodeContentUpdate: (nodeId: string, newContent: string) => void; // ★ 新しいプロパティ
   onLinkClick?: (linkId: string) => void;
+  onLinkDoubleClick?: (linkId: string) => void;
+  tagColors: TagColors;
+  nodeStyleRules: NodeStyleRule[];
+  missingFileNodeIds: Set<string>;
+  fileStates: Record<string, NodeFileState>;
+  onMissingFileClick: (nodeId: string) => void;
+  frames: FrameData[];
+  onFrameDrag: (frameId: string, x: number, y: number) => void;
+  onFrameDragEnd: (frameId: string) => void;
+  onFrameResize: (frameId: string, width: number, height: number) => void;
+  onFrameResizeEnd: (frameId: string) => void;
+  onFrameUpdate: (frameId: string, fields: Partial<Pick<FrameData, 'title' | 'color'>>) => void;
+  onFrameArrange: (frameId: string) => void;
+  onFrameDelete: (frameId: string) => void;
 }
 
 export function KnowledgeCanvas({
@@ -49,6 +65,20 @@ export function KnowledgeCanvas({
   canvasRef,
   onNodeContentUpdate, // ★ 新しいプロパティを受け取る
   onLinkClick,
+  onLinkDoubleClick,
+  tagColors,
+  nodeStyleRules,
+  missingFileNodeIds,
+  fileStates,
+  onMissingFileClick,
+  frames,
+  onFrameDrag,
+  onFrameDragEnd,
+  onFrameResize,
+  onFrameResizeEnd,
+  onFrameUpdate,
+  onFrameArrange,
+  onFrameDelete,
 }: KnowledgeCanvasProps) {
   const [isDraggingOver, setIsDraggingOver] = React.useState(false);
 
@@ -82,7 +112,7 @@ export function KnowledgeCanvas({
     }
   };
 
-  const getNodeCenter = (node: NodeData) => {
+  const getNodeSize = (node: NodeData) => {
     const width = node.width || 256;
     let height = node.height;
     if (!height) {
@@ -92,12 +122,32 @@ export function KnowledgeCanvas({
         height = cardHeaderHeight + cardContentHeight + (node.type === 'note' ? 20 : 10) ;
         height = Math.max(height, baseCardHeight);
     }
+    return { width, height };
+  };
+
+  const getNodeCenter = (node: NodeData) => {
+    const { width, height } = getNodeSize(node);
     return {
       x: node.x + width / 2,
       y: node.y + height / 2,
     };
   };
 
+  // 中心を結ぶ線のうち、両端のカードの外に出ている部分（0〜1 の割合）。カードが重なっていれば null。
+  // クリック用の太い当たり判定をここだけに置き、カードの操作を邪魔しないようにする
+  const getVisibleLinkRange = (source: NodeData, target: NodeData, dx: number, dy: number) => {
+    const exitRatio = (node: NodeData) => {
+      const { width, height } = getNodeSize(node);
+      return Math.min(
+        dx === 0 ? Infinity : width / 2 / Math.abs(dx),
+        dy === 0 ? Infinity : height / 2 / Math.abs(dy),
+      );
+    };
+    const start = exitRatio(source);
+    const end = 1 - exitRatio(target);
+    return start < end ? { start, end } : null;
+  };
+
 
   return (
     <div
@@ -126,6 +176,22 @@ export function KnowledgeCanvas({
           height: '5000px', // 十分な高さ
         }}
       >
+        {/* 枠はノードより先に描いて後ろに置く */}
+        {frames.map((frame) => (
+          <FrameItem
+            key={frame.id}
+            frame={frame}
+            zoomLevel={zoomLevel}
+            isLinkingMode={isLinkingMode}
+            onFrameDrag={onFrameDrag}
+            onFrameDragEnd={onFrameDragEnd}
+            onFrameResize={onFrameResize}
+            onFrameResizeEnd={onFrameResizeEnd}
+            onFrameUpdate={onFrameUpdate}
+            onFrameArrange={onFrameArrange}
+            onFrameDelete={onFrameDelete}
+          />
+        ))}
         {nodes.map((node) => (
           <NodeItem
             key={node.id}
@@ -142,6 +208,11 @@ export function KnowledgeCanvas({
             isSelectedForDeletion={selectedItemsForDeletion.nodes.includes(node.id)}
             zoomLevel={zoomLevel}
             onContentUpdate={onNodeContentUpdate} // ★ プロパティを渡す
+            tagColors={tagColors}
+            nodeStyleRules={nodeStyleRules}
+            isFileMissing={missingFileNodeIds.has(node.id)}
+            fileState={fileStates[node.id]}
+            onMissingFileClick={onMissingFileClick}
           />
         ))}
         <svg
@@ -156,41 +227,94 @@ export function KnowledgeCanvas({
             const targetCenter = getNodeCenter(targetNode);
 
             const isSelectedForDeletion = selectedItemsForDeletion.links.includes(link.id);
+            const displayText = getLinkDisplayText(link);
+            const direction = getLinkDirection(link);
+            const baseStrokeWidth = getLinkStrokeWidth(link);
+            const strokeWidth = (isSelectedForDeletion ? baseStrokeWidth + 1.5 : baseStrokeWidth) / zoomLevel;
+            // 矢印の大きさは線の太さほどには変えない
+            const markerSize = (12 + baseStrokeWidth * 1.5) / zoomLevel;
+            const markerId = `arrow-${link.id}`;
+            const dx = targetCenter.x - sourceCenter.x;
+            const dy = targetCenter.y - sourceCenter.y;
+            const hitRange = isLinkingMode ? null : getVisibleLinkRange(sourceNode, targetNode, dx, dy);
             
             return (
-              <line
-                key={link.id}
-                x1={sourceCenter.x}
-                y1={sourceCenter.y}
-                x2={targetCenter.x}
-                y2={targetCenter.y}
-                className={isDeleteMode ? 
-                  `stroke-primary ${isSelectedForDeletion ? 'stroke-destructive opacity-90' : 'opacity-70'} cursor-pointer` :
-                  "stroke-primary opacity-70"
-                }
-                strokeWidth={isSelectedForDeletion ? 4 / zoomLevel : 2.5 / zoomLevel}
-                markerEnd="url(#arrow)"
-                onClick={isDeleteMode ? (e) => {
-                  e.stopPropagation();
-                  onLinkClick?.(link.id);
-                } : undefined}
-                style={{ pointerEvents: isDeleteMode ? 'stroke' : 'none' }}
-              />
+              <g key={link.id}>
+                {direction !== 'none' && (
+                  <defs>
+                    <marker
+                      id={markerId}
+                      viewBox="0 0 10 10"
+                      refX="8"
+                      refY="5"
+                      markerUnits="userSpaceOnUse"
+                      markerWidth={markerSize}
+                      markerHeight={markerSize}
+                      orient="auto-start-reverse"
+                    >
+                      <path
+                        d="M 0 0 L 10 5 L 0 10 z"
+                        className={cn(!link.color && "fill-primary", isSelectedForDeletion && "fill-destructive", "opacity-70")}
+                        fill={link.color}
+                      />
+                    </marker>
+                  </defs>
+                )}
+                <line
+                  x1={sourceCenter.x}
+                  y1={sourceCenter.y}
+                  x2={targetCenter.x}
+                  y2={targetCenter.y}
+                  className={cn(
+                    !link.color && "stroke-primary",
+                    isSelectedForDeletion ? "stroke-destructive opacity-90" : "opacity-70"
+                  )}
+                  stroke={link.color}
+                  strokeWidth={strokeWidth}
+                  strokeDasharray={getLinkDashArray(link, strokeWidth)}
+                  markerEnd={direction !== 'none' ? `url(#${markerId})` : undefined}
+                  markerStart={direction === 'both' ? `url(#${markerId})` : undefined}
+                />
+                {hitRange && (
+                  <line
+                    x1={sourceCenter.x + dx * hitRange.start}
+                    y1={sourceCenter.y + dy * hitRange.start}
+                    x2={sourceCenter.x + dx * hitRange.end}
+                    y2={sourceCenter.y + dy * hitRange.end}
+                    stroke="transparent"
+                    strokeWidth={Math.max(12, baseStrokeWidth + 8) / zoomLevel}
+                    className="cursor-pointer"
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (isDeleteMode) onLinkClick?.(link.id);
+                    }}
+                    onDoubleClick={(e) => {
+                      e.stopPropagation();
+                      onLinkDoubleClick?.(link.id);
+                    }}
+                    style={{ pointerEvents: 'stroke' }}
+                  >
+                    <title>{isDeleteMode ? 'Select link for deletion' : 'Double-click to edit link'}</title>
+                  </line>
+                )}
+                {displayText && (
+                  <text
+                    x={(sourceCenter.x + targetCenter.x) / 2}
+                    y={(sourceCenter.y + targetCenter.y) / 2}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    className="fill-foreground text-xs"
+                    stroke="hsl(var(--background))"
+                    strokeWidth={4}
+                    paintOrder="stroke"
+                  >
+                    {displayText}
+                  </text>
+                )}
+              </g>
             );
           })}
-          <defs>
-            <marker
-              id="arrow"
-              viewBox="0 0 10 10"
-              refX="8"
-              refY="5"
-              markerWidth="6"
-              markerHeight="6"
-              orient="auto-start-reverse"
-            >
-              <path d="M 0 0 L 10 5 L 0 10 z" className="fill-primary opacity-70" />
-            </marker>
-          </defs>
         </svg>
       </div>
        {isDraggingOver && (
@@ -0,0 +1,193 @@
+// src/components/knowledge-canvas/LinkDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { LinkDirection, LinkLineStyle, LinkRelationType } from '@/types';
+import {
+  DEFAULT_LINK_DIRECTION,
+  DEFAULT_LINK_LINE_STYLE,
+  DEFAULT_LINK_RELATION_TYPE,
+  DEFAULT_LINK_WEIGHT,
+  LINK_DIRECTIONS,
+  LINK_LINE_STYLES,
+  LINK_RELATION_TYPES,
+  LINK_WEIGHT_LIMITS,
+  clampLinkWeight,
+} from '@/lib/link-relations';
+import { TAG_COLORS } from '@/lib/tags';
+
+export interface LinkDetails {
+  relationType: LinkRelationType;
+  label: string;
+  direction: LinkDirection;
+  lineStyle: LinkLineStyle;
+  color: string | null; // null ならテーマの色
+  weight: number;
+}
+
+const DEFAULT_LINK_DETAILS: LinkDetails = {
+  relationType: DEFAULT_LINK_RELATION_TYPE,
+  label: '',
+  direction: DEFAULT_LINK_DIRECTION,
+  lineStyle: DEFAULT_LINK_LINE_STYLE,
+  color: null,
+  weight: DEFAULT_LINK_WEIGHT,
+};
+
+// Select の値に空文字は使えないので、既定の色はこの値で表す
+const DEFAULT_COLOR = 'default';
+
+interface LinkDialogProps {
+  open: boolean;
+  sourceTitle: string;
+  targetTitle: string;
+  // 既存のリンクを編集するときに渡す。無ければ新しいリンクを作る
+  initialDetails?: LinkDetails;
+  onConfirm: (details: LinkDetails) => void;
+  onCancel: () => void;
+}
+
+export function LinkDialog({ open, sourceTitle, targetTitle, initialDetails, onConfirm, onCancel }: LinkDialogProps) {
+  const [details, setDetails] = useState<LinkDetails>(DEFAULT_LINK_DETAILS);
+  // 重さは入力途中の値を文字列のまま持ち、確定時に範囲内に丸める
+  const [weightInput, setWeightInput] = useState(String(DEFAULT_LINK_WEIGHT));
+  const isEditing = initialDetails !== undefined;
+
+  // 開くたびに入力をリセットする（編集のときは今の設定から始める）
+  useEffect(() => {
+    if (open) {
+      const startDetails = initialDetails || DEFAULT_LINK_DETAILS;
+      setDetails(startDetails);
+      setWeightInput(String(startDetails.weight));
+    }
+  }, [open, initialDetails]);
+
+  const updateDetails = (fields: Partial<LinkDetails>) => {
+    setDetails(prev => ({ ...prev, ...fields }));
+  };
+
+  const handleConfirm = () => {
+    onConfirm({ ...details, label: details.label.trim(), weight: clampLinkWeight(parseFloat(weightInput)) });
+  };
+
+  const arrow = details.direction === 'both' ? '↔' : details.direction === 'none' ? '—' : '→';
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onCancel(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Link' : 'Link Nodes'}</DialogTitle>
+          <DialogDescription>
+            &quot;{sourceTitle}&quot; {arrow} &quot;{targetTitle}&quot;
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="link-relation-type" className="text-right">Relation</Label>
+            <Select value={details.relationType} onValueChange={(value: LinkRelationType) => updateDetails({ relationType: value })}>
+              <SelectTrigger id="link-relation-type" className="col-span-3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LINK_RELATION_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="link-label" className="text-right">Label</Label>
+            <Input
+              id="link-label"
+              value={details.label}
+              onChange={(e) => updateDetails({ label: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleConfirm();
+                }
+              }}
+              className="col-span-3"
+              placeholder="Optional"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="link-direction" className="text-right">Direction</Label>
+            <Select value={details.direction} onValueChange={(value: LinkDirection) => updateDetails({ direction: value })}>
+              <SelectTrigger id="link-direction" className="col-span-3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LINK_DIRECTIONS.map(direction => (
+                  <SelectItem key={direction.value} value={direction.value}>{direction.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="link-line-style" className="text-right">Line</Label>
+            <Select value={details.lineStyle} onValueChange={(value: LinkLineStyle) => updateDetails({ lineStyle: value })}>
+              <SelectTrigger id="link-line-style" className="col-span-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LINK_LINE_STYLES.map(lineStyle => (
+                  <SelectItem key={lineStyle.value} value={lineStyle.value}>{lineStyle.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={details.color || DEFAULT_COLOR}
+              onValueChange={(value) => updateDetails({ color: value === DEFAULT_COLOR ? null : value })}
+            >
+              <SelectTrigger className="col-span-2" aria-label="Link color">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_COLOR}>Default color</SelectItem>
+                {TAG_COLORS.map(color => (
+                  <SelectItem key={color.value} value={color.value}>
+                    <span className="flex items-center gap-2">
+                      <span className="h-3 w-3 rounded-full" style={{ backgroundColor: color.value }} />
+                      {color.label}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="link-weight" className="text-right">Weight</Label>
+            <Input
+              id="link-weight"
+              type="number"
+              min={LINK_WEIGHT_LIMITS.min}
+              max={LINK_WEIGHT_LIMITS.max}
+              step={0.5}
+              value={weightInput}
+              onChange={(e) => setWeightInput(e.target.value)}
+              className="col-span-1"
+            />
+            <p className="col-span-2 text-xs text-muted-foreground">
+              Heavier links are drawn thicker and pull harder in the force-directed layout.
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleConfirm}>{isEditing ? 'Save Changes' : 'Create Link'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
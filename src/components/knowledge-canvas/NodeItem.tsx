@@ -2,14 +2,17 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
-import type { NodeData } from '@/types';
-import { FileText, StickyNote as NoteIcon, Image as ImageIcon, ExternalLink, Link as LinkIconLucide } from 'lucide-react';
+import type { NodeData, NodeFileState, NodeIconName, NodeStyleRule, TagColors } from '@/types';
+import { FileText, StickyNote as NoteIcon, Image as ImageIcon, ExternalLink, Link as LinkIconLucide, Star, Flag, AlertTriangle, Lightbulb, CheckCircle2, HelpCircle, Bookmark, Heart, type LucideIcon } from 'lucide-react';
 import { FilePdfIcon } from '@/components/icons/FilePdfIcon';
 import { FileDocxIcon } from '@/components/icons/FileDocxIcon';
 import { FileExcelIcon } from '@/components/icons/FileExcelIcon'; // ★ 追加
 import { FilePowerpointIcon } from '@/components/icons/FilePowerpointIcon'; // ★ 追加
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { getTagBadgeStyle } from '@/lib/tags';
+import { getNodeCardStyle, resolveNodeStyle } from '@/lib/node-styles';
+import { formatFileMtime, formatFileSize, isModifiedSinceViewed } from '@/lib/file-states';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 
@@ -27,8 +30,26 @@ interface NodeItemProps {
   isSelectedForDeletion: boolean;
   zoomLevel: number;
   onContentUpdate: (nodeId: string, newContent: string) => void;
+  tagColors: TagColors;
+  nodeStyleRules: NodeStyleRule[];
+  // ファイルノードの参照先が見つからない（移動・削除された）とき true
+  isFileMissing: boolean;
+  // ファイルノードの参照先の大きさ・更新日時（ファイル監視で更新される）
+  fileState?: NodeFileState;
+  onMissingFileClick: (nodeId: string) => void;
 }
 
+const STYLE_ICONS: Record<NodeIconName, LucideIcon> = {
+  star: Star,
+  flag: Flag,
+  alert: AlertTriangle,
+  idea: Lightbulb,
+  check: CheckCircle2,
+  question: HelpCircle,
+  bookmark: Bookmark,
+  heart: Heart,
+};
+
 export function NodeItem({
   node,
   isSelected,
@@ -43,13 +64,27 @@ export function NodeItem({
   isSelectedForDeletion,
   zoomLevel,
   onContentUpdate,
+  tagColors,
+  nodeStyleRules,
+  isFileMissing,
+  fileState,
+  onMissingFileClick,
 }: NodeItemProps) {
   const [isDragging, setIsDragging] = useState(false);
   const dragStartRef = useRef<{ x: number; y: number; nodeX: number; nodeY: number } | null>(null);
   const didDragRef = useRef(false);
   const { toast } = useToast();
+  const nodeStyle = resolveNodeStyle(node, nodeStyleRules);
 
   const renderIcon = () => {
+    // 見た目の設定で選んだ絵文字・アイコンは、種類のアイコンより優先する
+    if (nodeStyle.emoji) {
+      return <span className="block h-6 min-w-6 text-xl leading-6 text-center" role="img" aria-hidden="true">{nodeStyle.emoji}</span>;
+    }
+    if (nodeStyle.icon) {
+      const StyleIcon = STYLE_ICONS[nodeStyle.icon];
+      return <StyleIcon className={cn("h-6 w-6", !nodeStyle.backgroundColor && "text-primary")} style={{ color: nodeStyle.backgroundColor }} />;
+    }
     if (node.type === 'note') {
       return <NoteIcon className="h-6 w-6 text-primary" />;
     }
@@ -146,7 +181,8 @@ export function NodeItem({
     e.stopPropagation();
     if (node.type === 'file' && node.filePath && window.electronAPI) {
       try {
-        const success = await window.electronAPI.openLocalFile(node.filePath);
+        // ノードの id を渡すと、開いた版を「見た」ものとして覚える
+        const success = await window.electronAPI.openLocalFile(node.filePath, node.id);
         if (!success) {
           // Error handled in main
         }
@@ -212,7 +248,10 @@ export function NodeItem({
         top: node.y,
         width: nodeWidth,
         minHeight: (node.type === 'note' || node.type === 'link') ? (node.content ? 160 : 100) : 160, // Adjusted for link description
-        height: nodeHeight
+        height: nodeHeight,
+        ...getNodeCardStyle(nodeStyle),
+        // 見つからないファイルは見た目の設定より警告を優先する
+        ...(isFileMissing && { borderColor: 'hsl(var(--destructive))', borderStyle: 'dashed', borderWidth: 2 }),
       }}
       onMouseDown={handleMouseDown} // ここで isDragging が true になる
       onClick={handleClick}
@@ -227,6 +266,28 @@ export function NodeItem({
               {node.title}
             </CardTitle>
             {node.fileType && <CardDescription className="text-xs">{node.fileType}</CardDescription>} {/* */}
+            {!isFileMissing && fileState?.status === 'ok' && fileState.fileSize !== null && fileState.fileMtimeMs !== null && (
+              <p className="text-xs text-muted-foreground truncate" title={node.filePath}>
+                {formatFileSize(fileState.fileSize)} · {formatFileMtime(fileState.fileMtimeMs)}
+              </p>
+            )}
+            {!isFileMissing && isModifiedSinceViewed(fileState) && (
+              <Badge variant="outline" className="mt-1 text-xs border-amber-500 text-amber-600" title="The file changed since it was last opened from this node">
+                Modified since last viewed
+              </Badge>
+            )}
+            {isFileMissing && (
+              <button
+                type="button"
+                data-open-file-button="true"
+                className="mt-1 inline-flex items-center gap-1 rounded-sm text-xs font-medium text-destructive hover:underline"
+                onClick={(e) => { e.stopPropagation(); onMissingFileClick(node.id); }}
+                title={`Not found: ${node.filePath}. Click to find the file.`}
+              >
+                <AlertTriangle className="h-3.5 w-3.5" />
+                File not found
+              </button>
+            )}
           </div>
             {(node.type === 'file' && node.filePath || node.type === 'link' && node.url) && (
               <Button
@@ -259,7 +320,7 @@ export function NodeItem({
       {(node.tags && node.tags.length > 0) && (
         <CardFooter className="p-3 pt-1 flex flex-wrap gap-1 border-t mt-auto"> {/* */}
           {node.tags.map((tag, index) => (
-            <Badge key={index} variant="secondary" className="text-xs"> {/* */}
+            <Badge key={index} variant="secondary" className="text-xs" style={getTagBadgeStyle(tagColors[tag])}> {/* */}
               {tag}
             </Badge>
           ))}
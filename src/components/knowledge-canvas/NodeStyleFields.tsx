@@ -0,0 +1,89 @@
+// src/components/knowledge-canvas/NodeStyleFields.tsx
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { NODE_BORDER_STYLES, NODE_COLORS, NODE_ICONS, NODE_SIZES } from '@/lib/node-styles';
+import type { NodeStyle } from '@/types';
+
+// Select の値に空文字は使えないので、未設定はこの値で表す
+const DEFAULT_VALUE = 'default';
+
+interface NodeStyleFieldsProps {
+  style: NodeStyle;
+  onChange: (style: NodeStyle) => void;
+  // タグのルールでは大きさを選ばせない
+  showSize?: boolean;
+  idPrefix: string;
+}
+
+// ノードの編集ダイアログと、設定のタグのルールで使う見た目の入力欄
+export function NodeStyleFields({ style, onChange, showSize = true, idPrefix }: NodeStyleFieldsProps) {
+  const update = <K extends keyof NodeStyle>(key: K, value: NodeStyle[K] | typeof DEFAULT_VALUE) => {
+    onChange({ ...style, [key]: value === DEFAULT_VALUE ? undefined : value });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={style.backgroundColor || DEFAULT_VALUE} onValueChange={(value) => update('backgroundColor', value)}>
+        <SelectTrigger id={`${idPrefix}-color`} className="h-8 w-28" aria-label="Color">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_VALUE}>No color</SelectItem>
+          {NODE_COLORS.map(color => (
+            <SelectItem key={color.value} value={color.value}>
+              <span className="flex items-center gap-2">
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: color.value }} />
+                {color.label}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={style.borderStyle || DEFAULT_VALUE} onValueChange={(value) => update('borderStyle', value as NodeStyle['borderStyle'])}>
+        <SelectTrigger id={`${idPrefix}-border`} className="h-8 w-28" aria-label="Border">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_VALUE}>Default border</SelectItem>
+          {NODE_BORDER_STYLES.map(border => (
+            <SelectItem key={border.value} value={border.value}>{border.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={style.icon || DEFAULT_VALUE} onValueChange={(value) => update('icon', value as NodeStyle['icon'])}>
+        <SelectTrigger id={`${idPrefix}-icon`} className="h-8 w-28" aria-label="Icon">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_VALUE}>Type icon</SelectItem>
+          {NODE_ICONS.map(icon => (
+            <SelectItem key={icon.value} value={icon.value}>{icon.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        id={`${idPrefix}-emoji`}
+        value={style.emoji || ''}
+        onChange={(e) => update('emoji', e.target.value.trim() || DEFAULT_VALUE)}
+        placeholder="Emoji"
+        maxLength={8}
+        className="h-8 w-20"
+        aria-label="Emoji"
+      />
+      {showSize && (
+        <Select value={style.size || DEFAULT_VALUE} onValueChange={(value) => update('size', value as NodeStyle['size'])}>
+          <SelectTrigger id={`${idPrefix}-size`} className="h-8 w-28" aria-label="Size">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_VALUE}>Default size</SelectItem>
+            {NODE_SIZES.map(size => (
+              <SelectItem key={size.value} value={size.value}>{size.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+// src/components/knowledge-canvas/RelinkFilesDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { FolderSearch } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { NodeData, RelinkCandidate, RelinkSearchResult } from '@/types';
+
+interface RelinkFilesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 今のキャンバスで参照先が見つからないファイルノード
+  missingNodes: NodeData[];
+  // フォルダを選ばせて候補を探す。選ばなかったときは null
+  onSearchFolder: (nodeIds: string[]) => Promise<{ folderPath: string; search: RelinkSearchResult } | null>;
+  // ノードの id → 新しいパス
+  onRelink: (filePaths: Record<string, string>) => void;
+}
+
+const MATCH_LABELS: Record<RelinkCandidate['matchedBy'], string> = {
+  hash: 'same content',
+  name: 'same name',
+};
+
+// 内容が同じ候補か、名前の同じ候補が1つだけのときは、最初から選んでおく
+const isConfidentMatch = (candidates: RelinkCandidate[]) =>
+  candidates[0]?.matchedBy === 'hash' || candidates.length === 1;
+
+export function RelinkFilesDialog({ open, onOpenChange, missingNodes, onSearchFolder, onRelink }: RelinkFilesDialogProps) {
+  const [searchedFolders, setSearchedFolders] = useState<string[]>([]);
+  const [candidatesByNodeId, setCandidatesByNodeId] = useState<Record<string, RelinkCandidate[]>>({});
+  const [chosenPaths, setChosenPaths] = useState<Record<string, string>>({});
+  const [checkedNodeIds, setCheckedNodeIds] = useState<string[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [wasTruncated, setWasTruncated] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSearchedFolders([]);
+      setCandidatesByNodeId({});
+      setChosenPaths({});
+      setCheckedNodeIds([]);
+      setWasTruncated(false);
+    }
+  }, [open]);
+
+  // 別のフォルダを続けて探すと、まだ候補の無いノードにだけ結果を足していく
+  const handleSearchFolder = async () => {
+    const pendingNodeIds = missingNodes.filter(node => !candidatesByNodeId[node.id]?.length).map(node => node.id);
+    if (pendingNodeIds.length === 0) return;
+    setIsSearching(true);
+    try {
+      const found = await onSearchFolder(pendingNodeIds);
+      if (!found) return;
+      const matched = found.search.results.filter(result => result.candidates.length > 0);
+      setSearchedFolders(prev => [...prev, found.folderPath]);
+      setWasTruncated(prev => prev || found.search.truncated);
+      setCandidatesByNodeId(prev => ({
+        ...prev,
+        ...Object.fromEntries(matched.map(result => [result.nodeId, result.candidates])),
+      }));
+      setChosenPaths(prev => ({
+        ...prev,
+        ...Object.fromEntries(matched.map(result => [result.nodeId, result.candidates[0].filePath])),
+      }));
+      setCheckedNodeIds(prev => [
+        ...prev,
+        ...matched.filter(result => isConfidentMatch(result.candidates)).map(result => result.nodeId),
+      ]);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const toggleChecked = (nodeId: string, checked: boolean) => {
+    setCheckedNodeIds(prev => checked ? [...prev, nodeId] : prev.filter(id => id !== nodeId));
+  };
+
+  const relinkedPaths = Object.fromEntries(
+    checkedNodeIds.filter(nodeId => chosenPaths[nodeId]).map(nodeId => [nodeId, chosenPaths[nodeId]])
+  );
+  const relinkCount = Object.keys(relinkedPaths).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Find Missing Files</DialogTitle>
+          <DialogDescription>
+            These files are no longer at their saved location. Choose a folder to search it for files with the same name;
+            files whose contents match the original are selected automatically.
+          </DialogDescription>
+        </DialogHeader>
+        {missingNodes.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">All files on this canvas were found.</p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto border rounded-md divide-y">
+            {missingNodes.map(node => {
+              const candidates = candidatesByNodeId[node.id] || [];
+              return (
+                <li key={node.id} className="flex items-center gap-2 px-2 py-1.5 text-sm">
+                  <Checkbox
+                    checked={checkedNodeIds.includes(node.id)}
+                    onCheckedChange={(checked) => toggleChecked(node.id, checked === true)}
+                    disabled={candidates.length === 0}
+                    aria-label={`Relink ${node.title}`}
+                  />
+                  <div className="w-1/3 min-w-0">
+                    <p className="truncate font-medium" title={node.title}>{node.title}</p>
+                    <p className="truncate text-xs text-muted-foreground" title={node.filePath}>{node.filePath}</p>
+                  </div>
+                  {candidates.length === 0 ? (
+                    <span className="flex-grow text-xs text-muted-foreground italic">
+                      {searchedFolders.length > 0 ? 'No file with this name was found.' : 'Not searched yet.'}
+                    </span>
+                  ) : (
+                    <Select
+                      value={chosenPaths[node.id]}
+                      onValueChange={(filePath) => {
+                        setChosenPaths(prev => ({ ...prev, [node.id]: filePath }));
+                        if (!checkedNodeIds.includes(node.id)) toggleChecked(node.id, true);
+                      }}
+                    >
+                      <SelectTrigger className="h-8 flex-grow min-w-0" aria-label={`New location of ${node.title}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {candidates.map(candidate => (
+                          <SelectItem key={candidate.filePath} value={candidate.filePath}>
+                            <span className="truncate">{candidate.filePath}</span>
+                            <span className="ml-2 text-xs text-muted-foreground">({MATCH_LABELS[candidate.matchedBy]})</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {searchedFolders.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Searched: {searchedFolders.join(', ')}
+            {wasTruncated && ' (stopped early because the folder holds too many files; choose a narrower folder to search the rest)'}
+          </p>
+        )}
+        <DialogFooter className="sm:justify-between">
+          <Button
+            variant="outline"
+            onClick={handleSearchFolder}
+            disabled={isSearching || missingNodes.every(node => candidatesByNodeId[node.id]?.length)}
+          >
+            <FolderSearch className="mr-2 h-4 w-4" />
+            {isSearching ? 'Searching…' : searchedFolders.length > 0 ? 'Search Another Folder…' : 'Search Folder…'}
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={() => onRelink(relinkedPaths)} disabled={relinkCount === 0}>
+              Relink {relinkCount > 0 ? relinkCount : ''} File(s)
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+// src/components/knowledge-canvas/RevisionHistoryPanel.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn, parseDbTimestamp } from '@/lib/utils';
+import { diffLines } from '@/lib/text-diff';
+import type { NodeRevision } from '@/types';
+
+interface RevisionSnapshot {
+  title: string;
+  content: string;
+  tags: string[];
+}
+
+interface RevisionHistoryPanelProps {
+  nodeId: string;
+  current: RevisionSnapshot;
+  // 復元などで履歴が増えたときに再読み込みさせるためのキー
+  refreshKey: number;
+  onRestore: (revision: NodeRevision) => void;
+}
+
+// タイトルとタグも差分に含めるため、1つのテキストにまとめて比較する
+const snapshotToText = (snapshot: RevisionSnapshot) =>
+  `Title: ${snapshot.title}\nTags: ${snapshot.tags.join(', ')}\n\n${snapshot.content}`;
+
+export function RevisionHistoryPanel({ nodeId, current, refreshKey, onRestore }: RevisionHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<NodeRevision[]>([]);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+    const loadRevisions = async () => {
+      if (!window.electronAPI) return;
+      setIsLoading(true);
+      try {
+        const rows = await window.electronAPI.getNodeRevisions(nodeId);
+        if (isCancelled) return;
+        const parsed = rows.map(row => ({ ...row, tags: JSON.parse(row.tags || '[]') as string[] }));
+        setRevisions(parsed);
+        setSelectedRevisionId(parsed.length > 0 ? parsed[0].id : null);
+      } catch (error) {
+        console.error('Failed to load node revisions:', error);
+      } finally {
+        if (!isCancelled) setIsLoading(false);
+      }
+    };
+    loadRevisions();
+    return () => { isCancelled = true; };
+  }, [nodeId, refreshKey]);
+
+  const selectedRevision = revisions.find(r => r.id === selectedRevisionId) || null;
+
+  const diff = useMemo(() => {
+    if (!selectedRevision) return [];
+    return diffLines(snapshotToText(selectedRevision), snapshotToText(current));
+  }, [selectedRevision, current]);
+
+  if (isLoading && revisions.length === 0) {
+    return <p className="text-xs text-muted-foreground p-2">Loading history...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-xs text-muted-foreground p-2">No earlier versions yet.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-5 gap-2 border rounded-md">
+      <ul className="col-span-2 max-h-56 overflow-y-auto border-r">
+        {revisions.map(revision => (
+          <li key={revision.id}>
+            <div
+              className={cn(
+                "flex items-center gap-1 px-2 py-1 text-xs cursor-pointer hover:bg-accent/50",
+                revision.id === selectedRevisionId && "bg-accent text-accent-foreground"
+              )}
+              onClick={() => setSelectedRevisionId(revision.id)}
+            >
+              <History className="h-3 w-3 flex-shrink-0" />
+              <span className="flex-grow truncate" title={revision.title}>
+                {format(parseDbTimestamp(revision.createdAt), 'yyyy-MM-dd HH:mm:ss')}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 flex-shrink-0"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRestore(revision);
+                }}
+                title="Restore this version"
+                aria-label="Restore this version"
+              >
+                <RotateCcw className="h-3 w-3" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <div className="col-span-3 max-h-56 overflow-auto p-2 font-mono text-xs">
+        <p className="mb-1 text-muted-foreground font-sans">Changes from this version to the current one:</p>
+        {diff.map((line, index) => (
+          <div
+            key={index}
+            className={cn(
+              "whitespace-pre-wrap break-words",
+              line.type === 'added' && "bg-green-100 text-green-900 dark:bg-green-900/30 dark:text-green-200",
+              line.type === 'removed' && "bg-red-100 text-red-900 line-through dark:bg-red-900/30 dark:text-red-200"
+            )}
+          >
+            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
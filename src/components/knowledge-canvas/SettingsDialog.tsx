@@ -0,0 +1,191 @@
+// src/components/knowledge-canvas/SettingsDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  BACKUP_DAILY_COUNT_LIMITS,
+  BACKUP_WEEKLY_COUNT_LIMITS,
+  HISTORY_DEPTH_LIMITS,
+  TRASH_RETENTION_DAYS_LIMITS,
+  parseAppSettings,
+  serializeAppSettings,
+  type AppSettings,
+} from '@/lib/app-settings';
+import { normalizeTagPath } from '@/lib/tags';
+import { NodeStyleFields } from './NodeStyleFields';
+import type { NodeStyleRule } from '@/types';
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+}
+
+export function SettingsDialog({ open, onOpenChange, settings, onSave }: SettingsDialogProps) {
+  // 入力途中の値は文字列のまま持ち、保存時に parseAppSettings で範囲内に丸める
+  const [draft, setDraft] = useState<Record<string, string>>(serializeAppSettings(settings));
+  const [rulesDraft, setRulesDraft] = useState<NodeStyleRule[]>(settings.nodeStyleRules);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(serializeAppSettings(settings));
+      setRulesDraft(settings.nodeStyleRules);
+    }
+  }, [open, settings]);
+
+  const updateDraft = (key: keyof AppSettings, value: string) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateRule = (index: number, rule: NodeStyleRule) => {
+    setRulesDraft(prev => prev.map((current, i) => i === index ? rule : current));
+  };
+
+  // タグを入れていないルールは保存しない
+  const handleSave = () => {
+    const nodeStyleRules = rulesDraft
+      .map(rule => ({ ...rule, tag: normalizeTagPath(rule.tag) }))
+      .filter(rule => rule.tag);
+    onSave(parseAppSettings({ ...draft, nodeStyleRules: JSON.stringify(nodeStyleRules) }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Settings are stored in the local database.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="settings-history-depth" className="text-right col-span-2">Undo history depth</Label>
+            <Input
+              id="settings-history-depth"
+              type="number"
+              min={HISTORY_DEPTH_LIMITS.min}
+              max={HISTORY_DEPTH_LIMITS.max}
+              value={draft.historyDepth}
+              onChange={(e) => updateDraft('historyDepth', e.target.value)}
+              className="col-span-2"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="settings-trash-retention" className="text-right col-span-2">Keep trash for (days)</Label>
+            <Input
+              id="settings-trash-retention"
+              type="number"
+              min={TRASH_RETENTION_DAYS_LIMITS.min}
+              max={TRASH_RETENTION_DAYS_LIMITS.max}
+              value={draft.trashRetentionDays}
+              onChange={(e) => updateDraft('trashRetentionDays', e.target.value)}
+              className="col-span-2"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="settings-backup-daily" className="text-right col-span-2">Daily backups to keep</Label>
+            <Input
+              id="settings-backup-daily"
+              type="number"
+              min={BACKUP_DAILY_COUNT_LIMITS.min}
+              max={BACKUP_DAILY_COUNT_LIMITS.max}
+              value={draft.backupDailyCount}
+              onChange={(e) => updateDraft('backupDailyCount', e.target.value)}
+              className="col-span-2"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="settings-backup-weekly" className="text-right col-span-2">Weekly backups to keep</Label>
+            <Input
+              id="settings-backup-weekly"
+              type="number"
+              min={BACKUP_WEEKLY_COUNT_LIMITS.min}
+              max={BACKUP_WEEKLY_COUNT_LIMITS.max}
+              value={draft.backupWeeklyCount}
+              onChange={(e) => updateDraft('backupWeeklyCount', e.target.value)}
+              className="col-span-2"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="settings-managed-attachments" className="text-right col-span-2">Copy added files into the library</Label>
+            <div className="col-span-2 flex items-center gap-2">
+              <Switch
+                id="settings-managed-attachments"
+                checked={draft.managedAttachments === 'true'}
+                onCheckedChange={(checked) => updateDraft('managedAttachments', String(checked))}
+              />
+              <span className="text-xs text-muted-foreground">
+                Nodes keep working when the original is moved; identical files are stored once.
+              </span>
+            </div>
+          </div>
+        </div>
+        <div className="grid gap-2 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Node style rules</Label>
+              <p className="text-xs text-muted-foreground">
+                Nodes with a tag (or a tag nested under it) get this look unless they set their own. The first matching rule wins.
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRulesDraft(prev => [...prev, { tag: '', style: {} }])}
+            >
+              <Plus className="mr-1 h-4 w-4" /> Add Rule
+            </Button>
+          </div>
+          {rulesDraft.length > 0 && (
+            <ul className="max-h-60 overflow-y-auto border rounded-md divide-y">
+              {rulesDraft.map((rule, index) => (
+                <li key={index} className="flex items-center gap-2 px-2 py-1.5">
+                  <Input
+                    value={rule.tag}
+                    onChange={(e) => updateRule(index, { ...rule, tag: e.target.value })}
+                    placeholder="Tag"
+                    className="h-8 w-32"
+                    aria-label="Tag"
+                  />
+                  <div className="flex-grow">
+                    <NodeStyleFields
+                      idPrefix={`settings-rule-${index}`}
+                      style={rule.style}
+                      onChange={(style) => updateRule(index, { ...rule, style })}
+                      showSize={false}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setRulesDraft(prev => prev.filter((_, i) => i !== index))}
+                    aria-label="Delete rule"
+                    title="Delete rule"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+// src/components/knowledge-canvas/TagFilterTree.tsx
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { buildTagTree, getTagBadgeStyle, isTagInSubtree, type TagTreeNode } from '@/lib/tags';
+import type { TagColors } from '@/types';
+
+interface TagFilterTreeProps {
+  tags: string[];
+  selectedTags: string[];
+  onTagToggle: (tag: string) => void;
+  tagColors: TagColors;
+}
+
+// 階層ごとに横に並べ、開いた階層はその下の行に字下げして出す（階層の無いタグは従来どおり1行に並ぶ）
+export function TagFilterTree({ tags, selectedTags, onTagToggle, tagColors }: TagFilterTreeProps) {
+  const tree = useMemo(() => buildTagTree(tags), [tags]);
+  const [expandedPaths, setExpandedPaths] = useState<string[]>([]);
+
+  const toggleExpanded = (path: string) => {
+    setExpandedPaths(prev => prev.includes(path) ? prev.filter(expandedPath => expandedPath !== path) : [...prev, path]);
+  };
+
+  const renderLevel = (nodes: TagTreeNode[]): React.ReactNode => nodes.map(node => {
+    const isSelected = selectedTags.includes(node.path);
+    const isExpanded = expandedPaths.includes(node.path);
+    // 閉じた階層の中で選んでいるタグがあることを示す
+    const hasSelectedDescendant = !isSelected && selectedTags.some(tag => tag !== node.path && isTagInSubtree(tag, node.path));
+    return (
+      <React.Fragment key={node.path}>
+        <div className="flex items-center">
+          {node.children.length > 0 && (
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-foreground"
+              onClick={() => toggleExpanded(node.path)}
+              aria-label={isExpanded ? `Collapse ${node.path}` : `Expand ${node.path}`}
+              aria-expanded={isExpanded}
+            >
+              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </button>
+          )}
+          <Badge
+            variant={isSelected ? 'default' : node.isTag ? 'secondary' : 'outline'}
+            onClick={() => onTagToggle(node.path)}
+            className={cn("cursor-pointer hover:opacity-80 transition-opacity", hasSelectedDescendant && "ring-1 ring-primary")}
+            aria-pressed={isSelected}
+            title={node.children.length > 0 ? `${node.path} (includes its sub-tags)` : node.path}
+            style={isSelected ? undefined : getTagBadgeStyle(tagColors[node.path])}
+          >
+            {node.name}
+          </Badge>
+        </div>
+        {isExpanded && (
+          <div className="basis-full flex flex-wrap gap-2 pl-5">
+            {renderLevel(node.children)}
+          </div>
+        )}
+      </React.Fragment>
+    );
+  });
+
+  return <div className="flex flex-wrap items-center gap-2">{renderLevel(tree)}</div>;
+}
@@ -0,0 +1,195 @@
+// src/components/knowledge-canvas/TagManagerDialog.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, Pencil, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  TAG_COLORS,
+  createTagDraft,
+  deleteTagInDraft,
+  getTagBadgeStyle,
+  hasTagChanges,
+  mergeTagsInDraft,
+  renameTagInDraft,
+  setTagColorInDraft,
+  toTagChanges,
+  type TagDraft,
+} from '@/lib/tags';
+import type { TagChanges, TagColors, TagUsage } from '@/types';
+
+// Select の値に空文字は使えないので、色なしはこの値で表す
+const NO_COLOR = 'none';
+
+interface TagManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 開くたびに全キャンバスから数え直したもの
+  tagUsage: TagUsage[];
+  tagColors: TagColors;
+  onSave: (changes: TagChanges) => void;
+}
+
+export function TagManagerDialog({ open, onOpenChange, tagUsage, tagColors, onSave }: TagManagerDialogProps) {
+  const [draft, setDraft] = useState<TagDraft>(() => createTagDraft(tagUsage, tagColors));
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [checkedTags, setCheckedTags] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  // 開いたとき（と、開いている間に数え直したとき）は編集内容を捨てて最新の状態から始める
+  useEffect(() => {
+    if (open) {
+      setDraft(createTagDraft(tagUsage, tagColors));
+      setEditingTag(null);
+      setCheckedTags([]);
+      setMergeTarget('');
+    }
+  }, [open, tagUsage, tagColors]);
+
+  const changes = useMemo(() => toTagChanges(draft, tagColors), [draft, tagColors]);
+
+  const startRename = (tag: string) => {
+    setEditingTag(tag);
+    setEditingName(tag);
+  };
+
+  const commitRename = () => {
+    if (editingTag && editingName.trim()) {
+      setDraft(prev => renameTagInDraft(prev, editingTag, editingName));
+      setCheckedTags(prev => prev.filter(tag => tag !== editingTag));
+    }
+    setEditingTag(null);
+  };
+
+  const handleDelete = (tag: string) => {
+    setDraft(prev => deleteTagInDraft(prev, tag));
+    setCheckedTags(prev => prev.filter(checkedTag => checkedTag !== tag));
+  };
+
+  const toggleChecked = (tag: string, checked: boolean) => {
+    setCheckedTags(prev => checked ? [...prev, tag] : prev.filter(checkedTag => checkedTag !== tag));
+    // まとめ先の既定は最初に選んだタグ
+    if (checked && checkedTags.length === 0) setMergeTarget(tag);
+  };
+
+  const handleMerge = () => {
+    setDraft(prev => mergeTagsInDraft(prev, checkedTags, mergeTarget));
+    setCheckedTags([]);
+    setMergeTarget('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Manage Tags</DialogTitle>
+          <DialogDescription>
+            Changes apply to the nodes on every canvas, including those in the trash, and are saved together.
+          </DialogDescription>
+        </DialogHeader>
+        {draft.entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">No tags yet.</p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto border rounded-md divide-y">
+            {draft.entries.map(entry => (
+              <li key={entry.tag} className="flex items-center gap-2 px-2 py-1.5 text-sm">
+                <Checkbox
+                  checked={checkedTags.includes(entry.tag)}
+                  onCheckedChange={(checked) => toggleChecked(entry.tag, checked === true)}
+                  aria-label={`Select ${entry.tag} for merging`}
+                />
+                {editingTag === entry.tag ? (
+                  <form
+                    className="flex flex-grow items-center gap-1"
+                    onSubmit={(e) => { e.preventDefault(); commitRename(); }}
+                  >
+                    <Input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Escape') { e.stopPropagation(); setEditingTag(null); } }}
+                      className="h-7"
+                      autoFocus
+                    />
+                    <Button type="submit" variant="ghost" size="icon" className="h-7 w-7" aria-label="Apply new name">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingTag(null)} aria-label="Cancel rename">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <div className="flex flex-grow items-center gap-2 min-w-0">
+                    <Badge variant="secondary" className="truncate" style={getTagBadgeStyle(entry.color || undefined)}>
+                      {entry.tag}
+                    </Badge>
+                    {entry.sourceTags.some(sourceTag => sourceTag !== entry.tag) && (
+                      <span className="truncate text-xs text-muted-foreground">
+                        from {entry.sourceTags.filter(sourceTag => sourceTag !== entry.tag).join(', ')}
+                      </span>
+                    )}
+                  </div>
+                )}
+                <span className="w-14 text-right text-xs text-muted-foreground whitespace-nowrap">{entry.count} node(s)</span>
+                <Select
+                  value={entry.color || NO_COLOR}
+                  onValueChange={(value) => setDraft(prev => setTagColorInDraft(prev, entry.tag, value === NO_COLOR ? null : value))}
+                >
+                  <SelectTrigger className="h-7 w-28" aria-label={`Color of ${entry.tag}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_COLOR}>No color</SelectItem>
+                    {TAG_COLORS.map(color => (
+                      <SelectItem key={color.value} value={color.value}>
+                        <span className="flex items-center gap-2">
+                          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: color.value }} />
+                          {color.label}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startRename(entry.tag)} aria-label={`Rename ${entry.tag}`} title="Rename">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDelete(entry.tag)} aria-label={`Delete ${entry.tag}`} title="Remove from all nodes">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex items-center gap-2">
+          <Input
+            value={mergeTarget}
+            onChange={(e) => setMergeTarget(e.target.value)}
+            placeholder="Merge selected tags into…"
+            disabled={checkedTags.length < 2}
+            className="h-8"
+          />
+          <Button variant="outline" size="sm" onClick={handleMerge} disabled={checkedTags.length < 2 || !mergeTarget.trim()}>
+            Merge {checkedTags.length > 1 ? checkedTags.length : ''}
+          </Button>
+        </div>
+        {draft.deletedTags.length > 0 && (
+          <p className="text-xs text-muted-foreground">Will be removed: {draft.deletedTags.join(', ')}</p>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave(changes)} disabled={!hasTagChanges(changes)}>Save Changes</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
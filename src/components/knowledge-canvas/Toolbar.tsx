@@ -6,16 +6,29 @@ import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 // SelectコンポーネントとShuffleアイコンをインポート
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { UploadCloud, StickyNote, Search, Layers, Link as LinkIcon, Tag, LayoutGrid, Trash2, Shuffle } from 'lucide-react';
+import { UploadCloud, StickyNote, Search, Layers, Link as LinkIcon, Tag, LayoutGrid, Trash2, Shuffle, Waypoints, Undo2, Redo2, Settings, Archive, Tags, Group } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
-import type { LayoutAlgorithmType } from '@/types'; // LayoutAlgorithmTypeをインポート
+import type { CanvasData, LayoutAlgorithmType, LinkRelationType, SearchHit, TagColors } from '@/types'; // LayoutAlgorithmTypeをインポート
+import { LINK_RELATION_TYPES } from '@/lib/link-relations';
+import { CanvasSwitcher } from './CanvasSwitcher';
+import { TagFilterTree } from './TagFilterTree';
 
 interface ToolbarProps {
+  canvases: CanvasData[];
+  activeCanvasId: string | null;
+  onSwitchCanvas: (canvasId: string) => void;
+  onCreateCanvas: (name: string) => void;
+  onRenameCanvas: (canvasId: string, name: string) => void;
+  onDuplicateCanvas: (canvasId: string, name: string) => void;
+  onDeleteCanvas: (canvasId: string) => void;
   onFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
   onCreateNote: () => void;
+  onAddFrame: () => void; // 選択中のノードがあれば、それを囲む枠を作る
   onSearch: (term: string) => void;
   currentSearchTerm: string;
+  searchHits: SearchHit[];
+  onSearchHitSelect: (nodeId: string) => void;
   onDepthChange: (depth: number[]) => void;
   currentDepth: number;
   onToggleLinkMode: () => void;
@@ -25,16 +38,38 @@ interface ToolbarProps {
   allTags: string[];
   selectedFilterTags: string[];
   onFilterTagToggle: (tag: string) => void;
+  selectedRelationTypes: LinkRelationType[];
+  onRelationTypeToggle: (relationType: LinkRelationType) => void;
   onAutoLayout: () => void;
   currentLayoutAlgorithm: LayoutAlgorithmType; // 追加
   onLayoutAlgorithmChange: (algorithm: LayoutAlgorithmType) => void; // 追加
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onOpenSettings: () => void;
+  onOpenTrash: () => void;
+  onOpenTagManager: () => void;
+  tagColors: TagColors;
 }
 
+const MAX_VISIBLE_SEARCH_HITS = 8;
+
 export function Toolbar({
+  canvases,
+  activeCanvasId,
+  onSwitchCanvas,
+  onCreateCanvas,
+  onRenameCanvas,
+  onDuplicateCanvas,
+  onDeleteCanvas,
   onFileUpload,
   onCreateNote,
+  onAddFrame,
   onSearch,
   currentSearchTerm,
+  searchHits,
+  onSearchHitSelect,
   onDepthChange,
   currentDepth,
   onToggleLinkMode,
@@ -44,11 +79,23 @@ export function Toolbar({
   allTags,
   selectedFilterTags,
   onFilterTagToggle,
+  selectedRelationTypes,
+  onRelationTypeToggle,
   onAutoLayout,
   currentLayoutAlgorithm, // 追加
   onLayoutAlgorithmChange, // 追加
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  onOpenSettings,
+  onOpenTrash,
+  onOpenTagManager,
+  tagColors,
 }: ToolbarProps) {
   const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [isSearchFocused, setIsSearchFocused] = React.useState(false);
+  const showSearchHits = isSearchFocused && currentSearchTerm.trim() !== '' && searchHits.length > 0;
 
   const handleUploadClick = () => {
     fileInputRef.current?.click();
@@ -57,6 +104,15 @@ export function Toolbar({
   return (
     <header className="p-3 bg-card border-b border-border shadow-sm flex flex-col gap-3 print:hidden sticky top-0 z-10">
       <div className="flex flex-wrap items-center gap-4">
+        <CanvasSwitcher
+          canvases={canvases}
+          activeCanvasId={activeCanvasId}
+          onSwitchCanvas={onSwitchCanvas}
+          onCreateCanvas={onCreateCanvas}
+          onRenameCanvas={onRenameCanvas}
+          onDuplicateCanvas={onDuplicateCanvas}
+          onDeleteCanvas={onDeleteCanvas}
+        />
         {/* ...既存のボタン... */}
         <Button variant="outline" onClick={handleUploadClick} aria-label="Upload file">
           <UploadCloud className="mr-2 h-4 w-4" /> Upload File
@@ -72,6 +128,9 @@ export function Toolbar({
         <Button variant="outline" onClick={onCreateNote} aria-label="Create new note">
           <StickyNote className="mr-2 h-4 w-4" /> Create Note
         </Button>
+        <Button variant="outline" onClick={onAddFrame} aria-label="Add frame" title="Add a frame (around the selected nodes, if any)">
+          <Group className="mr-2 h-4 w-4" /> Add Frame
+        </Button>
         <Button
           variant={isLinkingMode ? "default" : "outline"}
           onClick={onToggleLinkMode}
@@ -109,17 +168,56 @@ export function Toolbar({
             <LayoutGrid className="mr-2 h-4 w-4" /> Apply Layout
         </Button>
 
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="icon" onClick={onUndo} disabled={!canUndo} aria-label="Undo" title="Undo (Ctrl+Z)">
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={onRedo} disabled={!canRedo} aria-label="Redo" title="Redo (Ctrl+Y)">
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="relative flex items-center gap-2">
           <Search className="h-5 w-5 text-muted-foreground" />
           <Input
             id="toolbar-search-input"
             type="search"
-            placeholder="Search nodes (inc. tags)..."
+            placeholder='Search nodes (inc. tags, "phrase")...'
             className="w-64"
             value={currentSearchTerm}
             onChange={(e) => onSearch(e.target.value)}
+            onFocus={() => setIsSearchFocused(true)}
+            onBlur={() => setIsSearchFocused(false)}
             aria-label="Search nodes"
           />
+          {showSearchHits && (
+            <ul className="absolute left-7 top-full mt-1 w-80 max-h-80 overflow-y-auto rounded-md border bg-popover text-popover-foreground shadow-md z-20">
+              {searchHits.slice(0, MAX_VISIBLE_SEARCH_HITS).map(hit => (
+                <li
+                  key={hit.nodeId}
+                  className="px-3 py-2 cursor-pointer hover:bg-accent hover:text-accent-foreground"
+                  // blur でリストが閉じる前に選択を受け付ける
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    onSearchHitSelect(hit.nodeId);
+                  }}
+                >
+                  <p className="text-sm font-medium truncate">{hit.title || 'Untitled'}</p>
+                  <p className="text-xs text-muted-foreground line-clamp-2">
+                    {hit.snippet.map((segment, index) => segment.highlighted
+                      ? <mark key={index} className="bg-yellow-200 text-foreground rounded-sm dark:bg-yellow-700/60">{segment.text}</mark>
+                      : <React.Fragment key={index}>{segment.text}</React.Fragment>
+                    )}
+                  </p>
+                </li>
+              ))}
+              {searchHits.length > MAX_VISIBLE_SEARCH_HITS && (
+                <li className="px-3 py-1 text-xs text-muted-foreground">
+                  {searchHits.length - MAX_VISIBLE_SEARCH_HITS} more match(es) shown on the canvas
+                </li>
+              )}
+            </ul>
+          )}
         </div>
         <div className="flex items-center gap-3 min-w-[200px]">
           <Layers className="h-5 w-5 text-muted-foreground" />
@@ -137,6 +235,30 @@ export function Toolbar({
             aria-label="Search depth slider"
           />
         </div>
+        <Button variant="ghost" size="icon" onClick={onOpenTagManager} aria-label="Manage Tags" title="Manage Tags">
+          <Tags className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={onOpenTrash} aria-label="Trash" title="Trash">
+          <Archive className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={onOpenSettings} aria-label="Settings" title="Settings">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="w-full flex flex-wrap items-center gap-2">
+        <Waypoints className="h-5 w-5 text-muted-foreground" />
+        <Label className="text-sm font-medium">Filter by Relation:</Label>
+        {LINK_RELATION_TYPES.map(relationType => (
+          <Badge
+            key={relationType.value}
+            variant={selectedRelationTypes.includes(relationType.value) ? 'default' : 'outline'}
+            onClick={() => onRelationTypeToggle(relationType.value)}
+            className="cursor-pointer hover:opacity-80 transition-opacity"
+            aria-pressed={selectedRelationTypes.includes(relationType.value)}
+          >
+            {relationType.label}
+          </Badge>
+        ))}
       </div>
       {allTags.length > 0 && (
         <div className="w-full border-t border-border pt-2 mt-2">
@@ -144,19 +266,12 @@ export function Toolbar({
             <Tag className="h-5 w-5 text-muted-foreground" />
             <Label className="text-sm font-medium">Filter by Tags:</Label>
           </div>
-          <div className="flex flex-wrap gap-2">
-            {allTags.map(tag => (
-              <Badge
-                key={tag}
-                variant={selectedFilterTags.includes(tag) ? 'default' : 'secondary'}
-                onClick={() => onFilterTagToggle(tag)}
-                className="cursor-pointer hover:opacity-80 transition-opacity"
-                aria-pressed={selectedFilterTags.includes(tag)}
-              >
-                {tag}
-              </Badge>
-            ))}
-          </div>
+          <TagFilterTree
+            tags={allTags}
+            selectedTags={selectedFilterTags}
+            onTagToggle={onFilterTagToggle}
+            tagColors={tagColors}
+          />
         </div>
       )}
     </header>
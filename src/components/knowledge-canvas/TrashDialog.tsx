@@ -0,0 +1,185 @@
+// src/components/knowledge-canvas/TrashDialog.tsx
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { FileText, Link as LinkIcon, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { getLinkDisplayText } from '@/lib/link-relations';
+import type { NodeData, TrashedLink, TrashedNode } from '@/types';
+
+// 完全削除の確認待ちの操作
+type PendingPurge =
+  | { kind: 'node'; id: string; title: string }
+  | { kind: 'link'; id: string; title: string }
+  | { kind: 'all' };
+
+interface TrashDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trashedNodes: TrashedNode[];
+  trashedLinks: TrashedLink[];
+  // リンク両端のタイトル表示用（キャンバス上のノード）
+  nodes: NodeData[];
+  retentionDays: number;
+  onRestoreNode: (nodeId: string) => void;
+  onRestoreLink: (linkId: string) => void;
+  onPurgeNode: (nodeId: string) => void;
+  onPurgeLink: (linkId: string) => void;
+  onEmptyTrash: () => void;
+}
+
+const formatDeletedAt = (deletedAt: string) => format(new Date(deletedAt), 'yyyy-MM-dd HH:mm');
+
+export function TrashDialog({
+  open,
+  onOpenChange,
+  trashedNodes,
+  trashedLinks,
+  nodes,
+  retentionDays,
+  onRestoreNode,
+  onRestoreLink,
+  onPurgeNode,
+  onPurgeLink,
+  onEmptyTrash,
+}: TrashDialogProps) {
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null);
+
+  const nodeTitles = useMemo(() => {
+    const titles = new Map<string, string>();
+    [...nodes, ...trashedNodes].forEach(node => titles.set(node.id, node.title || 'Untitled'));
+    return titles;
+  }, [nodes, trashedNodes]);
+
+  const describeLink = (link: TrashedLink) => {
+    const source = nodeTitles.get(link.sourceNodeId) || 'Unknown';
+    const target = nodeTitles.get(link.targetNodeId) || 'Unknown';
+    const relation = getLinkDisplayText(link);
+    return relation ? `${source} → ${target} (${relation})` : `${source} → ${target}`;
+  };
+
+  const handleConfirmPurge = () => {
+    if (!pendingPurge) return;
+    if (pendingPurge.kind === 'node') onPurgeNode(pendingPurge.id);
+    else if (pendingPurge.kind === 'link') onPurgeLink(pendingPurge.id);
+    else onEmptyTrash();
+    setPendingPurge(null);
+  };
+
+  const isEmpty = trashedNodes.length === 0 && trashedLinks.length === 0;
+
+  const renderRow = (
+    key: string,
+    icon: React.ReactNode,
+    title: string,
+    deletedAt: string,
+    onRestore: () => void,
+    onPurge: () => void
+  ) => (
+    <li key={key} className="flex items-center gap-2 px-2 py-1 text-sm hover:bg-accent/50">
+      {icon}
+      <span className="flex-grow truncate" title={title}>{title}</span>
+      <span className="text-xs text-muted-foreground whitespace-nowrap">{formatDeletedAt(deletedAt)}</span>
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onRestore} title="Restore" aria-label="Restore">
+        <RotateCcw className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 text-destructive hover:text-destructive"
+        onClick={onPurge}
+        title="Delete forever"
+        aria-label="Delete forever"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </li>
+  );
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Trash</DialogTitle>
+            <DialogDescription>
+              Deleted nodes and links are kept for {retentionDays} day{retentionDays === 1 ? '' : 's'} before they are removed permanently.
+            </DialogDescription>
+          </DialogHeader>
+          {isEmpty ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">The trash is empty.</p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto border rounded-md divide-y">
+              {trashedNodes.map(node => renderRow(
+                node.id,
+                <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />,
+                node.title || 'Untitled',
+                node.deletedAt,
+                () => onRestoreNode(node.id),
+                () => setPendingPurge({ kind: 'node', id: node.id, title: node.title || 'Untitled' })
+              ))}
+              {trashedLinks.map(link => renderRow(
+                link.id,
+                <LinkIcon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />,
+                describeLink(link),
+                link.deletedAt,
+                () => onRestoreLink(link.id),
+                () => setPendingPurge({ kind: 'link', id: link.id, title: describeLink(link) })
+              ))}
+            </ul>
+          )}
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              disabled={isEmpty}
+              onClick={() => setPendingPurge({ kind: 'all' })}
+            >
+              Empty Trash
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingPurge !== null} onOpenChange={(isOpen) => { if (!isOpen) setPendingPurge(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingPurge?.kind === 'all' ? 'Empty Trash' : 'Delete Forever'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingPurge?.kind === 'all'
+                ? 'All items in the trash will be deleted permanently.'
+                : <>&quot;{pendingPurge?.title}&quot; will be deleted permanently.</>}
+              {' '}This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmPurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,104 @@
+// src/hooks/use-command-history.ts
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+export const DEFAULT_HISTORY_DEPTH = 100;
+
+// 取り消し可能な操作。execute/undo はどちらも React の state と DB の両方を更新する
+export interface Command {
+  label: string;
+  execute: () => Promise<void>;
+  undo: () => Promise<void>;
+}
+
+export function useCommandHistory(maxDepth: number = DEFAULT_HISTORY_DEPTH) {
+  const undoStackRef = useRef<Command[]>([]);
+  const redoStackRef = useRef<Command[]>([]);
+  const isBusyRef = useRef(false);
+  const [stackSizes, setStackSizes] = useState({ undo: 0, redo: 0 });
+
+  const syncStackSizes = useCallback(() => {
+    setStackSizes({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+  }, []);
+
+  const trimToDepth = useCallback(() => {
+    const overflow = undoStackRef.current.length - Math.max(0, maxDepth);
+    if (overflow > 0) {
+      undoStackRef.current.splice(0, overflow);
+    }
+  }, [maxDepth]);
+
+  useEffect(() => {
+    trimToDepth();
+    syncStackSizes();
+  }, [trimToDepth, syncStackSizes]);
+
+  // すでに適用済みの操作（ドラッグ終了など）を履歴に積む
+  const record = useCallback((command: Command) => {
+    undoStackRef.current.push(command);
+    redoStackRef.current = [];
+    trimToDepth();
+    syncStackSizes();
+  }, [trimToDepth, syncStackSizes]);
+
+  const execute = useCallback(async (command: Command) => {
+    await command.execute();
+    record(command);
+  }, [record]);
+
+  // 連打で同じ操作が二重に走らないよう、実行中は次の undo/redo を受け付けない
+  const undo = useCallback(async (): Promise<Command | null> => {
+    if (isBusyRef.current) return null;
+    const command = undoStackRef.current.pop();
+    if (!command) return null;
+    isBusyRef.current = true;
+    try {
+      await command.undo();
+      redoStackRef.current.push(command);
+      return command;
+    } catch (error) {
+      undoStackRef.current.push(command);
+      throw error;
+    } finally {
+      isBusyRef.current = false;
+      syncStackSizes();
+    }
+  }, [syncStackSizes]);
+
+  const redo = useCallback(async (): Promise<Command | null> => {
+    if (isBusyRef.current) return null;
+    const command = redoStackRef.current.pop();
+    if (!command) return null;
+    isBusyRef.current = true;
+    try {
+      await command.execute();
+      undoStackRef.current.push(command);
+      trimToDepth();
+      return command;
+    } catch (error) {
+      redoStackRef.current.push(command);
+      throw error;
+    } finally {
+      isBusyRef.current = false;
+      syncStackSizes();
+    }
+  }, [trimToDepth, syncStackSizes]);
+
+  const clear = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    syncStackSizes();
+  }, [syncStackSizes]);
+
+  // 呼び出し側の useCallback が毎回作り直されないよう、取り消し・やり直しの可否が変わるときだけ新しくする
+  const canUndo = stackSizes.undo > 0;
+  const canRedo = stackSizes.redo > 0;
+  return useMemo(() => ({
+    execute,
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo,
+    canRedo,
+  }), [execute, record, undo, redo, clear, canUndo, canRedo]);
+}
@@ -0,0 +1,52 @@
+// src/lib/app-settings.ts
+// settings テーブル（キーと文字列値）に保存されるアプリ設定
+import { DEFAULT_HISTORY_DEPTH } from '@/hooks/use-command-history';
+import { parseNodeStyleRules } from '@/lib/node-styles';
+import type { NodeStyleRule } from '@/types';
+
+export interface AppSettings {
+  historyDepth: number;
+  trashRetentionDays: number; // ゴミ箱の項目はこの日数を過ぎるとメインプロセスが完全に削除する
+  backupDailyCount: number; // 残す日次バックアップの数
+  backupWeeklyCount: number; // 残す週次バックアップの数（0 なら取らない）
+  nodeStyleRules: NodeStyleRule[]; // 全キャンバス共通。JSON 文字列で保存する
+  managedAttachments: boolean; // true ならドロップしたファイルをアプリの保管庫にコピーし、コピーを参照する
+}
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  historyDepth: DEFAULT_HISTORY_DEPTH,
+  trashRetentionDays: 30,
+  backupDailyCount: 7,
+  backupWeeklyCount: 4,
+  nodeStyleRules: [],
+  managedAttachments: false,
+};
+
+export const HISTORY_DEPTH_LIMITS = { min: 1, max: 1000 };
+export const TRASH_RETENTION_DAYS_LIMITS = { min: 1, max: 3650 };
+export const BACKUP_DAILY_COUNT_LIMITS = { min: 1, max: 365 };
+export const BACKUP_WEEKLY_COUNT_LIMITS = { min: 0, max: 104 };
+
+const parseIntegerSetting = (value: string | null | undefined, fallback: number, min: number, max: number): number => {
+  const parsed = value === null || value === undefined ? NaN : parseInt(value, 10);
+  if (Number.isNaN(parsed)) return fallback;
+  return Math.min(max, Math.max(min, parsed));
+};
+
+export const parseAppSettings = (raw: Record<string, string | null>): AppSettings => ({
+  historyDepth: parseIntegerSetting(raw.historyDepth, DEFAULT_APP_SETTINGS.historyDepth, HISTORY_DEPTH_LIMITS.min, HISTORY_DEPTH_LIMITS.max),
+  trashRetentionDays: parseIntegerSetting(raw.trashRetentionDays, DEFAULT_APP_SETTINGS.trashRetentionDays, TRASH_RETENTION_DAYS_LIMITS.min, TRASH_RETENTION_DAYS_LIMITS.max),
+  backupDailyCount: parseIntegerSetting(raw.backupDailyCount, DEFAULT_APP_SETTINGS.backupDailyCount, BACKUP_DAILY_COUNT_LIMITS.min, BACKUP_DAILY_COUNT_LIMITS.max),
+  backupWeeklyCount: parseIntegerSetting(raw.backupWeeklyCount, DEFAULT_APP_SETTINGS.backupWeeklyCount, BACKUP_WEEKLY_COUNT_LIMITS.min, BACKUP_WEEKLY_COUNT_LIMITS.max),
+  nodeStyleRules: parseNodeStyleRules(raw.nodeStyleRules),
+  managedAttachments: raw.managedAttachments === 'true',
+});
+
+export const serializeAppSettings = (settings: AppSettings): Record<string, string> => ({
+  historyDepth: String(settings.historyDepth),
+  trashRetentionDays: String(settings.trashRetentionDays),
+  backupDailyCount: String(settings.backupDailyCount),
+  backupWeeklyCount: String(settings.backupWeeklyCount),
+  nodeStyleRules: JSON.stringify(settings.nodeStyleRules),
+  managedAttachments: String(settings.managedAttachments),
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { LinkData, NodeData } from '@/types';
+import {
+  CANVAS_BUNDLE_VERSION,
+  CanvasBundleError,
+  createCanvasBundle,
+  parseCanvasBundle,
+  remapCanvasBundleIds,
+  serializeCanvasBundle,
+} from '@/lib/canvas-bundle';
+
+const nodes: NodeData[] = [
+  { id: 'n1', type: 'note', title: 'First', content: 'Body', tags: ['b', 'a'], x: 0, y: 10, vx: 3, fx: 1 },
+  { id: 'n2', type: 'link', title: 'Site', url: 'https://example.com', tags: ['a'], x: 100, y: 20, width: 300 },
+];
+const links: LinkData[] = [
+  { id: 'l1', sourceNodeId: 'n1', targetNodeId: 'n2', relationType: 'supports', label: 'why', weight: 2 },
+];
+
+const bundleText = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({ ...createCanvasBundle('Research', nodes, links), ...overrides });
+
+describe('createCanvasBundle', () => {
+  it('collects the tags in sorted order and leaves out the layout fields', () => {
+    const bundle = createCanvasBundle('Research', nodes, links);
+    expect(bundle.tags).toEqual(['a', 'b']);
+    expect(bundle.version).toBe(CANVAS_BUNDLE_VERSION);
+    expect(bundle.nodes[0]).not.toHaveProperty('vx');
+    expect(bundle.nodes[0]).not.toHaveProperty('fx');
+  });
+});
+
+describe('parseCanvasBundle', () => {
+  it('reads back what was serialized', () => {
+    const bundle = createCanvasBundle('Research', nodes, links);
+    const parsed = parseCanvasBundle(serializeCanvasBundle(bundle));
+    expect(parsed.canvas.name).toBe('Research');
+    expect(parsed.nodes.map(n => n.id)).toEqual(['n1', 'n2']);
+    expect(parsed.links[0]).toMatchObject({ sourceNodeId: 'n1', targetNodeId: 'n2', relationType: 'supports', weight: 2 });
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseCanvasBundle('{')).toThrow(new CanvasBundleError('The file is not valid JSON.'));
+  });
+
+  it('names the newer format version', () => {
+    expect(() => parseCanvasBundle(bundleText({ version: CANVAS_BUNDLE_VERSION + 1 })))
+      .toThrow(`format version ${CANVAS_BUNDLE_VERSION + 1}`);
+  });
+
+  it('rejects duplicate node ids', () => {
+    expect(() => parseCanvasBundle(bundleText({ nodes: [nodes[0], { ...nodes[1], id: 'n1' }], links: [] })))
+      .toThrow(/Duplicate node id "n1"/);
+  });
+
+  it('rejects links to nodes that are not in the file', () => {
+    expect(() => parseCanvasBundle(bundleText({ links: [{ ...links[0], targetNodeId: 'missing' }] })))
+      .toThrow(/at links\.0/);
+  });
+
+  it('rejects unknown relation types', () => {
+    expect(() => parseCanvasBundle(bundleText({ links: [{ ...links[0], relationType: 'loves' }] })))
+      .toThrow(CanvasBundleError);
+  });
+});
+
+describe('remapCanvasBundleIds', () => {
+  it('gives every node and link a new id and keeps the links pointing at the same nodes', () => {
+    const { nodes: remappedNodes, links: remappedLinks } = remapCanvasBundleIds(createCanvasBundle('Research', nodes, links));
+    const [first, second] = remappedNodes;
+    expect(first.id).not.toBe('n1');
+    expect(second.id).not.toBe('n2');
+    expect(first.title).toBe('First');
+    expect(remappedLinks[0].id).not.toBe('l1');
+    expect(remappedLinks[0].sourceNodeId).toBe(first.id);
+    expect(remappedLinks[0].targetNodeId).toBe(second.id);
+  });
+});
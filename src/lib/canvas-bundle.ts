@@ -0,0 +1,156 @@
+// src/lib/canvas-bundle.ts
+// キャンバス1つ分のノード・リンクを持ち運べる JSON（バンドル）に書き出し、読み込む
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import type { LinkData, LinkRelationType, NodeData } from '@/types';
+import { LINK_RELATION_TYPES, LINK_WEIGHT_LIMITS } from '@/lib/link-relations';
+
+export const CANVAS_BUNDLE_FORMAT = 'knowledge-canvas';
+// 形式を変えたら上げる。読み込めるのはこの版まで
+export const CANVAS_BUNDLE_VERSION = 1;
+export const CANVAS_BUNDLE_FILE_EXTENSION = 'kcanvas.json';
+
+const bundleNodeStyleSchema = z.object({
+  backgroundColor: z.string().regex(/^#[0-9a-f]{6}$/i).optional(),
+  borderStyle: z.enum(['solid', 'dashed', 'dotted', 'double']).optional(),
+  icon: z.enum(['star', 'flag', 'alert', 'idea', 'check', 'question', 'bookmark', 'heart']).optional(),
+  emoji: z.string().optional(),
+  size: z.enum(['small', 'medium', 'large']).optional(),
+});
+
+const bundleNodeSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['file', 'note', 'link']),
+  title: z.string(),
+  content: z.string().optional(),
+  fileType: z.enum(['PDF', 'DOCX', 'TXT', 'IMAGE', 'URL', 'EXCEL', 'POWERPOINT', 'OTHER']).optional(),
+  filePath: z.string().optional(),
+  url: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  style: bundleNodeStyleSchema.optional(),
+  x: z.number().finite(),
+  y: z.number().finite(),
+  width: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+});
+
+const bundleLinkSchema = z.object({
+  id: z.string().min(1),
+  sourceNodeId: z.string().min(1),
+  targetNodeId: z.string().min(1),
+  relationType: z.custom<LinkRelationType>(
+    value => LINK_RELATION_TYPES.some(t => t.value === value),
+    { message: 'Unknown relation type' }
+  ).optional(),
+  label: z.string().optional(),
+  direction: z.enum(['none', 'forward', 'both']).optional(),
+  lineStyle: z.enum(['solid', 'dashed', 'dotted']).optional(),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i).optional(),
+  weight: z.number().min(LINK_WEIGHT_LIMITS.min).max(LINK_WEIGHT_LIMITS.max).optional(),
+});
+
+const canvasBundleSchema = z.object({
+  format: z.literal(CANVAS_BUNDLE_FORMAT),
+  version: z.number().int().min(1).max(CANVAS_BUNDLE_VERSION),
+  exportedAt: z.string(),
+  canvas: z.object({ name: z.string() }),
+  tags: z.array(z.string()).default([]),
+  nodes: z.array(bundleNodeSchema),
+  links: z.array(bundleLinkSchema),
+}).superRefine((bundle, ctx) => {
+  const nodeIds = new Set<string>();
+  bundle.nodes.forEach((node, index) => {
+    if (nodeIds.has(node.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['nodes', index, 'id'], message: `Duplicate node id "${node.id}"` });
+    }
+    nodeIds.add(node.id);
+  });
+  bundle.links.forEach((link, index) => {
+    if (!nodeIds.has(link.sourceNodeId) || !nodeIds.has(link.targetNodeId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['links', index], message: 'Link points to a node that is not in the file' });
+    }
+  });
+});
+
+export type CanvasBundle = z.infer<typeof canvasBundleSchema>;
+
+export class CanvasBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CanvasBundleError';
+  }
+}
+
+export const createCanvasBundle = (canvasName: string, nodes: NodeData[], links: LinkData[]): CanvasBundle => ({
+  format: CANVAS_BUNDLE_FORMAT,
+  version: CANVAS_BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  canvas: { name: canvasName },
+  tags: Array.from(new Set(nodes.flatMap(node => node.tags || []))).sort(),
+  // レイアウト計算用の vx / vy / fx / fy は書き出さない
+  nodes: nodes.map(node => ({
+    id: node.id,
+    type: node.type,
+    title: node.title,
+    content: node.content,
+    fileType: node.fileType,
+    filePath: node.filePath,
+    url: node.url,
+    tags: node.tags || [],
+    style: node.style,
+    x: node.x,
+    y: node.y,
+    width: node.width,
+    height: node.height,
+  })),
+  links: links.map(link => ({
+    id: link.id,
+    sourceNodeId: link.sourceNodeId,
+    targetNodeId: link.targetNodeId,
+    relationType: link.relationType,
+    label: link.label,
+    direction: link.direction,
+    lineStyle: link.lineStyle,
+    color: link.color,
+    weight: link.weight,
+  })),
+});
+
+export const serializeCanvasBundle = (bundle: CanvasBundle): string => JSON.stringify(bundle, null, 2);
+
+// 読み込めない場合は、どこが悪いのかを添えて CanvasBundleError を投げる
+export const parseCanvasBundle = (text: string): CanvasBundle => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new CanvasBundleError('The file is not valid JSON.');
+  }
+  if (raw && typeof raw === 'object' && (raw as { format?: unknown }).format === CANVAS_BUNDLE_FORMAT) {
+    const version = (raw as { version?: unknown }).version;
+    if (typeof version === 'number' && version > CANVAS_BUNDLE_VERSION) {
+      throw new CanvasBundleError(`The file was exported by a newer version of the app (format version ${version}).`);
+    }
+  }
+  const result = canvasBundleSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const location = issue.path.length > 0 ? ` (at ${issue.path.join('.')})` : '';
+    throw new CanvasBundleError(`The file is not a valid canvas export: ${issue.message}${location}.`);
+  }
+  return result.data;
+};
+
+// 既存のデータとぶつからないよう、ノードとリンクに新しい ID を振り直す
+export const remapCanvasBundleIds = (bundle: CanvasBundle): { nodes: NodeData[]; links: LinkData[] } => {
+  const nodeIdMap = new Map(bundle.nodes.map(node => [node.id, uuidv4()]));
+  return {
+    nodes: bundle.nodes.map(node => ({ ...node, id: nodeIdMap.get(node.id)! })),
+    links: bundle.links.map(link => ({
+      ...link,
+      id: uuidv4(),
+      sourceNodeId: nodeIdMap.get(link.sourceNodeId)!,
+      targetNodeId: nodeIdMap.get(link.targetNodeId)!,
+    })),
+  };
+};
@@ -0,0 +1,17 @@
+// src/lib/file-states.ts
+// ファイルノードのカードに出す、参照先のファイルの大きさ・更新日時と「前回見てから変更あり」
+import { format } from 'date-fns';
+import type { NodeFileState } from '@/types';
+
+export const formatFileSize = (size: number): string => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const formatFileMtime = (mtimeMs: number): string => format(new Date(mtimeMs), 'yyyy-MM-dd HH:mm');
+
+// 初めて確かめたときの状態は見たものとして扱うので、まだ確かめていない（viewedMtimeMs が無い）ファイルは変更なし
+export const isModifiedSinceViewed = (state: NodeFileState | undefined): boolean =>
+  !!state && state.status === 'ok' && state.fileMtimeMs !== null && state.viewedMtimeMs !== null &&
+  state.fileMtimeMs > state.viewedMtimeMs;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { FileType } from '@/types';
+import {
+  buildFolderImport,
+  DEFAULT_FOLDER_IMPORT_OPTIONS,
+  type FolderEntry,
+  matchesGlob,
+  parseGlobPatterns,
+  selectFolderEntries,
+} from '@/lib/folder-import';
+
+const getFileType = (fileName: string): FileType =>
+  fileName.endsWith('.pdf') ? 'PDF' : fileName.endsWith('.txt') ? 'TXT' : 'OTHER';
+
+const entry = (relativePath: string): FolderEntry => ({ relativePath, filePath: `/root/${relativePath}` });
+
+describe('parseGlobPatterns', () => {
+  it('splits on commas and line breaks and normalizes separators', () => {
+    expect(parseGlobPatterns('*.pdf, ./docs\\**\n\n/drafts ,')).toEqual(['*.pdf', 'docs/**', 'drafts']);
+  });
+});
+
+describe('matchesGlob', () => {
+  it('compares a pattern without "/" with every level', () => {
+    expect(matchesGlob('a/drafts/b.pdf', 'drafts')).toBe(true);
+    expect(matchesGlob('a/b.PDF', '*.pdf')).toBe(true);
+    expect(matchesGlob('a/b.pdf', '?.txt')).toBe(false);
+  });
+
+  it('compares a pattern with "/" with the path from the dropped folder', () => {
+    expect(matchesGlob('docs/a/b.pdf', 'docs/**')).toBe(true);
+    expect(matchesGlob('other/docs/b.pdf', 'docs/**')).toBe(false);
+    expect(matchesGlob('docs/b.pdf', 'docs/*/b.pdf')).toBe(false);
+    expect(matchesGlob('docs/b.pdf', 'docs/**/b.pdf')).toBe(true);
+    expect(matchesGlob('docs/a/b.pdf', 'docs/a/')).toBe(true);
+  });
+});
+
+describe('selectFolderEntries', () => {
+  const entries = ['a.pdf', 'b.exe', 'one/c.txt', 'one/two/d.pdf', 'drafts/e.pdf'].map(entry);
+  const select = (options: Partial<typeof DEFAULT_FOLDER_IMPORT_OPTIONS>) =>
+    selectFolderEntries(entries, { ...DEFAULT_FOLDER_IMPORT_OPTIONS, ...options }, getFileType).map(e => e.relativePath);
+
+  it('drops unsupported files and files deeper than the limit', () => {
+    expect(select({ maxDepth: 1 })).toEqual(['a.pdf', 'one/c.txt', 'drafts/e.pdf']);
+    expect(select({ maxDepth: 0 })).toEqual(['a.pdf']);
+  });
+
+  it('keeps only included files and then drops excluded ones', () => {
+    expect(select({ includePatterns: ['*.pdf'], excludePatterns: ['drafts'] })).toEqual(['a.pdf', 'one/two/d.pdf']);
+  });
+});
+
+describe('buildFolderImport', () => {
+  it('makes a hub note per folder linked to its files and subfolders', () => {
+    const result = buildFolderImport('Root', ['b.pdf', 'sub/a.txt', 'a.pdf'].map(entry), getFileType, 100, 50);
+    expect(result.fileCount).toBe(3);
+    expect(result.folderCount).toBe(2);
+    const byTitle = new Map(result.nodes.map(node => [node.title, node]));
+    const root = byTitle.get('Root')!;
+    const sub = byTitle.get('sub')!;
+    expect(sub).toMatchObject({ type: 'note', content: 'Root/sub' });
+    expect(byTitle.get('a.txt')).toMatchObject({ type: 'file', fileType: 'TXT', filePath: '/root/sub/a.txt' });
+    const pairs = result.links.map(link => [link.sourceNodeId, link.targetNodeId]);
+    expect(pairs).toEqual([
+      [sub.id, byTitle.get('a.txt')!.id],
+      [root.id, sub.id],
+      [root.id, byTitle.get('a.pdf')!.id],
+      [root.id, byTitle.get('b.pdf')!.id],
+    ]);
+  });
+
+  it('places files top to bottom and each hub beside the middle of its contents', () => {
+    const result = buildFolderImport('Root', ['sub/a.txt', 'b.pdf'].map(entry), getFileType, 100, 50);
+    const byTitle = new Map(result.nodes.map(node => [node.title, node]));
+    expect(byTitle.get('Root')).toMatchObject({ x: 100, y: 160 });
+    expect(byTitle.get('sub')).toMatchObject({ x: 456, y: 50 });
+    expect(byTitle.get('a.txt')).toMatchObject({ x: 812, y: 50 });
+    expect(byTitle.get('b.pdf')).toMatchObject({ x: 456, y: 270 });
+  });
+
+  it('creates nothing when no files were selected', () => {
+    expect(buildFolderImport('Root', [], getFileType, 0, 0)).toEqual({ nodes: [], links: [], fileCount: 0, folderCount: 0 });
+  });
+});
@@ -0,0 +1,186 @@
+// src/lib/folder-import.ts
+// ドロップしたフォルダの中身を、ファイルごとのノードと、フォルダごとのハブのノート（中身へのリンク付き）に変換する
+import { v4 as uuidv4 } from 'uuid';
+import type { FileType, LinkData, NodeData } from '@/types';
+import { DEFAULT_LINK_RELATION_TYPE } from '@/lib/link-relations';
+
+export interface FolderEntry {
+  relativePath: string; // ドロップしたフォルダからの相対パス（区切りは "/"）
+  filePath: string;
+}
+
+// file:readFolderTree の結果。truncated はファイルが多すぎて途中で読むのをやめたとき
+export interface FolderTree {
+  folderName: string;
+  files: FolderEntry[];
+  truncated: boolean;
+}
+
+export interface FolderImportOptions {
+  maxDepth: number; // 0 ならドロップしたフォルダの直下だけ
+  includePatterns: string[]; // 空なら全てのファイル
+  excludePatterns: string[];
+  skipDuplicates: boolean; // 同じパスのファイルノードがキャンバスにあれば作らない
+}
+
+export const FOLDER_IMPORT_MAX_DEPTH = 50;
+
+export const DEFAULT_FOLDER_IMPORT_OPTIONS: FolderImportOptions = {
+  maxDepth: 5,
+  includePatterns: [],
+  excludePatterns: [],
+  skipDuplicates: true,
+};
+
+export interface FolderImportResult {
+  nodes: NodeData[];
+  links: LinkData[];
+  fileCount: number;
+  folderCount: number;
+}
+
+// 木の配置の間隔（階層のレイアウトと同じく、左から右へ深くなる）
+const NODE_WIDTH = 256;
+const NODE_HEIGHT = 160;
+const HORIZONTAL_SPACING = 100;
+const VERTICAL_SPACING = 60;
+
+// "," か改行で区切った入力を、パターンの一覧にする
+export const parseGlobPatterns = (value: string): string[] =>
+  value.split(/[,\n]/).map(pattern => pattern.trim().replace(/\\/g, '/').replace(/^\.?\//, '')).filter(Boolean);
+
+export const formatGlobPatterns = (patterns: string[]): string => patterns.join(', ');
+
+// "**" は "/" をまたいで、"*" と "?" は1つの階層の中だけで一致する
+const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" は0個以上の階層
+      const followedBySlash = pattern[i + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      i += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+};
+
+// .gitignore と同じく、"/" を含まないパターン（"*.pdf"・"drafts"）はどの階層の名前とも比べ、
+// 含むパターン（"docs/**"）はフォルダからの相対パス全体と比べる。フォルダに一致すればその中のファイルも一致する
+export const matchesGlob = (relativePath: string, pattern: string): boolean => {
+  const regExp = globToRegExp(pattern.replace(/\/+$/, ''));
+  const segments = relativePath.split('/');
+  if (!pattern.includes('/')) return segments.some(segment => regExp.test(segment));
+  return segments.some((_, index) => regExp.test(segments.slice(0, index + 1).join('/')));
+};
+
+const getDepth = (relativePath: string) => relativePath.split('/').length - 1;
+
+// 対応していない種類のファイル、深すぎるファイル、パターンで除いたファイルを落とす
+export const selectFolderEntries = (
+  entries: FolderEntry[],
+  options: FolderImportOptions,
+  getFileType: (fileName: string) => FileType,
+): FolderEntry[] =>
+  entries.filter(entry =>
+    getFileType(entry.relativePath.split('/').pop()!) !== 'OTHER'
+    && getDepth(entry.relativePath) <= options.maxDepth
+    && (options.includePatterns.length === 0 || options.includePatterns.some(pattern => matchesGlob(entry.relativePath, pattern)))
+    && !options.excludePatterns.some(pattern => matchesGlob(entry.relativePath, pattern)));
+
+interface FolderTreeNode {
+  name: string;
+  path: string;
+  folders: Map<string, FolderTreeNode>;
+  files: FolderEntry[];
+}
+
+// entries は selectFolderEntries で選んだもの（重複は除いてある）。ファイルを含まないフォルダのハブは作らない。
+// (originX, originY) を左上にして、ドロップしたフォルダのハブを左端、中身をその右へ並べる
+export const buildFolderImport = (
+  rootName: string,
+  entries: FolderEntry[],
+  getFileType: (fileName: string) => FileType,
+  originX: number,
+  originY: number,
+): FolderImportResult => {
+  const root: FolderTreeNode = { name: rootName, path: '', folders: new Map(), files: [] };
+  entries.forEach(entry => {
+    const segments = entry.relativePath.split('/');
+    let folder = root;
+    segments.slice(0, -1).forEach(segment => {
+      if (!folder.folders.has(segment)) {
+        const path = folder.path ? `${folder.path}/${segment}` : segment;
+        folder.folders.set(segment, { name: segment, path, folders: new Map(), files: [] });
+      }
+      folder = folder.folders.get(segment)!;
+    });
+    folder.files.push(entry);
+  });
+
+  const nodes: NodeData[] = [];
+  const links: LinkData[] = [];
+  let nextRow = 0;
+  const linkTo = (sourceNodeId: string, targetNodeId: string) => {
+    links.push({ id: uuidv4(), sourceNodeId, targetNodeId, relationType: DEFAULT_LINK_RELATION_TYPE });
+  };
+  const getX = (depth: number) => originX + depth * (NODE_WIDTH + HORIZONTAL_SPACING);
+  const getY = (row: number) => originY + row * (NODE_HEIGHT + VERTICAL_SPACING);
+
+  // 葉（ファイル）を上から順に並べ、フォルダのハブは中身の上下の真ん中に置く
+  const placeFolder = (folder: FolderTreeNode, depth: number): NodeData => {
+    const hub: NodeData = {
+      id: uuidv4(),
+      type: 'note',
+      title: folder.name,
+      content: folder.path ? `${rootName}/${folder.path}` : rootName,
+      tags: [],
+      x: getX(depth),
+      y: 0,
+      width: NODE_WIDTH,
+      height: NODE_HEIGHT,
+    };
+    nodes.push(hub);
+    const children: NodeData[] = [];
+    Array.from(folder.folders.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(subfolder => children.push(placeFolder(subfolder, depth + 1)));
+    [...folder.files]
+      .sort((a, b) => a.relativePath.localeCompare(b.relativePath))
+      .forEach(entry => {
+        const fileName = entry.relativePath.split('/').pop()!;
+        const fileNode: NodeData = {
+          id: uuidv4(),
+          type: 'file',
+          title: fileName,
+          fileType: getFileType(fileName),
+          filePath: entry.filePath,
+          tags: [],
+          x: getX(depth + 1),
+          y: getY(nextRow++),
+          width: NODE_WIDTH,
+          height: NODE_HEIGHT,
+        };
+        nodes.push(fileNode);
+        children.push(fileNode);
+      });
+    children.forEach(child => linkTo(hub.id, child.id));
+    hub.y = children.length > 0 ? (children[0].y + children[children.length - 1].y) / 2 : getY(nextRow++);
+    return hub;
+  };
+
+  if (entries.length > 0) placeFolder(root, 0);
+  return {
+    nodes,
+    links,
+    fileCount: entries.length,
+    folderCount: nodes.length - entries.length,
+  };
+};
@@ -0,0 +1,48 @@
+// src/lib/frames.ts
+// 枠（フレーム）の大きさの決まりと、ノードがどの枠に入るかの判定
+import type { FrameData, NodeData } from '@/types';
+import { TAG_COLORS } from '@/lib/tags';
+
+// 枠の色はタグと同じ色から選ぶ
+export const FRAME_COLORS = TAG_COLORS;
+export const DEFAULT_FRAME_COLOR = '#2563eb';
+
+export const FRAME_TITLE_HEIGHT = 32;
+export const FRAME_PADDING = 24;
+export const DEFAULT_FRAME_SIZE = { width: 480, height: 320 };
+export const MIN_FRAME_SIZE = { width: 160, height: 96 };
+
+// キャンバス上の既定の大きさ（NodeItem の幅と、レイアウトで使う高さ）
+const DEFAULT_NODE_WIDTH = 256;
+const DEFAULT_NODE_HEIGHT = 160;
+
+// 8桁の16進数で透明度を付ける（背景は薄く、枠線ははっきり）
+export const getFrameBackgroundColor = (color: string) => `${color}14`;
+export const getFrameBorderColor = (color: string) => `${color}80`;
+
+const getNodeCenter = (node: NodeData) => ({
+  x: node.x + (node.width || DEFAULT_NODE_WIDTH) / 2,
+  y: node.y + (node.height || DEFAULT_NODE_HEIGHT) / 2,
+});
+
+// ノードの中心を含む枠。重なっているときは小さい方（内側に見える方）
+export const findFrameForNode = (node: NodeData, frames: FrameData[]): FrameData | undefined => {
+  const center = getNodeCenter(node);
+  return frames
+    .filter(frame => center.x >= frame.x && center.x <= frame.x + frame.width && center.y >= frame.y && center.y <= frame.y + frame.height)
+    .sort((a, b) => a.width * a.height - b.width * b.height)[0];
+};
+
+// ノードを囲む枠の位置と大きさ（タイトルの帯と余白を含む）。キャンバスの左上より外には出さない
+export const getFrameBoundsForNodes = (nodes: NodeData[]): Pick<FrameData, 'x' | 'y' | 'width' | 'height'> => {
+  const x = Math.max(0, Math.min(...nodes.map(node => node.x)) - FRAME_PADDING);
+  const y = Math.max(0, Math.min(...nodes.map(node => node.y)) - FRAME_PADDING - FRAME_TITLE_HEIGHT);
+  const maxX = Math.max(...nodes.map(node => node.x + (node.width || DEFAULT_NODE_WIDTH)));
+  const maxY = Math.max(...nodes.map(node => node.y + (node.height || DEFAULT_NODE_HEIGHT)));
+  return {
+    x,
+    y,
+    width: Math.max(maxX + FRAME_PADDING - x, MIN_FRAME_SIZE.width),
+    height: Math.max(maxY + FRAME_PADDING - y, MIN_FRAME_SIZE.height),
+  };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { LinkData, NodeData } from '@/types';
+import { exportGraph, toDOT, toGEXF, toGraphML } from '@/lib/graph-export';
+
+const nodes: NodeData[] = [
+  { id: 'a', type: 'note', title: 'Fish & "Chips"', tags: ['food', 'uk'], x: 10, y: 20 },
+  { id: 'b', type: 'file', title: 'Menu', fileType: 'PDF', filePath: 'C:\\menu.pdf', x: 30, y: 40 },
+];
+const links: LinkData[] = [
+  { id: 'ab', sourceNodeId: 'a', targetNodeId: 'b', relationType: 'supports', label: 'see <menu>', weight: 2 },
+  { id: 'ba', sourceNodeId: 'b', targetNodeId: 'a', direction: 'none' },
+  { id: 'stray', sourceNodeId: 'a', targetNodeId: 'gone' },
+];
+
+describe('toGraphML', () => {
+  const graphml = toGraphML('Lunch', nodes, links);
+
+  it('escapes titles and labels', () => {
+    expect(graphml).toContain('<data key="label">Fish &amp; &quot;Chips&quot;</data>');
+    expect(graphml).toContain('<data key="edgeLabel">see &lt;menu&gt;</data>');
+  });
+
+  it('writes tags joined with semicolons', () => {
+    expect(graphml).toContain('<data key="tags">food;uk</data>');
+  });
+
+  it('marks undirected links and fills in the default relation type and weight', () => {
+    expect(graphml).toContain('<edge id="ba" source="b" target="a" directed="false">');
+    expect(graphml).toMatch(/<edge id="ba"[^]*?<data key="relationType">related<\/data>[^]*?<data key="weight">1<\/data>/);
+  });
+
+  it('leaves out links to nodes that are not exported', () => {
+    expect(graphml).not.toContain('stray');
+  });
+});
+
+describe('toGEXF', () => {
+  const gexf = toGEXF('Lunch', nodes, links);
+
+  it('flips the y axis', () => {
+    expect(gexf).toContain('<viz:position x="10" y="-20" z="0"/>');
+  });
+
+  it('maps link directions to edge types', () => {
+    expect(gexf).toContain('<edge id="ab" source="a" target="b" type="directed" weight="2" label="see &lt;menu&gt;">');
+    expect(gexf).toContain('<edge id="ba" source="b" target="a" type="undirected" weight="1">');
+    expect(gexf).not.toContain('stray');
+  });
+});
+
+describe('toDOT', () => {
+  const dot = toDOT('Lunch', nodes, links);
+
+  it('escapes quotes and backslashes', () => {
+    expect(dot).toContain('"a" [label="Fish & \\"Chips\\"", pos="10,-20!"');
+    expect(dot).toContain('filePath="C:\\\\menu.pdf"');
+  });
+
+  it('writes one edge per exported link with its direction', () => {
+    expect(dot).toContain('"a" -> "b" [relationType="supports", weight=2, label="see <menu>"];');
+    expect(dot).toContain('"b" -> "a" [relationType="related", weight=1, dir=none];');
+    expect(dot).not.toContain('gone');
+  });
+});
+
+describe('exportGraph', () => {
+  it('picks the writer for the format', () => {
+    expect(exportGraph('dot', 'Lunch', nodes, links)).toBe(toDOT('Lunch', nodes, links));
+    expect(exportGraph('graphml', 'Lunch', nodes, links)).toBe(toGraphML('Lunch', nodes, links));
+  });
+});
@@ -0,0 +1,159 @@
+// src/lib/graph-export.ts
+// ノードとリンクを Gephi / yEd / Graphviz で開ける形式（GraphML・GEXF・DOT）に書き出す
+import type { LinkData, LinkDirection, NodeData } from '@/types';
+import { getLinkDirection, getLinkRelationType, getLinkWeight } from '@/lib/link-relations';
+
+export type GraphExportFormat = 'graphml' | 'gexf' | 'dot';
+
+export const GRAPH_EXPORT_FORMATS: Array<{ value: GraphExportFormat; label: string; extension: string }> = [
+  { value: 'graphml', label: 'GraphML (yEd, Gephi)', extension: 'graphml' },
+  { value: 'gexf', label: 'GEXF (Gephi)', extension: 'gexf' },
+  { value: 'dot', label: 'Graphviz DOT', extension: 'dot' },
+];
+
+// 書き出すノードの属性。値が無い場合は空文字にする
+const NODE_ATTRIBUTES: Array<{ id: string; name: string; value: (node: NodeData) => string }> = [
+  { id: 'type', name: 'type', value: node => node.type },
+  { id: 'fileType', name: 'fileType', value: node => node.fileType || '' },
+  { id: 'tags', name: 'tags', value: node => (node.tags || []).join(';') },
+  { id: 'url', name: 'url', value: node => node.url || '' },
+  { id: 'filePath', name: 'filePath', value: node => node.filePath || '' },
+];
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const escapeDot = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/"/g, '\\"')
+  .replace(/\r?\n/g, '\\n');
+
+// 両端のノードが書き出し対象に含まれるリンクだけを残す
+const linksWithinNodes = (nodes: NodeData[], links: LinkData[]) => {
+  const nodeIds = new Set(nodes.map(node => node.id));
+  return links.filter(link => nodeIds.has(link.sourceNodeId) && nodeIds.has(link.targetNodeId));
+};
+
+export const toGraphML = (graphName: string, nodes: NodeData[], links: LinkData[]): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    ...NODE_ATTRIBUTES.map(attribute => `  <key id="${attribute.id}" for="node" attr.name="${attribute.name}" attr.type="string"/>`),
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="relationType" for="edge" attr.name="relationType" attr.type="string"/>',
+    '  <key id="edgeLabel" for="edge" attr.name="label" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <key id="direction" for="edge" attr.name="direction" attr.type="string"/>',
+    `  <graph id="${escapeXml(graphName)}" edgedefault="directed">`,
+  ];
+  nodes.forEach(node => {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="label">${escapeXml(node.title)}</data>`);
+    NODE_ATTRIBUTES.forEach(attribute => {
+      lines.push(`      <data key="${attribute.id}">${escapeXml(attribute.value(node))}</data>`);
+    });
+    lines.push(`      <data key="x">${node.x}</data>`);
+    lines.push(`      <data key="y">${node.y}</data>`);
+    lines.push('    </node>');
+  });
+  linksWithinNodes(nodes, links).forEach(link => {
+    // GraphML の辺は有向か無向のどちらかなので、両向きは direction の属性でだけ区別する
+    const directedAttribute = getLinkDirection(link) === 'none' ? ' directed="false"' : '';
+    lines.push(`    <edge id="${escapeXml(link.id)}" source="${escapeXml(link.sourceNodeId)}" target="${escapeXml(link.targetNodeId)}"${directedAttribute}>`);
+    lines.push(`      <data key="relationType">${getLinkRelationType(link)}</data>`);
+    if (link.label) lines.push(`      <data key="edgeLabel">${escapeXml(link.label)}</data>`);
+    lines.push(`      <data key="weight">${getLinkWeight(link)}</data>`);
+    lines.push(`      <data key="direction">${getLinkDirection(link)}</data>`);
+    lines.push('    </edge>');
+  });
+  lines.push('  </graph>', '</graphml>', '');
+  return lines.join('\n');
+};
+
+const GEXF_EDGE_TYPES: Record<LinkDirection, string> = {
+  forward: 'directed',
+  both: 'mutual',
+  none: 'undirected',
+};
+
+export const toGEXF = (graphName: string, nodes: NodeData[], links: LinkData[]): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    '    <creator>Knowledge Canvas</creator>',
+    `    <description>${escapeXml(graphName)}</description>`,
+    '  </meta>',
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    ...NODE_ATTRIBUTES.map((attribute, index) => `      <attribute id="${index}" title="${attribute.name}" type="string"/>`),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="0" title="relationType" type="string"/>',
+    '    </attributes>',
+    '    <nodes>',
+  ];
+  nodes.forEach(node => {
+    lines.push(`      <node id="${escapeXml(node.id)}" label="${escapeXml(node.title)}">`);
+    lines.push('        <attvalues>');
+    NODE_ATTRIBUTES.forEach((attribute, index) => {
+      lines.push(`          <attvalue for="${index}" value="${escapeXml(attribute.value(node))}"/>`);
+    });
+    lines.push('        </attvalues>');
+    // GEXF の y 軸は上向きなので、キャンバスと同じ並びになるよう反転する
+    lines.push(`        <viz:position x="${node.x}" y="${-node.y}" z="0"/>`);
+    lines.push('      </node>');
+  });
+  lines.push('    </nodes>', '    <edges>');
+  linksWithinNodes(nodes, links).forEach(link => {
+    const labelAttribute = link.label ? ` label="${escapeXml(link.label)}"` : '';
+    const typeAttribute = GEXF_EDGE_TYPES[getLinkDirection(link)];
+    lines.push(`      <edge id="${escapeXml(link.id)}" source="${escapeXml(link.sourceNodeId)}" target="${escapeXml(link.targetNodeId)}" type="${typeAttribute}" weight="${getLinkWeight(link)}"${labelAttribute}>`);
+    lines.push(`        <attvalues><attvalue for="0" value="${getLinkRelationType(link)}"/></attvalues>`);
+    lines.push('      </edge>');
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>', '');
+  return lines.join('\n');
+};
+
+export const toDOT = (graphName: string, nodes: NodeData[], links: LinkData[]): string => {
+  const lines = [
+    `digraph "${escapeDot(graphName)}" {`,
+    '  node [shape=box];',
+  ];
+  nodes.forEach(node => {
+    const attributes = [
+      `label="${escapeDot(node.title)}"`,
+      // Graphviz の y 軸は上向きなので反転する。"!" は neato / fdp で位置を固定する指定
+      `pos="${node.x},${-node.y}!"`,
+      ...NODE_ATTRIBUTES.map(attribute => `${attribute.name}="${escapeDot(attribute.value(node))}"`),
+    ];
+    lines.push(`  "${escapeDot(node.id)}" [${attributes.join(', ')}];`);
+  });
+  linksWithinNodes(nodes, links).forEach(link => {
+    const attributes = [`relationType="${getLinkRelationType(link)}"`, `weight=${getLinkWeight(link)}`];
+    if (link.label) attributes.push(`label="${escapeDot(link.label)}"`);
+    if (getLinkDirection(link) === 'none') attributes.push('dir=none');
+    if (getLinkDirection(link) === 'both') attributes.push('dir=both');
+    lines.push(`  "${escapeDot(link.sourceNodeId)}" -> "${escapeDot(link.targetNodeId)}" [${attributes.join(', ')}];`);
+  });
+  lines.push('}', '');
+  return lines.join('\n');
+};
+
+export const exportGraph = (format: GraphExportFormat, graphName: string, nodes: NodeData[], links: LinkData[]): string => {
+  switch (format) {
+    case 'graphml':
+      return toGraphML(graphName, nodes, links);
+    case 'gexf':
+      return toGEXF(graphName, nodes, links);
+    case 'dot':
+      return toDOT(graphName, nodes, links);
+  }
+};
@@ -0,0 +1,345 @@
+// src/lib/image-export.ts
+// キャンバスのノードカード・タグ・リンクを、画面の見た目に近い SVG として描き直す。
+// PNG はこの SVG をレンダラーで画像にし、PDF はメインプロセスで印刷して作る
+import type { LinkData, NodeData } from '@/types';
+import { getLinkDashArray, getLinkDirection, getLinkDisplayText, getLinkStrokeWidth } from '@/lib/link-relations';
+
+export type ImageExportFormat = 'svg' | 'png' | 'pdf';
+
+export const IMAGE_EXPORT_FORMATS: Array<{ value: ImageExportFormat; label: string; extension: string }> = [
+  { value: 'png', label: 'PNG image', extension: 'png' },
+  { value: 'svg', label: 'SVG vector image', extension: 'svg' },
+  { value: 'pdf', label: 'PDF document', extension: 'pdf' },
+];
+
+export type ImageExportBackground = 'canvas' | 'white' | 'transparent';
+
+export const IMAGE_EXPORT_BACKGROUNDS: Array<{ value: ImageExportBackground; label: string; color: string | null }> = [
+  { value: 'canvas', label: 'Canvas gray', color: '#f0f0f0' },
+  { value: 'white', label: 'White', color: '#ffffff' },
+  { value: 'transparent', label: 'Transparent', color: null },
+];
+
+export const IMAGE_EXPORT_SCALES = [1, 2, 3, 4];
+
+// ブラウザの canvas で扱える大きさの上限（PNG のみ）
+export const MAX_PNG_DIMENSION = 16384;
+
+export interface ImageExportOptions {
+  scale: number;
+  margin: number;
+  background: ImageExportBackground;
+  // 種類のアイコン・開くボタン・選択の枠を描かない
+  hideChrome: boolean;
+  // 選択の枠を描くノード（hideChrome のときは使わない）
+  selectedNodeIds?: string[];
+}
+
+export interface RenderedImage {
+  svg: string;
+  // scale をかけた出力の大きさ（px）
+  width: number;
+  height: number;
+}
+
+// globals.css のライトテーマの色
+const COLORS = {
+  card: '#ffffff',
+  foreground: '#0a0a0a',
+  border: '#d9d9d9',
+  muted: '#737373',
+  secondary: '#e6e6e6',
+  primary: '#4b0082',
+  accent: '#8a2be2',
+};
+
+const TYPE_ICON_COLORS: Record<string, string> = {
+  note: COLORS.primary,
+  link: '#16a34a',
+  PDF: '#dc2626',
+  DOCX: '#2563eb',
+  EXCEL: '#16a34a',
+  POWERPOINT: '#ea580c',
+  IMAGE: '#7c3aed',
+};
+
+const FONT_FAMILY = "Inter, 'Segoe UI', 'Hiragino Sans', 'Noto Sans JP', sans-serif";
+const DEFAULT_NODE_WIDTH = 256;
+const PADDING = 12;
+const ICON_SIZE = 20;
+const TITLE_FONT_SIZE = 16;
+const DESCRIPTION_FONT_SIZE = 12;
+const CONTENT_FONT_SIZE = 14;
+const CONTENT_LINE_HEIGHT = 20;
+const MAX_CONTENT_LINES = 3;
+const TAG_FONT_SIZE = 12;
+const TAG_HEIGHT = 20;
+const TAG_PADDING_X = 8;
+const TAG_GAP = 4;
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// フォントを読み込まずに済むよう、文字幅は概算する（全角は 1em、半角は約 0.55em）
+const isWideCharacter = (character: string) => /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/.test(character);
+
+const measureText = (text: string, fontSize: number) =>
+  Array.from(text).reduce((width, character) => width + fontSize * (isWideCharacter(character) ? 1 : /[A-Z@#%&MW]/.test(character) ? 0.68 : 0.55), 0);
+
+const truncateText = (text: string, maxWidth: number, fontSize: number) => {
+  if (measureText(text, fontSize) <= maxWidth) return text;
+  const characters = Array.from(text);
+  while (characters.length > 0 && measureText(`${characters.join('')}…`, fontSize) > maxWidth) {
+    characters.pop();
+  }
+  return `${characters.join('')}…`;
+};
+
+// 幅に収まるように折り返す。半角の単語の途中ではなるべく改行しない
+const wrapText = (text: string, maxWidth: number, fontSize: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let current = '';
+    for (const character of Array.from(paragraph)) {
+      const candidate = current + character;
+      if (measureText(candidate, fontSize) <= maxWidth || current === '') {
+        current = candidate;
+        continue;
+      }
+      const breakAt = character === ' ' ? -1 : current.lastIndexOf(' ');
+      if (breakAt > 0) {
+        lines.push(current.slice(0, breakAt));
+        current = current.slice(breakAt + 1) + character;
+      } else {
+        lines.push(current.trimEnd());
+        current = character === ' ' ? '' : character;
+      }
+    }
+    lines.push(current);
+    if (lines.length > maxLines) break;
+  }
+  if (lines.length > maxLines) {
+    const visible = lines.slice(0, maxLines);
+    visible[maxLines - 1] = truncateText(`${visible[maxLines - 1]}…`, maxWidth, fontSize);
+    return visible;
+  }
+  return lines;
+};
+
+// タグを左から並べ、幅を超えたら次の行に送る
+const layoutTags = (tags: string[], maxWidth: number) => {
+  const positions: Array<{ tag: string; x: number; y: number; width: number }> = [];
+  let x = 0;
+  let y = 0;
+  tags.forEach(tag => {
+    const label = truncateText(tag, maxWidth - TAG_PADDING_X * 2, TAG_FONT_SIZE);
+    const width = measureText(label, TAG_FONT_SIZE) + TAG_PADDING_X * 2;
+    if (x > 0 && x + width > maxWidth) {
+      x = 0;
+      y += TAG_HEIGHT + TAG_GAP;
+    }
+    positions.push({ tag: label, x, y, width });
+    x += width + TAG_GAP;
+  });
+  return { positions, height: positions.length > 0 ? y + TAG_HEIGHT : 0 };
+};
+
+interface CardLayout {
+  node: NodeData;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  title: string;
+  description: string | null;
+  contentLines: string[];
+  isPlaceholder: boolean;
+  tags: ReturnType<typeof layoutTags>;
+}
+
+// NodeItem と同じ並び（見出し・本文3行まで・タグ）で大きさを決める
+const layoutCard = (node: NodeData, hideChrome: boolean): CardLayout => {
+  const width = node.width || DEFAULT_NODE_WIDTH;
+  const innerWidth = width - PADDING * 2;
+  const hasOpenButton = !hideChrome && ((node.type === 'file' && !!node.filePath) || (node.type === 'link' && !!node.url));
+  const titleWidth = innerWidth - (hideChrome ? 0 : ICON_SIZE + 8) - (hasOpenButton ? 24 : 0);
+  const title = truncateText(node.title, titleWidth, TITLE_FONT_SIZE);
+  const description = node.fileType || null;
+  const headerHeight = PADDING * 2 + TITLE_FONT_SIZE + 4 + (description ? DESCRIPTION_FONT_SIZE + 4 : 0);
+
+  const showsContent = node.type === 'note' || node.type === 'link' || (node.type === 'file' && !!node.content);
+  const placeholder = node.type === 'note' ? '' : 'No description.';
+  const contentText = node.content || placeholder;
+  const contentLines = showsContent && contentText ? wrapText(contentText, innerWidth, CONTENT_FONT_SIZE, MAX_CONTENT_LINES) : [];
+  const contentHeight = contentLines.length > 0 ? contentLines.length * CONTENT_LINE_HEIGHT + PADDING : 0;
+
+  const tags = layoutTags(node.tags || [], innerWidth);
+  const footerHeight = tags.height > 0 ? tags.height + PADDING + 4 + 1 : 0;
+
+  const minHeight = node.type === 'file' ? 160 : node.content ? 160 : 100;
+  const height = node.height || Math.max(minHeight, headerHeight + contentHeight + footerHeight);
+  return {
+    node,
+    x: node.x,
+    y: node.y,
+    width,
+    height,
+    title,
+    description,
+    contentLines,
+    isPlaceholder: !node.content,
+    tags,
+  };
+};
+
+const renderCard = (card: CardLayout, options: ImageExportOptions): string => {
+  const { node, x, y, width, height } = card;
+  const isSelected = !options.hideChrome && (options.selectedNodeIds || []).includes(node.id);
+  const parts: string[] = [
+    `<g transform="translate(${x} ${y})">`,
+    `<rect width="${width}" height="${height}" rx="8" fill="${COLORS.card}" stroke="${isSelected ? COLORS.accent : COLORS.border}" stroke-width="${isSelected ? 2 : 1}"/>`,
+  ];
+
+  let titleX = PADDING;
+  if (!options.hideChrome) {
+    const iconColor = TYPE_ICON_COLORS[node.type === 'file' ? node.fileType || '' : node.type] || COLORS.muted;
+    parts.push(`<rect x="${PADDING}" y="${PADDING + 2}" width="${ICON_SIZE}" height="${ICON_SIZE}" rx="4" fill="${iconColor}" opacity="0.85"/>`);
+    titleX += ICON_SIZE + 8;
+    if ((node.type === 'file' && node.filePath) || (node.type === 'link' && node.url)) {
+      parts.push(`<text x="${width - PADDING}" y="${PADDING + TITLE_FONT_SIZE}" text-anchor="end" font-size="14" fill="${COLORS.muted}">↗</text>`);
+    }
+  }
+  parts.push(`<text x="${titleX}" y="${PADDING + TITLE_FONT_SIZE}" font-size="${TITLE_FONT_SIZE}" font-weight="600" fill="${COLORS.foreground}">${escapeXml(card.title)}</text>`);
+  let cursorY = PADDING + TITLE_FONT_SIZE + 4;
+  if (card.description) {
+    parts.push(`<text x="${titleX}" y="${cursorY + DESCRIPTION_FONT_SIZE}" font-size="${DESCRIPTION_FONT_SIZE}" fill="${COLORS.muted}">${escapeXml(card.description)}</text>`);
+    cursorY += DESCRIPTION_FONT_SIZE + 4;
+  }
+  cursorY += PADDING;
+
+  if (card.contentLines.length > 0) {
+    const style = card.isPlaceholder ? ` fill="${COLORS.muted}" font-style="italic"` : ` fill="${COLORS.foreground}"`;
+    parts.push(`<text font-size="${CONTENT_FONT_SIZE}"${style}>`);
+    card.contentLines.forEach((line, index) => {
+      parts.push(`<tspan x="${PADDING}" y="${cursorY + CONTENT_FONT_SIZE + index * CONTENT_LINE_HEIGHT}" xml:space="preserve">${escapeXml(line)}</tspan>`);
+    });
+    parts.push('</text>');
+  }
+
+  if (card.tags.positions.length > 0) {
+    const footerTop = height - card.tags.height - PADDING - 4;
+    parts.push(`<line x1="0" y1="${footerTop}" x2="${width}" y2="${footerTop}" stroke="${COLORS.border}"/>`);
+    card.tags.positions.forEach(tag => {
+      const tagY = footerTop + 4 + tag.y;
+      parts.push(`<rect x="${PADDING + tag.x}" y="${tagY}" width="${tag.width}" height="${TAG_HEIGHT}" rx="${TAG_HEIGHT / 2}" fill="${COLORS.secondary}"/>`);
+      parts.push(`<text x="${PADDING + tag.x + TAG_PADDING_X}" y="${tagY + 14}" font-size="${TAG_FONT_SIZE}" font-weight="600" fill="${COLORS.foreground}">${escapeXml(tag.tag)}</text>`);
+    });
+  }
+
+  parts.push('</g>');
+  return parts.join('\n');
+};
+
+// カードの中心から相手の中心へ向かう線が、カードの縁と交わる点
+const edgePoint = (card: CardLayout, towardX: number, towardY: number) => {
+  const centerX = card.x + card.width / 2;
+  const centerY = card.y + card.height / 2;
+  const dx = towardX - centerX;
+  const dy = towardY - centerY;
+  if (dx === 0 && dy === 0) return { x: centerX, y: centerY };
+  const scale = Math.min(
+    dx !== 0 ? (card.width / 2) / Math.abs(dx) : Infinity,
+    dy !== 0 ? (card.height / 2) / Math.abs(dy) : Infinity
+  );
+  return { x: centerX + dx * scale, y: centerY + dy * scale };
+};
+
+const renderLink = (link: LinkData, source: CardLayout, target: CardLayout): string => {
+  const sourceCenter = { x: source.x + source.width / 2, y: source.y + source.height / 2 };
+  const targetCenter = { x: target.x + target.width / 2, y: target.y + target.height / 2 };
+  const start = edgePoint(source, targetCenter.x, targetCenter.y);
+  const end = edgePoint(target, sourceCenter.x, sourceCenter.y);
+  const color = link.color || COLORS.primary;
+  const strokeWidth = getLinkStrokeWidth(link);
+  const dashArray = getLinkDashArray(link, strokeWidth);
+  const direction = getLinkDirection(link);
+  // 矢印はリンクごとに線と同じ色で作る（大きさは画面と同じく、太さほどには変えない）
+  const markerSize = 12 + strokeWidth * 1.5;
+  const markerId = `arrow-${link.id}`;
+  const parts = direction === 'none' ? [] : [
+    `<defs><marker id="${escapeXml(markerId)}" viewBox="0 0 10 10" refX="8" refY="5" markerUnits="userSpaceOnUse" markerWidth="${markerSize}" markerHeight="${markerSize}" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="${color}" fill-opacity="0.7"/></marker></defs>`,
+  ];
+  const attributes = [
+    `x1="${start.x}" y1="${start.y}" x2="${end.x}" y2="${end.y}"`,
+    `stroke="${color}" stroke-opacity="0.7" stroke-width="${strokeWidth}"`,
+    ...(dashArray ? [`stroke-dasharray="${dashArray}"`] : []),
+    ...(direction !== 'none' ? [`marker-end="url(#${escapeXml(markerId)})"`] : []),
+    ...(direction === 'both' ? [`marker-start="url(#${escapeXml(markerId)})"`] : []),
+  ];
+  parts.push(`<line ${attributes.join(' ')}/>`);
+  const displayText = getLinkDisplayText(link);
+  if (displayText) {
+    parts.push(`<text x="${(start.x + end.x) / 2}" y="${(start.y + end.y) / 2}" text-anchor="middle" dominant-baseline="middle" font-size="12" fill="${COLORS.foreground}" stroke="#ffffff" stroke-width="4" paint-order="stroke">${escapeXml(displayText)}</text>`);
+  }
+  return parts.join('\n');
+};
+
+export const renderCanvasImage = (nodes: NodeData[], links: LinkData[], options: ImageExportOptions): RenderedImage => {
+  const cards = nodes.map(node => layoutCard(node, options.hideChrome));
+  const cardsById = new Map(cards.map(card => [card.node.id, card]));
+
+  const minX = cards.length > 0 ? Math.min(...cards.map(card => card.x)) : 0;
+  const minY = cards.length > 0 ? Math.min(...cards.map(card => card.y)) : 0;
+  const maxX = cards.length > 0 ? Math.max(...cards.map(card => card.x + card.width)) : 0;
+  const maxY = cards.length > 0 ? Math.max(...cards.map(card => card.y + card.height)) : 0;
+  const viewX = minX - options.margin;
+  const viewY = minY - options.margin;
+  const viewWidth = Math.max(1, maxX - minX + options.margin * 2);
+  const viewHeight = Math.max(1, maxY - minY + options.margin * 2);
+  const width = Math.ceil(viewWidth * options.scale);
+  const height = Math.ceil(viewHeight * options.scale);
+
+  const backgroundColor = IMAGE_EXPORT_BACKGROUNDS.find(b => b.value === options.background)?.color;
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewX} ${viewY} ${viewWidth} ${viewHeight}" font-family="${escapeXml(FONT_FAMILY)}">`,
+  ];
+  if (backgroundColor) {
+    parts.push(`<rect x="${viewX}" y="${viewY}" width="${viewWidth}" height="${viewHeight}" fill="${backgroundColor}"/>`);
+  }
+  // 線はカードの下に描き、矢印がカードの縁に見えるようにする
+  links.forEach(link => {
+    const source = cardsById.get(link.sourceNodeId);
+    const target = cardsById.get(link.targetNodeId);
+    if (source && target && source !== target) parts.push(renderLink(link, source, target));
+  });
+  cards.forEach(card => parts.push(renderCard(card, options)));
+  parts.push('</svg>', '');
+  return { svg: parts.join('\n'), width, height };
+};
+
+// SVG を PNG にする（レンダラー専用）
+export const rasterizeSvg = (image: RenderedImage): Promise<Blob> => {
+  if (image.width > MAX_PNG_DIMENSION || image.height > MAX_PNG_DIMENSION) {
+    return Promise.reject(new Error(`The image would be ${image.width}×${image.height} px; PNG export is limited to ${MAX_PNG_DIMENSION} px per side.`));
+  }
+  return new Promise((resolve, reject) => {
+    const element = new Image();
+    element.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width;
+      canvas.height = image.height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Could not create a drawing context.'));
+        return;
+      }
+      context.drawImage(element, 0, 0, image.width, image.height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the PNG image.')), 'image/png');
+    };
+    element.onerror = () => reject(new Error('Could not render the SVG image.'));
+    element.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`;
+  });
+};
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import type { FrameData, LinkData, NodeData } from '@/types';
+import { exportJsonCanvas, importJsonCanvas, JsonCanvasError, parseJsonCanvas } from '@/lib/json-canvas';
+
+const options = { baseDirectory: '/vault/boards/', getFileType: () => 'PDF' as const };
+
+const nodes: NodeData[] = [
+  { id: 'n', type: 'note', title: 'Idea', content: 'Body #topic', tags: ['topic'], x: 0.4, y: 10 },
+  { id: 'f', type: 'file', title: 'paper.pdf', filePath: '/docs/paper.pdf', fileType: 'PDF', x: 300, y: 0, width: 200, height: 90 },
+  { id: 'u', type: 'link', title: 'Site', url: 'https://example.com', x: 600, y: 0 },
+];
+const links: LinkData[] = [
+  { id: 'nf', sourceNodeId: 'n', targetNodeId: 'f', relationType: 'supports', label: 'backs up' },
+  { id: 'fu', sourceNodeId: 'f', targetNodeId: 'u', direction: 'both' },
+  { id: 'un', sourceNodeId: 'u', targetNodeId: 'n', direction: 'none' },
+];
+
+describe('exportJsonCanvas', () => {
+  const canvas = JSON.parse(exportJsonCanvas(nodes, links));
+
+  it('writes notes as text with the title as a heading and fills in the default size', () => {
+    expect(canvas.nodes[0]).toEqual({ id: 'n', type: 'text', x: 0, y: 10, width: 256, height: 160, text: '# Idea\n\nBody #topic' });
+    expect(canvas.nodes[1]).toMatchObject({ type: 'file', file: '/docs/paper.pdf', width: 200, height: 90 });
+    expect(canvas.nodes[2]).toMatchObject({ type: 'link', url: 'https://example.com', height: 120 });
+  });
+
+  it('writes relation types as colors and directions as edge ends', () => {
+    expect(canvas.edges).toEqual([
+      { id: 'nf', fromNode: 'n', toNode: 'f', color: '4', label: 'backs up' },
+      { id: 'fu', fromNode: 'f', toNode: 'u', fromEnd: 'arrow' },
+      { id: 'un', fromNode: 'u', toNode: 'n', toEnd: 'none' },
+    ]);
+  });
+});
+
+describe('parseJsonCanvas', () => {
+  it('accepts a file without nodes or edges', () => {
+    expect(parseJsonCanvas('{}')).toEqual({ nodes: [], edges: [] });
+  });
+
+  it('rejects invalid JSON and nodes without geometry', () => {
+    expect(() => parseJsonCanvas('not json')).toThrow(JsonCanvasError);
+    expect(() => parseJsonCanvas('{"nodes":[{"id":"a","type":"text"}]}')).toThrow(/at nodes\.0\.x/);
+  });
+});
+
+describe('importJsonCanvas', () => {
+  it('reads back the nodes and links it exported', () => {
+    const imported = importJsonCanvas(parseJsonCanvas(exportJsonCanvas(nodes, links)), options);
+    expect(imported.skippedNodeCount).toBe(0);
+    expect(imported.nodes.map(({ id, ...rest }) => rest)).toEqual([
+      { type: 'note', title: 'Idea', content: 'Body #topic', tags: ['topic'], x: 0, y: 10, width: 256, height: 160 },
+      { type: 'file', title: 'paper.pdf', fileType: 'PDF', filePath: '/docs/paper.pdf', tags: [], x: 300, y: 0, width: 200, height: 90 },
+      { type: 'link', title: 'https://example.com', url: 'https://example.com', tags: [], x: 600, y: 0, width: 256, height: 120 },
+    ]);
+    const [note, file, link] = imported.nodes.map(node => node.id);
+    expect(imported.links.map(({ id, ...rest }) => rest)).toEqual([
+      { sourceNodeId: note, targetNodeId: file, relationType: 'supports', direction: 'forward', label: 'backs up' },
+      { sourceNodeId: file, targetNodeId: link, relationType: 'related', direction: 'both', label: undefined },
+      { sourceNodeId: link, targetNodeId: note, relationType: 'related', direction: 'none', label: undefined },
+    ]);
+  });
+
+  it('turns groups into frames, resolves relative files and skips unknown node types', () => {
+    const imported = importJsonCanvas({
+      nodes: [
+        { id: 'g', type: 'group', label: 'Sources', x: 0, y: 0, width: 500, height: 500 },
+        { id: 'a', type: 'file', file: 'papers/a.pdf', x: 10, y: 10, width: 100, height: 100 },
+        { id: 'b', type: 'text', text: 'First line\nmore', x: 900, y: 900, width: 100, height: 100 },
+        { id: 'c', type: 'widget', x: 0, y: 0, width: 10, height: 10 },
+      ],
+      edges: [{ id: 'e', fromNode: 'a', toNode: 'b', fromEnd: 'arrow', toEnd: 'none' }],
+    }, options);
+    expect(imported.skippedNodeCount).toBe(1);
+    expect(imported.frames).toEqual([
+      { id: imported.frames[0].id, title: 'Sources', color: '#2563eb', x: 0, y: 0, width: 500, height: 500 },
+    ]);
+    expect(imported.nodes[0]).toMatchObject({ filePath: '/vault/boards/papers/a.pdf', tags: [], frameId: imported.frames[0].id });
+    expect(imported.nodes[1]).toMatchObject({ title: 'First line', content: 'First line\nmore', tags: [] });
+    expect(imported.nodes[1].frameId).toBeUndefined();
+    // 矢印が fromNode 側にだけある辺は向きを逆にする
+    expect(imported.links[0]).toMatchObject({
+      sourceNodeId: imported.nodes[1].id,
+      targetNodeId: imported.nodes[0].id,
+      direction: 'forward',
+    });
+  });
+
+  it('resolves relative files against a Windows folder', () => {
+    const imported = importJsonCanvas({
+      nodes: [{ id: 'a', type: 'file', file: 'sub/a.pdf', x: 0, y: 0, width: 1, height: 1 }],
+      edges: [],
+    }, { ...options, baseDirectory: 'C:\\vault\\' });
+    expect(imported.nodes[0].filePath).toBe('C:\\vault\\sub\\a.pdf');
+  });
+});
+
+describe('colors and frames', () => {
+  const framedNodes: NodeData[] = [
+    { id: 'a', type: 'note', title: 'Inner', style: { backgroundColor: '#dc2626' }, frameId: 'small', x: 40, y: 60, width: 100, height: 50 },
+    { id: 'b', type: 'note', title: 'Outer', frameId: 'big', x: 500, y: 60, width: 100, height: 50 },
+  ];
+  const framedLinks: LinkData[] = [
+    { id: 'ab', sourceNodeId: 'a', targetNodeId: 'b', color: '#16a34a', relationType: 'supports' },
+  ];
+  const frames: FrameData[] = [
+    { id: 'big', title: 'Big', color: '#9333ea', x: 0, y: 0, width: 800, height: 400 },
+    { id: 'small', title: 'Small', color: '#0d9488', x: 20, y: 20, width: 200, height: 150 },
+  ];
+
+  it('exports frames as groups before the nodes, and node and link colors as hex colors', () => {
+    const canvas = JSON.parse(exportJsonCanvas(framedNodes, framedLinks, frames));
+    expect(canvas.nodes.slice(0, 2)).toEqual([
+      { id: 'big', type: 'group', x: 0, y: 0, width: 800, height: 400, color: '#9333ea', label: 'Big' },
+      { id: 'small', type: 'group', x: 20, y: 20, width: 200, height: 150, color: '#0d9488', label: 'Small' },
+    ]);
+    expect(canvas.nodes[2]).toMatchObject({ id: 'a', color: '#dc2626' });
+    expect(canvas.nodes[3]).not.toHaveProperty('color');
+    expect(canvas.edges[0]).toMatchObject({ color: '#16a34a' });
+  });
+
+  it('keeps frames, memberships and colors through a round-trip', () => {
+    const imported = importJsonCanvas(parseJsonCanvas(exportJsonCanvas(framedNodes, framedLinks, frames)), options);
+    const frameIdByTitle = new Map(imported.frames.map(frame => [frame.title, frame.id]));
+    expect(imported.frames.map(({ id, ...rest }) => rest)).toEqual(frames.map(({ id, ...rest }) => rest));
+    // 重なった枠では内側の枠に入る
+    expect(imported.nodes[0]).toMatchObject({ style: { backgroundColor: '#dc2626' }, frameId: frameIdByTitle.get('Small') });
+    expect(imported.nodes[1]).toMatchObject({ frameId: frameIdByTitle.get('Big') });
+    expect(imported.nodes[1]).not.toHaveProperty('style');
+    expect(imported.links[0]).toMatchObject({ color: '#16a34a', relationType: 'related' });
+  });
+
+  it('reads short hex colors and presets, and maps relation presets back to relation types', () => {
+    const imported = importJsonCanvas({
+      nodes: [
+        { id: 'g', type: 'group', color: '2', x: 0, y: 0, width: 10, height: 10 },
+        { id: 'a', type: 'text', text: 'A', color: '#F00', x: 100, y: 0, width: 10, height: 10 },
+        { id: 'b', type: 'text', text: 'B', color: 'red', x: 200, y: 0, width: 10, height: 10 },
+      ],
+      edges: [
+        { id: 'e1', fromNode: 'a', toNode: 'b', color: '1' },
+        { id: 'e2', fromNode: 'b', toNode: 'a', color: '3' },
+      ],
+    }, options);
+    expect(imported.frames[0]).toMatchObject({ title: '', color: '#ec7500' });
+    expect(imported.nodes[0].style).toEqual({ backgroundColor: '#ff0000' });
+    expect(imported.nodes[1]).not.toHaveProperty('style');
+    expect(imported.links[0]).toMatchObject({ relationType: 'contradicts' });
+    expect(imported.links[0]).not.toHaveProperty('color');
+    expect(imported.links[1]).toMatchObject({ relationType: 'related', color: '#e0ac00' });
+  });
+});
@@ -0,0 +1,280 @@
+// src/lib/json-canvas.ts
+// Obsidian などで使われる JSON Canvas（.canvas）形式との相互変換
+// https://jsoncanvas.org/spec/1.0/
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import type { FileType, FrameData, LinkData, LinkRelationType, NodeData } from '@/types';
+import { DEFAULT_LINK_RELATION_TYPE, getLinkDirection } from '@/lib/link-relations';
+import { extractInlineTags } from '@/lib/markdown-import';
+import { DEFAULT_FRAME_COLOR, findFrameForNode } from '@/lib/frames';
+
+export const JSON_CANVAS_FILE_EXTENSION = 'canvas';
+
+// JSON Canvas では幅と高さが必須なので、未設定のノードはキャンバス上の既定の大きさで書き出す
+const DEFAULT_NODE_WIDTH = 256;
+const DEFAULT_NOTE_HEIGHT = 160;
+const DEFAULT_OTHER_HEIGHT = 120;
+const MAX_TITLE_LENGTH = 80;
+
+// 関係の種類は辺の色（プリセット "1"〜"6"）で表し、読み込むときは色から戻す。
+// リンクに色を付けている場合は、その色（16進数）を優先して書き出す
+const RELATION_TYPE_COLORS: Partial<Record<LinkRelationType, string>> = {
+  supports: '4',
+  contradicts: '1',
+  'derived-from': '5',
+  'see-also': '6',
+};
+
+// プリセットの色を読み込むときの色（Obsidian の既定のテーマに近いもの）
+const PRESET_COLORS: Record<string, string> = {
+  '1': '#e93147',
+  '2': '#ec7500',
+  '3': '#e0ac00',
+  '4': '#08b94e',
+  '5': '#00bfbc',
+  '6': '#7852ee',
+};
+
+// "#rgb" / "#rrggbb" / プリセットを "#rrggbb" にする。読めない色は null
+const toHexColor = (color: string | undefined): string | null => {
+  if (!color) return null;
+  if (PRESET_COLORS[color]) return PRESET_COLORS[color];
+  const short = color.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/i);
+  if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`.toLowerCase();
+  return /^#[0-9a-f]{6}$/i.test(color) ? color.toLowerCase() : null;
+};
+
+const jsonCanvasNodeSchema = z.object({
+  id: z.string().min(1),
+  type: z.string(),
+  x: z.number().finite(),
+  y: z.number().finite(),
+  width: z.number().finite(),
+  height: z.number().finite(),
+  color: z.string().optional(),
+  text: z.string().optional(),
+  file: z.string().optional(),
+  url: z.string().optional(),
+  label: z.string().optional(),
+});
+
+const jsonCanvasEdgeSchema = z.object({
+  id: z.string().min(1),
+  fromNode: z.string().min(1),
+  toNode: z.string().min(1),
+  fromSide: z.string().optional(),
+  toSide: z.string().optional(),
+  fromEnd: z.string().optional(),
+  toEnd: z.string().optional(),
+  color: z.string().optional(),
+  label: z.string().optional(),
+});
+
+const jsonCanvasSchema = z.object({
+  nodes: z.array(jsonCanvasNodeSchema).default([]),
+  edges: z.array(jsonCanvasEdgeSchema).default([]),
+});
+
+export type JsonCanvas = z.infer<typeof jsonCanvasSchema>;
+type JsonCanvasNode = z.infer<typeof jsonCanvasNodeSchema>;
+
+export class JsonCanvasError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonCanvasError';
+  }
+}
+
+export interface JsonCanvasImportOptions {
+  // .canvas ファイルのあるフォルダ。相対パスのファイルはここから解決する
+  baseDirectory: string;
+  getFileType: (fileName: string) => FileType;
+}
+
+export interface JsonCanvasImportResult {
+  nodes: NodeData[];
+  links: LinkData[];
+  frames: FrameData[];
+  // 対応するノードの種類が無く読み飛ばしたノードの数（グループは枠になるので含めない）
+  skippedNodeCount: number;
+}
+
+const defaultHeight = (node: NodeData) => node.type === 'note' ? DEFAULT_NOTE_HEIGHT : DEFAULT_OTHER_HEIGHT;
+
+// ノートはタイトルを見出しにしたテキストとして書き出す
+const toCanvasText = (node: NodeData) => {
+  const content = (node.content || '').trim();
+  if (!node.title.trim()) return content;
+  return content ? `# ${node.title}\n\n${content}` : `# ${node.title}`;
+};
+
+const toJsonCanvasNode = (node: NodeData): Record<string, unknown> => {
+  const geometry = {
+    x: Math.round(node.x),
+    y: Math.round(node.y),
+    width: Math.round(node.width || DEFAULT_NODE_WIDTH),
+    height: Math.round(node.height || defaultHeight(node)),
+    ...(node.style?.backgroundColor ? { color: node.style.backgroundColor } : {}),
+  };
+  if (node.type === 'file' && node.filePath) return { id: node.id, type: 'file', ...geometry, file: node.filePath };
+  if (node.type === 'link' && node.url) return { id: node.id, type: 'link', ...geometry, url: node.url };
+  return { id: node.id, type: 'text', ...geometry, text: toCanvasText(node) };
+};
+
+// 枠はグループにする。JSON Canvas では後ろのノードほど手前に描かれるので、ノードより先に並べる
+const toJsonCanvasGroup = (frame: FrameData): Record<string, unknown> => ({
+  id: frame.id,
+  type: 'group',
+  x: Math.round(frame.x),
+  y: Math.round(frame.y),
+  width: Math.round(frame.width),
+  height: Math.round(frame.height),
+  color: frame.color,
+  ...(frame.title ? { label: frame.title } : {}),
+});
+
+export const exportJsonCanvas = (nodes: NodeData[], links: LinkData[], frames: FrameData[] = []): string => {
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const canvas = {
+    nodes: [...frames.map(toJsonCanvasGroup), ...nodes.map(toJsonCanvasNode)],
+    edges: links
+      .filter(link => nodeIds.has(link.sourceNodeId) && nodeIds.has(link.targetNodeId))
+      .map(link => {
+        const color = link.color || (link.relationType ? RELATION_TYPE_COLORS[link.relationType] : undefined);
+        const direction = getLinkDirection(link);
+        return {
+          id: link.id,
+          fromNode: link.sourceNodeId,
+          toNode: link.targetNodeId,
+          // JSON Canvas の既定は fromEnd: "none", toEnd: "arrow"
+          ...(direction === 'both' ? { fromEnd: 'arrow' } : {}),
+          ...(direction === 'none' ? { toEnd: 'none' } : {}),
+          ...(color ? { color } : {}),
+          ...(link.label ? { label: link.label } : {}),
+        };
+      }),
+  };
+  return JSON.stringify(canvas, null, 2);
+};
+
+export const parseJsonCanvas = (text: string): JsonCanvas => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new JsonCanvasError('The file is not valid JSON.');
+  }
+  const result = jsonCanvasSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const location = issue.path.length > 0 ? ` (at ${issue.path.join('.')})` : '';
+    throw new JsonCanvasError(`The file is not a valid JSON Canvas: ${issue.message}${location}.`);
+  }
+  return result.data;
+};
+
+// 先頭が見出しならそれをタイトルにし、本文からは外す。見出しが無ければ最初の行をタイトルにする
+const splitTitleFromText = (text: string): { title: string; content: string } => {
+  const trimmed = text.trim();
+  const heading = trimmed.match(/^#{1,6}[ \t]+(.+)(?:\r?\n|$)/);
+  if (heading) {
+    return { title: heading[1].trim(), content: trimmed.slice(heading[0].length).trim() };
+  }
+  const firstLine = trimmed.split(/\r?\n/, 1)[0].replace(/^[#>*\-\s]+/, '').trim();
+  return { title: firstLine.slice(0, MAX_TITLE_LENGTH), content: trimmed };
+};
+
+const isAbsolutePath = (filePath: string) => /^([A-Za-z]:[\\/]|[\\/])/.test(filePath);
+
+const resolveFilePath = (filePath: string, baseDirectory: string) => {
+  if (isAbsolutePath(filePath)) return filePath;
+  const separator = baseDirectory.includes('\\') && !baseDirectory.includes('/') ? '\\' : '/';
+  return `${baseDirectory.replace(/[\\/]+$/, '')}${separator}${filePath.replace(/[\\/]/g, separator)}`;
+};
+
+// グループは枠にする。ノードは中心を含む枠（重なっていれば内側の枠）に入れる
+const toFrame = (group: JsonCanvasNode): FrameData => ({
+  id: uuidv4(),
+  title: group.label?.trim() || '',
+  color: toHexColor(group.color) || DEFAULT_FRAME_COLOR,
+  x: group.x,
+  y: group.y,
+  width: Math.max(group.width, 1),
+  height: Math.max(group.height, 1),
+});
+
+export const importJsonCanvas = (canvas: JsonCanvas, options: JsonCanvasImportOptions): JsonCanvasImportResult => {
+  const frames = canvas.nodes.filter(node => node.type === 'group').map(toFrame);
+  const nodeIdMap = new Map<string, string>();
+  const nodes: NodeData[] = [];
+  let skippedNodeCount = 0;
+
+  canvas.nodes.forEach(canvasNode => {
+    if (canvasNode.type === 'group') return;
+    const backgroundColor = toHexColor(canvasNode.color);
+    const base = {
+      id: uuidv4(),
+      x: canvasNode.x,
+      y: canvasNode.y,
+      width: canvasNode.width > 0 ? canvasNode.width : undefined,
+      height: canvasNode.height > 0 ? canvasNode.height : undefined,
+      ...(backgroundColor ? { style: { backgroundColor } } : {}),
+    };
+    let node: NodeData;
+    if (canvasNode.type === 'text' && canvasNode.text !== undefined) {
+      const { title, content } = splitTitleFromText(canvasNode.text);
+      node = {
+        ...base,
+        type: 'note',
+        title,
+        content,
+        tags: Array.from(new Set(extractInlineTags(canvasNode.text))),
+      };
+    } else if (canvasNode.type === 'file' && canvasNode.file) {
+      const fileName = canvasNode.file.split(/[\\/]/).pop() || canvasNode.file;
+      node = {
+        ...base,
+        type: 'file',
+        title: fileName,
+        fileType: options.getFileType(fileName),
+        filePath: resolveFilePath(canvasNode.file, options.baseDirectory),
+        tags: [],
+      };
+    } else if (canvasNode.type === 'link' && canvasNode.url) {
+      node = { ...base, type: 'link', title: canvasNode.url, url: canvasNode.url, tags: [] };
+    } else {
+      skippedNodeCount += 1;
+      return;
+    }
+    const frame = findFrameForNode(node, frames);
+    if (frame) node.frameId = frame.id;
+    nodeIdMap.set(canvasNode.id, node.id);
+    nodes.push(node);
+  });
+
+  const links: LinkData[] = [];
+  canvas.edges.forEach(edge => {
+    const fromArrow = edge.fromEnd === 'arrow';
+    const toArrow = (edge.toEnd || 'arrow') === 'arrow';
+    // 矢印が fromNode 側にだけある辺は、向きを逆にした一方向のリンクにする
+    const isReversed = fromArrow && !toArrow;
+    const sourceNodeId = nodeIdMap.get(isReversed ? edge.toNode : edge.fromNode);
+    const targetNodeId = nodeIdMap.get(isReversed ? edge.fromNode : edge.toNode);
+    if (!sourceNodeId || !targetNodeId || sourceNodeId === targetNodeId) return;
+    // 関係の種類に割り当てたプリセットは関係の種類に戻し、それ以外の色はリンクの色にする
+    const presetRelationType = (Object.keys(RELATION_TYPE_COLORS) as LinkRelationType[])
+      .find(type => RELATION_TYPE_COLORS[type] === edge.color);
+    const color = presetRelationType ? null : toHexColor(edge.color);
+    links.push({
+      id: uuidv4(),
+      sourceNodeId,
+      targetNodeId,
+      relationType: presetRelationType || DEFAULT_LINK_RELATION_TYPE,
+      ...(color ? { color } : {}),
+      direction: fromArrow && toArrow ? 'both' : fromArrow || toArrow ? 'forward' : 'none',
+      label: edge.label && edge.label.trim() ? edge.label.trim() : undefined,
+    });
+  });
+
+  return { nodes, links, frames, skippedNodeCount };
+};
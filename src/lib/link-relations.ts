@@ -0,0 +1,69 @@
+// src/lib/link-relations.ts
+import type { LinkData, LinkDirection, LinkLineStyle, LinkRelationType } from '@/types';
+
+export const DEFAULT_LINK_RELATION_TYPE: LinkRelationType = 'related';
+
+export const LINK_RELATION_TYPES: Array<{ value: LinkRelationType; label: string }> = [
+  { value: 'related', label: 'Related to' },
+  { value: 'supports', label: 'Supports' },
+  { value: 'contradicts', label: 'Contradicts' },
+  { value: 'derived-from', label: 'Derived from' },
+  { value: 'see-also', label: 'See also' },
+];
+
+export const DEFAULT_LINK_DIRECTION: LinkDirection = 'forward';
+export const DEFAULT_LINK_LINE_STYLE: LinkLineStyle = 'solid';
+export const DEFAULT_LINK_WEIGHT = 1;
+export const LINK_WEIGHT_LIMITS = { min: 0.1, max: 10 };
+
+export const LINK_DIRECTIONS: Array<{ value: LinkDirection; label: string }> = [
+  { value: 'forward', label: 'One way (→)' },
+  { value: 'both', label: 'Both ways (↔)' },
+  { value: 'none', label: 'Undirected (—)' },
+];
+
+export const LINK_LINE_STYLES: Array<{ value: LinkLineStyle; label: string }> = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+];
+
+export const getLinkRelationType = (link: LinkData): LinkRelationType =>
+  link.relationType || DEFAULT_LINK_RELATION_TYPE;
+
+export const getLinkRelationTypeLabel = (relationType: LinkRelationType): string =>
+  LINK_RELATION_TYPES.find(t => t.value === relationType)?.label || relationType;
+
+// キャンバス上に表示する文字列。ラベルが無ければ関係の種類を表示する（既定の "related" は表示しない）
+export const getLinkDisplayText = (link: LinkData): string | null => {
+  if (link.label && link.label.trim()) return link.label.trim();
+  const relationType = getLinkRelationType(link);
+  return relationType === DEFAULT_LINK_RELATION_TYPE ? null : getLinkRelationTypeLabel(relationType);
+};
+
+export const getLinkDirection = (link: LinkData): LinkDirection =>
+  link.direction || DEFAULT_LINK_DIRECTION;
+
+export const getLinkLineStyle = (link: LinkData): LinkLineStyle =>
+  link.lineStyle || DEFAULT_LINK_LINE_STYLE;
+
+export const getLinkWeight = (link: LinkData): number =>
+  typeof link.weight === 'number' && Number.isFinite(link.weight) && link.weight > 0 ? link.weight : DEFAULT_LINK_WEIGHT;
+
+export const clampLinkWeight = (weight: number): number =>
+  Number.isFinite(weight) ? Math.min(LINK_WEIGHT_LIMITS.max, Math.max(LINK_WEIGHT_LIMITS.min, weight)) : DEFAULT_LINK_WEIGHT;
+
+// 重さ 1 で従来の太さ（2.5）。重いリンクほど太く描く
+export const getLinkStrokeWidth = (link: LinkData): number => 1.5 + getLinkWeight(link);
+
+// SVG の stroke-dasharray。点線・破線の間隔は線の太さに合わせる
+export const getLinkDashArray = (link: LinkData, strokeWidth: number): string | undefined => {
+  switch (getLinkLineStyle(link)) {
+    case 'dashed':
+      return `${strokeWidth * 4} ${strokeWidth * 2.5}`;
+    case 'dotted':
+      return `${strokeWidth} ${strokeWidth * 2}`;
+    default:
+      return undefined;
+  }
+};
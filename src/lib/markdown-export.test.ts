@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { LinkData, NodeData } from '@/types';
+import { exportCanvasToMarkdown } from '@/lib/markdown-export';
+import { importMarkdownFiles, parseFrontMatter } from '@/lib/markdown-import';
+
+const nodes: NodeData[] = [
+  { id: 'b-node-0001', type: 'note', title: 'Beta', content: 'Second\r\nline', tags: ['z', 'a'], x: 5, y: 6 },
+  { id: 'a-node-0001', type: 'note', title: 'Alpha: Intro', x: 1, y: 2, width: 300 },
+  { id: 'c-node-0001', type: 'note', title: 'beta', x: 0, y: 0 },
+];
+const links: LinkData[] = [
+  { id: 'l1', sourceNodeId: 'b-node-0001', targetNodeId: 'a-node-0001' },
+  { id: 'l2', sourceNodeId: 'b-node-0001', targetNodeId: 'a-node-0001' },
+  { id: 'l3', sourceNodeId: 'b-node-0001', targetNodeId: 'missing' },
+];
+
+describe('exportCanvasToMarkdown', () => {
+  const files = exportCanvasToMarkdown(nodes, links);
+
+  it('sorts the files by title and makes the file names safe and unique', () => {
+    expect(files.map(file => file.fileName)).toEqual(['Alpha_ Intro.md', 'beta.md', 'Beta (b-node-0).md']);
+  });
+
+  it('writes front-matter with sorted tags, position and size', () => {
+    const { data, body } = parseFrontMatter(files[0].content);
+    expect(data).toMatchObject({ id: 'a-node-0001', type: 'note', title: 'Alpha: Intro', tags: [], width: '300' });
+    expect(body).toBe('');
+    expect(files[2].content).toContain('tags:\n  - "a"\n  - "z"\n');
+  });
+
+  it('normalizes line breaks and writes one wiki-link per linked note', () => {
+    expect(files[2].content.endsWith('Second\nline\n\n[[Alpha_ Intro|Alpha: Intro]]\n')).toBe(true);
+  });
+
+  it('gives the same output for the same canvas', () => {
+    expect(exportCanvasToMarkdown([...nodes].reverse(), links)).toEqual(files);
+  });
+
+  it('links resolve again when the files are imported', () => {
+    const imported = importMarkdownFiles(files.map(file => ({ relativePath: file.fileName, content: file.content })));
+    expect(imported.unresolvedLinkCount).toBe(0);
+    expect(imported.links).toHaveLength(1);
+    const titleById = new Map(imported.nodes.map(node => [node.id, node.title]));
+    expect(titleById.get(imported.links[0].sourceNodeId)).toBe('Beta');
+    expect(titleById.get(imported.links[0].targetNodeId)).toBe('Alpha: Intro');
+  });
+});
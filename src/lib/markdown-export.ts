@@ -0,0 +1,95 @@
+// src/lib/markdown-export.ts
+// キャンバスを、ノードごとの Markdown ファイル（YAML front-matter 付き）に書き出す。
+// 同じ内容なら何度書き出しても同じ結果になるよう、日時は含めず、並び順も固定する
+import type { LinkData, NodeData } from '@/types';
+
+export interface MarkdownExportFile {
+  fileName: string;
+  content: string;
+}
+
+const MAX_FILE_BASE_NAME_LENGTH = 100;
+
+// ファイル名に使えない文字を置き換える（[[ ]] や | も wikilink を壊すので避ける）
+const toFileBaseName = (title: string) => {
+  const sanitized = title
+    .replace(/[\\/:*?"<>|#^[\]\r\n\t]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '_')
+    .slice(0, MAX_FILE_BASE_NAME_LENGTH)
+    .trim();
+  return sanitized || 'Untitled';
+};
+
+// YAML の値は JSON の文字列表記（YAML のダブルクォート文字列として読める）で書く
+const yamlString = (value: string) => JSON.stringify(value);
+
+const compareByTitleThenId = (a: NodeData, b: NodeData) =>
+  a.title.localeCompare(b.title, 'en') || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// 同じ名前になったノードには ID の先頭を付けて区別する（大文字小文字だけの違いも同じ名前とみなす）
+const assignFileBaseNames = (nodes: NodeData[]): Map<string, string> => {
+  const baseNames = new Map<string, string>();
+  const usedNames = new Set<string>();
+  [...nodes].sort(compareByTitleThenId).forEach(node => {
+    let baseName = toFileBaseName(node.title);
+    if (usedNames.has(baseName.toLowerCase())) {
+      baseName = `${baseName} (${node.id.slice(0, 8)})`;
+    }
+    usedNames.add(baseName.toLowerCase());
+    baseNames.set(node.id, baseName);
+  });
+  return baseNames;
+};
+
+const buildFrontMatter = (node: NodeData): string[] => {
+  const lines = [
+    '---',
+    `id: ${yamlString(node.id)}`,
+    `type: ${node.type}`,
+    `title: ${yamlString(node.title)}`,
+  ];
+  const tags = [...(node.tags || [])].sort();
+  if (tags.length > 0) {
+    lines.push('tags:', ...tags.map(tag => `  - ${yamlString(tag)}`));
+  } else {
+    lines.push('tags: []');
+  }
+  if (node.fileType) lines.push(`fileType: ${node.fileType}`);
+  if (node.url) lines.push(`url: ${yamlString(node.url)}`);
+  if (node.filePath) lines.push(`filePath: ${yamlString(node.filePath)}`);
+  lines.push('position:', `  x: ${node.x}`, `  y: ${node.y}`);
+  if (node.width !== undefined) lines.push(`width: ${node.width}`);
+  if (node.height !== undefined) lines.push(`height: ${node.height}`);
+  lines.push('---');
+  return lines;
+};
+
+export const exportCanvasToMarkdown = (nodes: NodeData[], links: LinkData[]): MarkdownExportFile[] => {
+  const baseNames = assignFileBaseNames(nodes);
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+  // ファイル名がタイトルと違う場合は [[ファイル名|タイトル]] にして、リンク先を解決できるようにする
+  const toWikilink = (node: NodeData) => {
+    const baseName = baseNames.get(node.id)!;
+    return baseName === node.title ? `[[${baseName}]]` : `[[${baseName}|${node.title.replace(/[\]|\r\n]/g, ' ')}]]`;
+  };
+
+  return [...nodes].sort(compareByTitleThenId).map(node => {
+    const outgoingTargets = links
+      .filter(link => link.sourceNodeId === node.id && nodesById.has(link.targetNodeId))
+      .map(link => nodesById.get(link.targetNodeId)!)
+      .sort(compareByTitleThenId);
+    const uniqueTargets = outgoingTargets.filter((target, index) => index === 0 || outgoingTargets[index - 1].id !== target.id);
+
+    const body = (node.content || '').replace(/\r\n?/g, '\n').trim();
+    const sections = [buildFrontMatter(node).join('\n')];
+    if (body) sections.push(body);
+    if (uniqueTargets.length > 0) sections.push(uniqueTargets.map(toWikilink).join('\n'));
+    return {
+      fileName: `${baseNames.get(node.id)}.md`,
+      content: `${sections.join('\n\n')}\n`,
+    };
+  });
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractInlineTags,
+  extractWikilinkTargets,
+  importMarkdownFiles,
+  parseFrontMatter,
+} from '@/lib/markdown-import';
+
+describe('parseFrontMatter', () => {
+  it('reads plain values, inline lists and block lists', () => {
+    const { data, body } = parseFrontMatter([
+      '---',
+      'title: "My Note"',
+      'tags: [a, \'b\']',
+      'aliases:',
+      '  - First',
+      '  - Second',
+      '---',
+      'Body',
+    ].join('\n'));
+    expect(data).toEqual({ title: 'My Note', tags: ['a', 'b'], aliases: ['First', 'Second'] });
+    expect(body).toBe('Body');
+  });
+
+  it('leaves content without front-matter as it is', () => {
+    expect(parseFrontMatter('# Heading\n---')).toEqual({ data: {}, body: '# Heading\n---' });
+  });
+});
+
+describe('extractInlineTags', () => {
+  it('reads nested tags and skips numbers, headings, anchors and code', () => {
+    const markdown = '# Heading\nSee #project/alpha and #idea/ but not #123, page#anchor or `#code`.\n```\n#fenced\n```';
+    expect(extractInlineTags(markdown)).toEqual(['project/alpha', 'idea']);
+  });
+});
+
+describe('extractWikilinkTargets', () => {
+  it('returns the target of aliased, heading and embedded links', () => {
+    expect(extractWikilinkTargets('[[Plain]] [[Other|shown]] [[Deep#Section]] ![[image.png]] [[ ]]'))
+      .toEqual(['Plain', 'Other', 'Deep', 'image.png']);
+  });
+});
+
+describe('importMarkdownFiles', () => {
+  it('makes one note per file with front-matter and inline tags', () => {
+    const { nodes } = importMarkdownFiles([
+      { relativePath: 'notes/alpha.md', content: '---\ntitle: Alpha Title\ntags: one two\n---\nText #two #three' },
+    ]);
+    expect(nodes).toHaveLength(1);
+    expect(nodes[0]).toMatchObject({ type: 'note', title: 'Alpha Title', content: 'Text #two #three', tags: ['one', 'two', 'three'] });
+  });
+
+  it('resolves links by path, file name and alias, and counts the ones it cannot find', () => {
+    const { nodes, links, unresolvedLinkCount } = importMarkdownFiles([
+      { relativePath: 'a.md', content: '[[folder/b]] [[B]] [[Gamma]] [[missing]] [[a]]' },
+      { relativePath: 'folder/b.md', content: 'No links' },
+      { relativePath: 'c.md', content: '---\naliases: Gamma, G\n---\n[[elsewhere/b]]' },
+    ]);
+    const idByTitle = Object.fromEntries(nodes.map(node => [node.title, node.id]));
+    const pairs = links.map(link => [link.sourceNodeId, link.targetNodeId]);
+    // 同じ組のリンクは1本にまとめ、自分自身へのリンクは作らない
+    expect(pairs).toEqual([
+      [idByTitle.a, idByTitle.b],
+      [idByTitle.a, idByTitle.c],
+      [idByTitle.c, idByTitle.b],
+    ]);
+    expect(unresolvedLinkCount).toBe(1);
+  });
+});
@@ -0,0 +1,154 @@
+// src/lib/markdown-import.ts
+// Obsidian の保管庫や Markdown のフォルダを、ノート・リンク・タグに変換する
+import { v4 as uuidv4 } from 'uuid';
+import type { LinkData, NodeData } from '@/types';
+import { DEFAULT_LINK_RELATION_TYPE } from '@/lib/link-relations';
+
+export interface MarkdownFile {
+  relativePath: string; // フォルダからの相対パス（区切りは "/"）
+  content: string;
+}
+
+export interface MarkdownImportResult {
+  nodes: NodeData[];
+  links: LinkData[];
+  // 対応するファイルが見つからなかった [[wikilink]] の数
+  unresolvedLinkCount: number;
+}
+
+type FrontMatterValue = string | string[];
+
+// 初期配置の格子の間隔（読み込み後にレイアウトをかけ直す）
+const GRID_SPACING_X = 300;
+const GRID_SPACING_Y = 220;
+
+const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+
+// YAML の front-matter のうち、"key: value"・"key: [a, b]"・"- item" のリストだけを読む
+export const parseFrontMatter = (content: string): { data: Record<string, FrontMatterValue>; body: string } => {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { data: {}, body: content };
+
+  const data: Record<string, FrontMatterValue> = {};
+  let currentListKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const listItem = line.match(/^\s*-\s+(.*)$/);
+    if (listItem && currentListKey) {
+      (data[currentListKey] as string[]).push(unquote(listItem[1]));
+      continue;
+    }
+    const keyValue = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (!keyValue) continue;
+    const [, key, rawValue] = keyValue;
+    const value = rawValue.trim();
+    if (value === '') {
+      data[key] = [];
+      currentListKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      data[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+      currentListKey = null;
+    } else {
+      data[key] = unquote(value);
+      currentListKey = null;
+    }
+  }
+  return { data, body: content.slice(match[0].length) };
+};
+
+// 1行で書かれた値は区切り文字で分ける（タグは空白でも区切れるが、別名は空白を含みうる）
+const toList = (value: FrontMatterValue | undefined, separator: RegExp): string[] => {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : value.split(separator).map(item => item.trim()).filter(Boolean);
+};
+
+const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '');
+
+// コードブロックやインラインコード中の "#" はタグとして扱わない
+const stripCode = (markdown: string) => markdown
+  .replace(/```[\s\S]*?```/g, '')
+  .replace(/~~~[\s\S]*?~~~/g, '')
+  .replace(/`[^`\n]*`/g, '');
+
+// Obsidian と同じく、数字だけのものはタグにしない。"#parent/child" の入れ子も1つのタグとして読む
+export const extractInlineTags = (markdown: string): string[] => {
+  const tags: string[] = [];
+  const pattern = /(?:^|[^\p{L}\p{N}_&#/])#([\p{L}\p{N}_\-/]+)/gu;
+  let match;
+  const text = stripCode(markdown);
+  while ((match = pattern.exec(text)) !== null) {
+    const tag = match[1].replace(/\/+$/, '');
+    if (tag && !/^[\d/]+$/.test(tag)) tags.push(tag);
+  }
+  return tags;
+};
+
+// [[Target]]・[[Target|表示名]]・[[Target#見出し]]・![[埋め込み]] のリンク先（Target）を返す
+export const extractWikilinkTargets = (markdown: string): string[] => {
+  const targets: string[] = [];
+  const pattern = /!?\[\[([^\]|#^]*)(?:[#^][^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+  let match;
+  const text = stripCode(markdown);
+  while ((match = pattern.exec(text)) !== null) {
+    const target = match[1].trim();
+    if (target) targets.push(target);
+  }
+  return targets;
+};
+
+const MARKDOWN_EXTENSION = /\.(md|markdown)$/i;
+
+const normalizeLinkKey = (value: string) => value.trim().replace(/\\/g, '/').replace(MARKDOWN_EXTENSION, '').toLowerCase();
+
+const baseName = (relativePath: string) => relativePath.split('/').pop()!.replace(MARKDOWN_EXTENSION, '');
+
+export const importMarkdownFiles = (files: MarkdownFile[]): MarkdownImportResult => {
+  const sortedFiles = [...files].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  const columns = Math.max(1, Math.ceil(Math.sqrt(sortedFiles.length)));
+
+  const parsedFiles = sortedFiles.map((file, index) => {
+    const { data, body } = parseFrontMatter(file.content);
+    const title = typeof data.title === 'string' && data.title.trim() ? data.title.trim() : baseName(file.relativePath);
+    const tags = Array.from(new Set(
+      [...toList(data.tags ?? data.tag, /[,\s]+/), ...extractInlineTags(body)].map(normalizeTag).filter(Boolean)
+    ));
+    const node: NodeData = {
+      id: uuidv4(),
+      type: 'note',
+      title,
+      content: body.trim(),
+      tags,
+      x: (index % columns) * GRID_SPACING_X,
+      y: Math.floor(index / columns) * GRID_SPACING_Y,
+    };
+    return { file, node, aliases: toList(data.aliases ?? data.alias, /,/), body };
+  });
+
+  // リンク先は、フォルダからの相対パス・ファイル名・front-matter の aliases のどれでも解決できるようにする
+  const nodeIdByKey = new Map<string, string>();
+  const register = (key: string, nodeId: string) => {
+    const normalized = normalizeLinkKey(key);
+    if (normalized && !nodeIdByKey.has(normalized)) nodeIdByKey.set(normalized, nodeId);
+  };
+  parsedFiles.forEach(({ file, node }) => register(file.relativePath, node.id));
+  parsedFiles.forEach(({ file, node }) => register(baseName(file.relativePath), node.id));
+  parsedFiles.forEach(({ node, aliases }) => aliases.forEach(alias => register(alias, node.id)));
+
+  const links: LinkData[] = [];
+  const linkedPairs = new Set<string>();
+  let unresolvedLinkCount = 0;
+  parsedFiles.forEach(({ node, body }) => {
+    extractWikilinkTargets(body).forEach(target => {
+      const targetId = nodeIdByKey.get(normalizeLinkKey(target)) ?? nodeIdByKey.get(normalizeLinkKey(target.split('/').pop()!));
+      if (!targetId) {
+        unresolvedLinkCount += 1;
+        return;
+      }
+      const pairKey = `${node.id}->${targetId}`;
+      if (targetId === node.id || linkedPairs.has(pairKey)) return;
+      linkedPairs.add(pairKey);
+      links.push({ id: uuidv4(), sourceNodeId: node.id, targetNodeId: targetId, relationType: DEFAULT_LINK_RELATION_TYPE });
+    });
+  });
+
+  return { nodes: parsedFiles.map(({ node }) => node), links, unresolvedLinkCount };
+};
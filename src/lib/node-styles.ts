@@ -0,0 +1,87 @@
+// src/lib/node-styles.ts
+// ノードごとの見た目（背景色・枠線・アイコン・大きさ）と、タグから既定の見た目を決めるルール
+import type { CSSProperties } from 'react';
+import type { NodeBorderStyle, NodeData, NodeIconName, NodeSize, NodeStyle, NodeStyleRule } from '@/types';
+import { TAG_COLORS, isTagInSubtree } from '@/lib/tags';
+
+export const NODE_COLORS = TAG_COLORS;
+
+export const NODE_BORDER_STYLES: Array<{ value: NodeBorderStyle; label: string }> = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+  { value: 'double', label: 'Double' },
+];
+
+export const NODE_ICONS: Array<{ value: NodeIconName; label: string }> = [
+  { value: 'star', label: 'Star' },
+  { value: 'flag', label: 'Flag' },
+  { value: 'alert', label: 'Warning' },
+  { value: 'idea', label: 'Idea' },
+  { value: 'check', label: 'Done' },
+  { value: 'question', label: 'Question' },
+  { value: 'bookmark', label: 'Bookmark' },
+  { value: 'heart', label: 'Heart' },
+];
+
+// 大きさはノードの幅として保存する（レイアウトや枠の計算は幅を見るため）
+export const NODE_SIZES: Array<{ value: NodeSize; label: string; width: number }> = [
+  { value: 'small', label: 'Small', width: 192 },
+  { value: 'medium', label: 'Medium', width: 256 },
+  { value: 'large', label: 'Large', width: 352 },
+];
+
+export const getNodeSizeWidth = (size: NodeSize | undefined): number =>
+  NODE_SIZES.find(preset => preset.value === size)?.width ?? 256;
+
+const RULE_STYLE_KEYS = ['backgroundColor', 'borderStyle', 'icon', 'emoji'] as const;
+const STYLE_KEYS = [...RULE_STYLE_KEYS, 'size'] as const;
+
+const pickStyleValues = (style: NodeStyle, keys: ReadonlyArray<keyof NodeStyle>): NodeStyle =>
+  Object.fromEntries(keys.filter(key => style[key]).map(key => [key, style[key]]));
+
+// 値の入っていない項目を落とす。何も残らなければ undefined（data に空の style を書かない）
+export const compactNodeStyle = (style: NodeStyle | undefined): NodeStyle | undefined => {
+  if (!style) return undefined;
+  const compacted = pickStyleValues(style, STYLE_KEYS);
+  return Object.keys(compacted).length > 0 ? compacted : undefined;
+};
+
+// ノード自身の設定を優先し、設定していない項目は当てはまるルールのうち最初のもので補う。
+// ルールのタグは階層の親を指定すると、その下のタグにも当てはまる
+export const resolveNodeStyle = (node: Pick<NodeData, 'tags' | 'style'>, rules: NodeStyleRule[]): NodeStyle => {
+  const tags = node.tags || [];
+  return rules
+    .filter(rule => rule.tag && tags.some(tag => isTagInSubtree(tag, rule.tag)))
+    .reduce<NodeStyle>(
+      (resolved, rule) => ({ ...pickStyleValues(rule.style, RULE_STYLE_KEYS), ...resolved }),
+      { ...compactNodeStyle(node.style) },
+    );
+};
+
+// 背景は文字が読めるように薄くし、枠線に元の色を使う
+export const getNodeCardStyle = (style: NodeStyle): CSSProperties => ({
+  ...(style.backgroundColor && {
+    backgroundColor: `color-mix(in srgb, ${style.backgroundColor} 14%, hsl(var(--card)))`,
+    borderColor: style.backgroundColor,
+  }),
+  ...(style.borderStyle && {
+    borderStyle: style.borderStyle,
+    borderWidth: style.borderStyle === 'double' ? 4 : 2,
+  }),
+});
+
+// settings テーブルに JSON 文字列で保存したルール。壊れた値や形の違う項目は捨てる
+export const parseNodeStyleRules = (value: string | null | undefined): NodeStyleRule[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((rule): rule is NodeStyleRule =>
+        rule && typeof rule.tag === 'string' && rule.style && typeof rule.style === 'object')
+      .map(rule => ({ tag: rule.tag, style: pickStyleValues(rule.style, RULE_STYLE_KEYS) }));
+  } catch {
+    return [];
+  }
+};
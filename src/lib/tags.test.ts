@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyTagRenames,
+  buildTagTree,
+  createTagDraft,
+  deleteTagInDraft,
+  getTagAncestors,
+  getTagSuggestions,
+  hasTagChanges,
+  isTagInSubtree,
+  mergeTagsInDraft,
+  normalizeTagPath,
+  renameTagInDraft,
+  setTagColorInDraft,
+  toTagChanges,
+} from '@/lib/tags';
+
+describe('tag paths', () => {
+  it('normalizes spaces and empty segments', () => {
+    expect(normalizeTagPath(' project / alpha//design/ ')).toBe('project/alpha/design');
+  });
+
+  it('matches a tag and the tags below it, but not siblings with the same prefix', () => {
+    expect(isTagInSubtree('project', 'project')).toBe(true);
+    expect(isTagInSubtree('project/alpha', 'project')).toBe(true);
+    expect(isTagInSubtree('projects', 'project')).toBe(false);
+  });
+
+  it('lists the ancestors from the top', () => {
+    expect(getTagAncestors('a/b/c')).toEqual(['a', 'a/b']);
+    expect(getTagAncestors('a')).toEqual([]);
+  });
+});
+
+describe('buildTagTree', () => {
+  it('adds the missing intermediate levels and sorts each level by name', () => {
+    expect(buildTagTree(['project/beta', 'project/alpha/design', 'inbox'])).toEqual([
+      { path: 'inbox', name: 'inbox', isTag: true, children: [] },
+      {
+        path: 'project', name: 'project', isTag: false, children: [
+          {
+            path: 'project/alpha', name: 'alpha', isTag: false, children: [
+              { path: 'project/alpha/design', name: 'design', isTag: true, children: [] },
+            ],
+          },
+          { path: 'project/beta', name: 'beta', isTag: true, children: [] },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('getTagSuggestions', () => {
+  const tags = ['project/alpha', 'project/alpine/x', 'project', 'Alps'];
+
+  it('matches anywhere in the path when the input has no separator', () => {
+    expect(getTagSuggestions(tags, 'alp').map(suggestion => suggestion.path))
+      .toEqual(['Alps', 'project/alpha', 'project/alpine', 'project/alpine/x']);
+  });
+
+  it('suggests only the direct children of the typed parent', () => {
+    expect(getTagSuggestions(tags, 'Project/al')).toEqual([
+      { path: 'project/alpha', isTag: true, hasChildren: false },
+      { path: 'project/alpine', isTag: false, hasChildren: true },
+    ]);
+  });
+
+  it('leaves out tags that were already added but keeps them as parents', () => {
+    expect(getTagSuggestions(tags, 'proj', ['project']).map(suggestion => suggestion.path))
+      .toEqual(['project/alpha', 'project/alpine', 'project/alpine/x']);
+    expect(getTagSuggestions(tags, '  ')).toEqual([]);
+  });
+});
+
+const usage = [
+  { tag: 'beta', count: 2 },
+  { tag: 'alpha', count: 3 },
+  { tag: 'gamma', count: 1 },
+];
+const colors = { alpha: '#dc2626', gamma: '#2563eb' };
+
+describe('tag draft', () => {
+  it('starts sorted with the stored colors and no changes', () => {
+    const draft = createTagDraft(usage, colors);
+    expect(draft.entries.map(entry => [entry.tag, entry.color])).toEqual([
+      ['alpha', '#dc2626'],
+      ['beta', null],
+      ['gamma', '#2563eb'],
+    ]);
+    expect(hasTagChanges(toTagChanges(draft, colors))).toBe(false);
+  });
+
+  it('moves the color to the new name when a tag is renamed', () => {
+    const draft = renameTagInDraft(createTagDraft(usage, colors), 'alpha', 'delta');
+    expect(toTagChanges(draft, colors)).toEqual({
+      renames: { alpha: 'delta' },
+      colors: { delta: '#dc2626', alpha: null },
+    });
+  });
+
+  it('merges into an existing tag, keeps its color and adds up the counts', () => {
+    const draft = mergeTagsInDraft(createTagDraft(usage, colors), ['alpha', 'beta'], 'gamma');
+    expect(draft.entries).toEqual([{ tag: 'gamma', sourceTags: ['alpha', 'beta', 'gamma'], count: 6, color: '#2563eb' }]);
+    expect(toTagChanges(draft, colors)).toEqual({
+      renames: { alpha: 'gamma', beta: 'gamma' },
+      colors: { alpha: null },
+    });
+  });
+
+  it('ignores a merge into an empty name', () => {
+    const draft = createTagDraft(usage, colors);
+    expect(mergeTagsInDraft(draft, ['alpha'], ' / ')).toBe(draft);
+  });
+
+  it('removes deleted tags from every node, including the tags merged into them', () => {
+    let draft = renameTagInDraft(createTagDraft(usage, colors), 'beta', 'alpha');
+    draft = deleteTagInDraft(draft, 'alpha');
+    expect(toTagChanges(draft, colors)).toEqual({
+      renames: { alpha: null, beta: null },
+      colors: { alpha: null },
+    });
+  });
+
+  it('records color changes only when they differ from the stored color', () => {
+    let draft = setTagColorInDraft(createTagDraft(usage, colors), 'beta', '#16a34a');
+    draft = setTagColorInDraft(draft, 'gamma', null);
+    draft = setTagColorInDraft(draft, 'alpha', '#dc2626');
+    expect(toTagChanges(draft, colors)).toEqual({ renames: {}, colors: { beta: '#16a34a', gamma: null } });
+  });
+});
+
+describe('applyTagRenames', () => {
+  it('renames, drops and de-duplicates tags in a list', () => {
+    expect(applyTagRenames(['alpha', 'beta', 'gamma', 'other'], { alpha: 'gamma', beta: null }))
+      .toEqual(['gamma', 'other']);
+  });
+});
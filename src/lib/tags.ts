@@ -0,0 +1,188 @@
+// src/lib/tags.ts
+// タグの階層（"project/alpha/design" のような / 区切り）、タグの色と、
+// タグ管理ダイアログでの編集内容（保存するまで DB には書かず、最後に TagChanges にまとめる）
+import type { CSSProperties } from 'react';
+import type { TagChanges, TagColors, TagUsage } from '@/types';
+
+export const TAG_PATH_SEPARATOR = '/';
+
+// " project / alpha//design/ " → "project/alpha/design"
+export const normalizeTagPath = (tag: string): string =>
+  tag.split(TAG_PATH_SEPARATOR).map(segment => segment.trim()).filter(Boolean).join(TAG_PATH_SEPARATOR);
+
+// tag が parent そのものか、その下の階層にあれば true
+export const isTagInSubtree = (tag: string, parent: string): boolean =>
+  tag === parent || tag.startsWith(parent + TAG_PATH_SEPARATOR);
+
+// "a/b/c" → ["a", "a/b"]
+export const getTagAncestors = (tag: string): string[] => {
+  const segments = tag.split(TAG_PATH_SEPARATOR);
+  return segments.slice(1).map((_, index) => segments.slice(0, index + 1).join(TAG_PATH_SEPARATOR));
+};
+
+const getParentPath = (tag: string) => {
+  const index = tag.lastIndexOf(TAG_PATH_SEPARATOR);
+  return index === -1 ? '' : tag.slice(0, index);
+};
+
+// isTag が false のものは、どのノードにも直接は付いておらず、下の階層のタグから補った途中の階層
+export interface TagTreeNode {
+  path: string;
+  name: string;
+  isTag: boolean;
+  children: TagTreeNode[];
+}
+
+export const buildTagTree = (tags: string[]): TagTreeNode[] => {
+  const roots: TagTreeNode[] = [];
+  const nodesByPath = new Map<string, TagTreeNode>();
+  const ensureNode = (path: string): TagTreeNode => {
+    const existing = nodesByPath.get(path);
+    if (existing) return existing;
+    const parentPath = getParentPath(path);
+    const node: TagTreeNode = { path, name: path.slice(parentPath ? parentPath.length + 1 : 0), isTag: false, children: [] };
+    nodesByPath.set(path, node);
+    (parentPath ? ensureNode(parentPath).children : roots).push(node);
+    return node;
+  };
+  tags.forEach(tag => { ensureNode(tag).isTag = true; });
+  const sortNodes = (nodes: TagTreeNode[]) => {
+    nodes.sort((a, b) => a.name.localeCompare(b.name));
+    nodes.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+  return roots;
+};
+
+export interface TagSuggestion {
+  path: string;
+  isTag: boolean;
+  hasChildren: boolean;
+}
+
+// 入力に / を含むときは、その親の直下の階層を前方一致で候補にする（"project/al" → "project/alpha"）。
+// 含まないときは途中の階層も含めて部分一致で探す。excludedTags（追加済みのタグ）は候補にしない
+export const getTagSuggestions = (tags: string[], input: string, excludedTags: string[] = []): TagSuggestion[] => {
+  const lowerInput = input.trim().toLowerCase();
+  if (!lowerInput) return [];
+  const tagSet = new Set(tags);
+  const paths = new Set(tags.flatMap(tag => [...getTagAncestors(tag), tag]));
+  const parentPaths = new Set(Array.from(paths).map(getParentPath).filter(Boolean));
+  const separatorIndex = lowerInput.lastIndexOf(TAG_PATH_SEPARATOR);
+  const matches = (path: string) => {
+    const lowerPath = path.toLowerCase();
+    if (separatorIndex === -1) return lowerPath.includes(lowerInput);
+    const parent = normalizeTagPath(lowerInput.slice(0, separatorIndex));
+    const prefix = lowerInput.slice(separatorIndex + 1).trim();
+    return getParentPath(lowerPath) === parent && lowerPath.slice(parent.length + 1).startsWith(prefix);
+  };
+  return Array.from(paths)
+    .filter(path => matches(path) && !(tagSet.has(path) && excludedTags.includes(path)))
+    .sort((a, b) => a.localeCompare(b))
+    .map(path => ({ path, isTag: tagSet.has(path), hasChildren: parentPaths.has(path) }));
+};
+
+// 白い文字が読める濃さの色だけを選べるようにする
+export const TAG_COLORS: Array<{ value: string; label: string }> = [
+  { value: '#dc2626', label: 'Red' },
+  { value: '#ea580c', label: 'Orange' },
+  { value: '#ca8a04', label: 'Yellow' },
+  { value: '#16a34a', label: 'Green' },
+  { value: '#0d9488', label: 'Teal' },
+  { value: '#2563eb', label: 'Blue' },
+  { value: '#4f46e5', label: 'Indigo' },
+  { value: '#9333ea', label: 'Purple' },
+  { value: '#db2777', label: 'Pink' },
+  { value: '#4b5563', label: 'Gray' },
+];
+
+// 色の無いタグは Badge の既定（secondary）の見た目のまま
+export const getTagBadgeStyle = (color: string | undefined): CSSProperties | undefined =>
+  color ? { backgroundColor: color, borderColor: color, color: '#ffffff' } : undefined;
+
+// 編集中のタグ1つ。sourceTags は保存時にこのタグへ置き換える元のタグ（名前を変えていなければ自分だけ）。
+// まとめたタグの count は元の使用数の合計なので、両方を付けたノードがあると実際より多くなる
+export interface TagDraftEntry {
+  tag: string;
+  sourceTags: string[];
+  count: number;
+  color: string | null;
+}
+
+export interface TagDraft {
+  entries: TagDraftEntry[];
+  deletedTags: string[]; // 全ノードから外す元のタグ
+}
+
+const sortEntries = (entries: TagDraftEntry[]) => [...entries].sort((a, b) => a.tag.localeCompare(b.tag));
+
+export const createTagDraft = (usage: TagUsage[], colors: TagColors): TagDraft => ({
+  entries: sortEntries(usage.map(({ tag, count }) => ({ tag, sourceTags: [tag], count, color: colors[tag] || null }))),
+  deletedTags: [],
+});
+
+// tags を into の1つにまとめる。into が既にあるタグなら、そのタグの色を残す
+export const mergeTagsInDraft = (draft: TagDraft, tags: string[], into: string): TagDraft => {
+  const target = normalizeTagPath(into);
+  if (!target) return draft;
+  const merged = draft.entries.filter(entry => tags.includes(entry.tag) || entry.tag === target);
+  if (merged.length === 0) return draft;
+  const existing = merged.find(entry => entry.tag === target);
+  const entry: TagDraftEntry = {
+    tag: target,
+    sourceTags: merged.flatMap(mergedEntry => mergedEntry.sourceTags),
+    count: merged.reduce((sum, mergedEntry) => sum + mergedEntry.count, 0),
+    color: existing ? existing.color : merged.find(mergedEntry => mergedEntry.color)?.color || null,
+  };
+  return {
+    ...draft,
+    entries: sortEntries([...draft.entries.filter(candidate => !merged.includes(candidate)), entry]),
+  };
+};
+
+// 既にある名前に変えた場合は、そのタグにまとめる
+export const renameTagInDraft = (draft: TagDraft, tag: string, newName: string): TagDraft =>
+  mergeTagsInDraft(draft, [tag], newName);
+
+export const deleteTagInDraft = (draft: TagDraft, tag: string): TagDraft => {
+  const deleted = draft.entries.find(entry => entry.tag === tag);
+  if (!deleted) return draft;
+  return {
+    entries: draft.entries.filter(entry => entry !== deleted),
+    deletedTags: [...draft.deletedTags, ...deleted.sourceTags],
+  };
+};
+
+export const setTagColorInDraft = (draft: TagDraft, tag: string, color: string | null): TagDraft => ({
+  ...draft,
+  entries: draft.entries.map(entry => entry.tag === tag ? { ...entry, color } : entry),
+});
+
+// 名前を変えたり消したりした元のタグの色は外し、新しい名前に付け直す
+export const toTagChanges = (draft: TagDraft, originalColors: TagColors): TagChanges => {
+  const renames: TagChanges['renames'] = {};
+  const colors: TagChanges['colors'] = {};
+  const remainingTags = new Set(draft.entries.map(entry => entry.tag));
+  draft.entries.forEach(entry => {
+    entry.sourceTags.forEach(sourceTag => {
+      if (sourceTag !== entry.tag) renames[sourceTag] = entry.tag;
+    });
+    if ((originalColors[entry.tag] || null) !== entry.color) colors[entry.tag] = entry.color;
+  });
+  draft.deletedTags.forEach(tag => { renames[tag] = null; });
+  Object.keys(renames).forEach(tag => {
+    if (!remainingTags.has(tag) && originalColors[tag]) colors[tag] = null;
+  });
+  return { renames, colors };
+};
+
+export const hasTagChanges = (changes: TagChanges) =>
+  Object.keys(changes.renames).length > 0 || Object.keys(changes.colors).length > 0;
+
+// 保存したタグの変更を、タグの一覧（絞り込み中のタグなど）にも当てはめる
+export const applyTagRenames = (tags: string[], renames: TagChanges['renames']): string[] =>
+  Array.from(new Set(tags.flatMap(tag => {
+    if (!Object.prototype.hasOwnProperty.call(renames, tag)) return [tag];
+    const renamed = renames[tag];
+    return renamed ? [renamed] : [];
+  })));
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from '@/lib/text-diff';
+
+describe('diffLines', () => {
+  it('marks every line as equal when nothing changed', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'equal', text: 'b' },
+    ]);
+  });
+
+  it('keeps the common lines and reports the removed line before the added one', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'equal', text: 'c' },
+    ]);
+  });
+
+  it('reports lines appended at the end and removed from the start', () => {
+    expect(diffLines('a\nb', 'b\nc')).toEqual([
+      { type: 'removed', text: 'a' },
+      { type: 'equal', text: 'b' },
+      { type: 'added', text: 'c' },
+    ]);
+  });
+
+  it('treats an empty text as a single empty line', () => {
+    expect(diffLines('', 'a')).toEqual([
+      { type: 'removed', text: '' },
+      { type: 'added', text: 'a' },
+    ]);
+  });
+});
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// SQLite の CURRENT_TIMESTAMP（UTC, "YYYY-MM-DD HH:MM:SS"）を Date に変換する
+export function parseDbTimestamp(timestamp: string): Date {
+  return new Date(timestamp.includes("T") ? timestamp : `${timestamp.replace(" ", "T")}Z`)
+}
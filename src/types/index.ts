@@ -2,6 +2,12 @@
 export type NodeType = 'file' | 'note' | 'link';
 export type FileType = 'PDF' | 'DOCX' | 'TXT' | 'IMAGE' | 'URL' | 'EXCEL' | 'POWERPOINT' | 'OTHER';
 
+export interface CanvasData {
+  id: string;
+  name: string;
+  createdAt?: string;
+}
+
 export interface NodeData {
   id: string;
   type: NodeType;
@@ -11,6 +17,8 @@ export interface NodeData {
   filePath?: string;
   url?: string;
   tags?: string[];
+  frameId?: string; // 入っている枠の ID
+  style?: NodeStyle; // ノード自身に設定した見た目（タグのルールより優先）
   x: number;
   y: number;
   width?: number;
@@ -22,10 +30,163 @@ export interface NodeData {
   fy?: number | null; // Y方向の固定位置
 }
 
+// ノードの見た目。設定していない項目は既定の見た目のまま
+export type NodeBorderStyle = 'solid' | 'dashed' | 'dotted' | 'double';
+export type NodeIconName = 'star' | 'flag' | 'alert' | 'idea' | 'check' | 'question' | 'bookmark' | 'heart';
+export type NodeSize = 'small' | 'medium' | 'large';
+
+export interface NodeStyle {
+  backgroundColor?: string; // '#rrggbb'
+  borderStyle?: NodeBorderStyle;
+  icon?: NodeIconName; // 種類のアイコンの代わりに出すアイコン
+  emoji?: string; // icon より優先
+  size?: NodeSize;
+}
+
+// tag（とその下の階層のタグ）を付けたノードの既定の見た目。例: "risk" → 赤。
+// 大きさはノードの幅として保存するため、ルールでは決めない
+export interface NodeStyleRule {
+  tag: string;
+  style: Omit<NodeStyle, 'size'>;
+}
+
+// ノードをまとめる枠。ノードの後ろに描かれ、動かすと中のノードも一緒に動く
+export interface FrameData {
+  id: string;
+  title: string;
+  color: string; // '#rrggbb'
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// リンクの関係の種類
+export type LinkRelationType = 'related' | 'supports' | 'contradicts' | 'derived-from' | 'see-also';
+
+// リンクの矢印の向き（none: 矢印なし、forward: source → target、both: 両向き）と線の種類
+export type LinkDirection = 'none' | 'forward' | 'both';
+export type LinkLineStyle = 'solid' | 'dashed' | 'dotted';
+
 export interface LinkData {
   id: string;
   sourceNodeId: string;
   targetNodeId: string;
+  relationType?: LinkRelationType;
+  label?: string;
+  direction?: LinkDirection;
+  lineStyle?: LinkLineStyle;
+  color?: string; // '#rrggbb'。無ければテーマの色
+  weight?: number; // 関係の強さ。線の太さと、力指向レイアウトのばねの強さに使う
+}
+
+// ノードのタイトル・内容・タグの過去の状態
+export interface NodeRevision {
+  id: number;
+  nodeId: string;
+  title: string;
+  content: string;
+  tags: string[];
+  createdAt: string;
+}
+
+// db:search の結果。snippet は一致部分を highlighted にした断片の並び
+export interface SearchSnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface SearchHit {
+  nodeId: string;
+  title: string;
+  snippet: SearchSnippetSegment[];
+  rank: number;
+}
+
+// メインプロセスから届く添付ファイルのテキスト抽出の進み具合（completed / total は現在のまとまり全体での件数）
+export interface TextExtractionProgress {
+  nodeId: string;
+  filePath: string;
+  status: 'started' | 'done' | 'failed';
+  completed: number;
+  total: number;
+  characters?: number;
+  error?: string;
+}
+
+// メインプロセスでの添付ファイルの確認結果（全キャンバスの、参照先が見つからないファイルノード）
+export interface FileCheckStatus {
+  missingNodeIds: string[];
+}
+
+// 見つからないファイルの移動先の候補。hash は最後に見つかったときと内容が同じもの、name は名前だけ同じもの
+export interface RelinkCandidate {
+  filePath: string;
+  matchedBy: 'hash' | 'name';
+}
+
+// 候補は確からしい順。truncated は探したフォルダのファイルが多すぎて途中で打ち切ったとき
+export interface RelinkSearchResult {
+  results: Array<{ nodeId: string; candidates: RelinkCandidate[] }>;
+  truncated: boolean;
+}
+
+// ファイルノードの参照先の状態。viewedMtimeMs は最後にアプリから開いたときのファイルの mtime
+export interface NodeFileState {
+  nodeId: string;
+  status: 'ok' | 'missing';
+  fileSize: number | null;
+  fileMtimeMs: number | null;
+  viewedMtimeMs: number | null;
+}
+
+// メインプロセスのファイル監視から届く出来事。rename は同じフォルダ内での名前の変更で、
+// ノードの参照先はメインプロセスで newFilePath に書き換え済み。viewed はアプリからファイルを開いたとき
+export interface FileChangeEvent {
+  type: 'change' | 'rename' | 'delete' | 'viewed';
+  filePath: string;
+  newFilePath?: string;
+  states: NodeFileState[];
+}
+
+// ゴミ箱にある項目（deletedAt は ISO 8601）
+export type TrashedNode = NodeData & { deletedAt: string };
+export type TrashedLink = LinkData & { deletedAt: string };
+
+// メインプロセスが userData/backups に置くデータベースのバックアップ（createdAt は ISO 8601、size はバイト数）
+export type BackupKind = 'daily' | 'weekly' | 'safety' | 'manual' | 'pre-migration';
+
+export interface BackupInfo {
+  fileName: string;
+  kind: BackupKind;
+  reason: string | null; // safety のとき、どの操作の前に取ったか（例: "before-empty-trash"）
+  createdAt: string;
+  size: number;
+}
+
+// 復元前の確認用。件数はゴミ箱の項目を含まない
+export interface BackupPreview {
+  fileName: string;
+  isIntact: boolean;
+  schemaVersion: number;
+  canvases: number;
+  nodes: number;
+  links: number;
+}
+
+// タグは全キャンバス共通。count はゴミ箱にないノードのうち、そのタグを付けているものの数
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+// タグ → 色（'#rrggbb'）。色を付けていないタグは含まない
+export type TagColors = Record<string, string>;
+
+// タグ管理でまとめて保存する変更。renames の値が null のタグは全ノードから外し、colors の値が null のタグは色を外す
+export interface TagChanges {
+  renames: Record<string, string | null>;
+  colors: Record<string, string | null>;
 }
 
 export interface DeleteModeState {